@@ -1,21 +1,25 @@
 import { NextRequest } from "next/server";
-import { getAnalysisModel } from "@/lib/gemini";
+import { getAnalysisModel } from "@/lib/llm";
 import dbConnect from "@/lib/mongodb";
 import Conversation from "@/lib/models/Conversation";
 import User from "@/lib/models/User";
 import { calculateXP, calculateLevel } from "@/lib/levels";
-import { checkRateLimit } from "@/lib/rate-limit";
+import { getDifficultyLabel, parseDifficultyLevel } from "@/lib/difficultyEngine";
+import { checkRateLimit, getRateLimitKey, rateLimitedResponse } from "@/lib/rate-limit";
+import { forbiddenResponse, getRequestIdentity, unauthorizedResponse } from "@/lib/identity";
+import {
+  AnalysisParseError,
+  generateValidatedAnalysis,
+  validateConversationAnalysis,
+} from "@/lib/analysisValidation";
 
 export async function POST(req: NextRequest) {
   try {
-    const { allowed, retryAfterMs } = checkRateLimit();
-    if (!allowed) {
-      return Response.json(
-        { error: `Rate limited. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.` },
-        { status: 429, headers: { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) } }
-      );
+    const identity = await getRequestIdentity(req);
+    if (!identity) {
+      return unauthorizedResponse();
     }
-    const { conversationId } = await req.json();
+    const { conversationId, reanalyze } = await req.json();
 
     await dbConnect();
 
@@ -26,6 +30,35 @@ export async function POST(req: NextRequest) {
         { status: 404 }
       );
     }
+    if (conversation.userId !== identity.visitorId) {
+      return forbiddenResponse();
+    }
+    if (conversation.status === "active") {
+      return Response.json(
+        { error: "Conversation is still in progress" },
+        { status: 409 }
+      );
+    }
+    // Voice conversations are scored (and earn XP) by /api/voice/analyze
+    if (conversation.mode === "voice") {
+      return Response.json(
+        { error: "Voice conversations are analyzed by /api/voice/analyze" },
+        { status: 400 }
+      );
+    }
+
+    // Analysis runs once per conversation; repeat calls get the stored result
+    // unless a re-analysis is asked for explicitly
+    const previous = conversation.analytics;
+    if (previous && !reanalyze) {
+      return Response.json({ analytics: previous, cached: true });
+    }
+
+    // Only calls that reach the model count against the limit
+    const { allowed, retryAfterMs } = await checkRateLimit("analyze", await getRateLimitKey(req, identity));
+    if (!allowed) {
+      return rateLimitedResponse(retryAfterMs);
+    }
 
     // Build transcript
     const transcript = conversation.messages
@@ -36,10 +69,11 @@ export async function POST(req: NextRequest) {
       .join("\n");
 
     const model = getAnalysisModel();
+    const difficulty = parseDifficultyLevel(conversation.difficulty);
 
     const prompt = `Analyze this conversation between a User and their conversation Partner.
 
-The scenario was: "${conversation.scenario}" (${conversation.difficulty} difficulty)
+The scenario was: "${conversation.scenario}" (${getDifficultyLabel(difficulty)} difficulty, level ${Math.round(difficulty)} of 10)
 
 Transcript:
 ${transcript}
@@ -58,9 +92,14 @@ Analyze the USER's (NOT the Partner's) communication skills, using the second pe
 
 Be constructive but honest. Give realistic scores — not all high and not all low. Consider the difficulty level when evaluating.`;
 
-    const result = await model.generateContent(prompt);
-    const analysisText = result.response.text();
-    const analysis = JSON.parse(analysisText);
+    const { value: analysis, defaultedFields } = await generateValidatedAnalysis(
+      model,
+      prompt,
+      validateConversationAnalysis
+    );
+    if (defaultedFields.length > 0) {
+      console.warn("Analysis fields defaulted:", defaultedFields);
+    }
 
     // Calculate response time and message length stats
     const userMessages = conversation.messages.filter(
@@ -99,21 +138,43 @@ Be constructive but honest. Give realistic scores — not all high and not all l
     // Calculate XP
     const xpEarned = calculateXP(analysis);
 
-    // Update conversation with analytics
-    conversation.analytics = {
-      ...analysis,
-      avgResponseLength,
-      avgResponseTimeMs,
-      xpEarned,
-    };
-    await conversation.save();
-
-    // Update user stats
-    const user = await User.findOne({ visitorId: conversation.userId });
+    // Only write if the analytics are still the ones this request started
+    // from, so concurrent calls cannot both award XP
+    const updated = await Conversation.findOneAndUpdate(
+      { _id: conversation._id, "analytics.analyzedAt": previous?.analyzedAt ?? null },
+      {
+        $set: {
+          analytics: {
+            ...analysis,
+            avgResponseLength,
+            avgResponseTimeMs,
+            xpEarned,
+            defaultedFields,
+            analyzedAt: new Date(),
+          },
+        },
+      },
+      { returnDocument: "after" }
+    );
+    if (!updated) {
+      const current = await Conversation.findById(conversation._id);
+      return Response.json({ analytics: current?.analytics ?? null, cached: true });
+    }
+
+    // Update user stats. A re-analysis replaces the XP it previously awarded
+    // instead of stacking on top of it, and doesn't count as a new conversation.
+    const user = await User.findOneAndUpdate(
+      { visitorId: conversation.userId },
+      {
+        $inc: {
+          xp: xpEarned - (previous?.xpEarned ?? 0),
+          conversationCount: previous ? 0 : 1,
+        },
+      },
+      { returnDocument: "after" }
+    );
     if (user) {
-      user.xp += xpEarned;
       user.level = calculateLevel(user.xp);
-      user.conversationCount += 1;
 
       // Update strengths and weaknesses based on latest scores
       const metrics: Record<string, number> = {
@@ -132,8 +193,15 @@ Be constructive but honest. Give realistic scores — not all high and not all l
       await user.save();
     }
 
-    return Response.json({ analytics: conversation.analytics });
+    return Response.json({ analytics: updated.analytics, cached: false });
   } catch (error) {
+    if (error instanceof AnalysisParseError) {
+      console.error("Analysis output invalid:", error.message);
+      return Response.json(
+        { error: "The analysis model returned an invalid response. Please try again." },
+        { status: 502 }
+      );
+    }
     console.error("Analysis error:", error);
     return Response.json(
       { error: "Failed to analyze conversation" },
@@ -0,0 +1,20 @@
+import { NextRequest } from "next/server";
+import { AuthError, authErrorResponse, claimAnonymousUser, getSessionUser } from "@/lib/auth";
+import { getVerifiedVisitorId } from "@/lib/identity";
+
+export async function POST(req: NextRequest) {
+  try {
+    const account = await getSessionUser(req);
+    if (!account) {
+      throw new AuthError("Sign in to claim progress", 401);
+    }
+
+    // Only the browser holding the anonymous visitor's cookie can claim it
+    const visitorId = await getVerifiedVisitorId(req);
+    const { user, claimed, conversationsMoved } = await claimAnonymousUser(account, visitorId);
+
+    return Response.json({ user, claimed, conversationsMoved });
+  } catch (error) {
+    return authErrorResponse(error, "Failed to claim progress");
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest } from "next/server";
+import dbConnect from "@/lib/mongodb";
+import User from "@/lib/models/User";
+import {
+  AuthError,
+  authErrorResponse,
+  findAnonymousUser,
+  normalizeEmail,
+  sessionResponse,
+  verifyPassword,
+} from "@/lib/auth";
+import { getVerifiedVisitorId } from "@/lib/identity";
+
+export async function POST(req: NextRequest) {
+  try {
+    const { email, password } = await req.json();
+    const normalizedEmail = normalizeEmail(email);
+
+    await dbConnect();
+    const user = await User.findOne({ email: normalizedEmail }).select("+passwordHash");
+    const valid =
+      user?.passwordHash && typeof password === "string"
+        ? await verifyPassword(password, user.passwordHash)
+        : false;
+    if (!valid) {
+      throw new AuthError("Invalid email or password", 401);
+    }
+
+    // Let the client offer to merge this browser's anonymous progress
+    const anonymous = await findAnonymousUser(await getVerifiedVisitorId(req));
+    return sessionResponse(user, {
+      claimable: anonymous
+        ? { xp: anonymous.xp, conversationCount: anonymous.conversationCount }
+        : null,
+    });
+  } catch (error) {
+    return authErrorResponse(error, "Failed to sign in");
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, clearSessionCookie, destroySession } from "@/lib/auth";
+import { clearVisitorCookie } from "@/lib/identity";
+
+export async function POST(req: NextRequest) {
+  try {
+    await destroySession(req);
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+    // The browser starts over as a new anonymous visitor
+    clearVisitorCookie(response);
+    return response;
+  } catch (error) {
+    return authErrorResponse(error, "Failed to sign out");
+  }
+}
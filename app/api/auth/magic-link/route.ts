@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server";
+import { authErrorResponse, createMagicLinkToken, normalizeEmail } from "@/lib/auth";
+import { isMailConfigured, sendMail } from "@/lib/mailer";
+
+export async function POST(req: NextRequest) {
+  try {
+    if (!isMailConfigured()) {
+      console.error("Magic links need SMTP_HOST in production");
+      return Response.json(
+        { error: "Email sign-in is not available right now" },
+        { status: 503 }
+      );
+    }
+
+    const { email } = await req.json();
+    const normalizedEmail = normalizeEmail(email);
+
+    const token = await createMagicLinkToken(normalizedEmail);
+    const origin = process.env.APP_URL || req.nextUrl.origin;
+    const link = `${origin}/api/auth/magic-link/verify?token=${encodeURIComponent(token)}`;
+
+    await sendMail({
+      to: normalizedEmail,
+      subject: "Your Cuepid sign-in link",
+      text: `Click the link below to sign in to Cuepid. It expires in 15 minutes and can only be used once.\n\n${link}\n\nIf you didn't ask for this, you can ignore this email.`,
+    });
+
+    // Same response whether or not an account exists, so emails can't be probed
+    return Response.json({ success: true });
+  } catch (error) {
+    return authErrorResponse(error, "Failed to send sign-in link");
+  }
+}
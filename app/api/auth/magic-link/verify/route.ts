@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  consumeMagicLinkToken,
+  createSession,
+  findOrCreateVerifiedAccount,
+  setSessionCookie,
+} from "@/lib/auth";
+
+export async function GET(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get("token");
+  const loginUrl = new URL("/login", req.nextUrl.origin);
+
+  try {
+    const email = token ? await consumeMagicLinkToken(token) : null;
+    if (!email) {
+      loginUrl.searchParams.set("error", "expired");
+      return NextResponse.redirect(loginUrl);
+    }
+
+    // A magic link proves the address, creating the account on first use
+    const user = await findOrCreateVerifiedAccount(email);
+
+    const { token: sessionToken, expiresAt } = await createSession(user._id);
+    loginUrl.searchParams.set("signedIn", "1");
+    const response = NextResponse.redirect(loginUrl);
+    setSessionCookie(response, sessionToken, expiresAt);
+    return response;
+  } catch (error) {
+    console.error("Magic link error:", error);
+    loginUrl.searchParams.set("error", "failed");
+    return NextResponse.redirect(loginUrl);
+  }
+}
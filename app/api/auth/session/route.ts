@@ -0,0 +1,23 @@
+import { NextRequest } from "next/server";
+import { authErrorResponse, findAnonymousUser, getSessionUser } from "@/lib/auth";
+import { getVerifiedVisitorId } from "@/lib/identity";
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getSessionUser(req);
+    if (!user) {
+      return Response.json({ user: null });
+    }
+
+    // Same claim hint as /api/auth/login, for sign-ins that arrive via magic link
+    const anonymous = await findAnonymousUser(await getVerifiedVisitorId(req));
+    return Response.json({
+      user,
+      claimable: anonymous
+        ? { xp: anonymous.xp, conversationCount: anonymous.conversationCount }
+        : null,
+    });
+  } catch (error) {
+    return authErrorResponse(error, "Failed to get session");
+  }
+}
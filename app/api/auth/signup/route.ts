@@ -0,0 +1,46 @@
+import { NextRequest } from "next/server";
+import crypto from "crypto";
+import dbConnect from "@/lib/mongodb";
+import User from "@/lib/models/User";
+import {
+  AuthError,
+  authErrorResponse,
+  findAnonymousUser,
+  hashPassword,
+  normalizeEmail,
+  sessionResponse,
+  validatePassword,
+} from "@/lib/auth";
+import { getVerifiedVisitorId } from "@/lib/identity";
+
+export async function POST(req: NextRequest) {
+  try {
+    const { email, password } = await req.json();
+    const normalizedEmail = normalizeEmail(email);
+    const passwordHash = await hashPassword(validatePassword(password));
+
+    await dbConnect();
+    if (await User.exists({ email: normalizedEmail })) {
+      throw new AuthError("An account with this email already exists", 409);
+    }
+
+    // Signing up from a browser with anonymous progress turns that visitor into
+    // the account, so its XP and conversations carry over as they are
+    const anonymous = await findAnonymousUser(await getVerifiedVisitorId(req));
+    if (anonymous) {
+      anonymous.email = normalizedEmail;
+      anonymous.passwordHash = passwordHash;
+      await anonymous.save();
+      return sessionResponse(anonymous);
+    }
+
+    const user = await User.create({
+      visitorId: crypto.randomUUID(),
+      email: normalizedEmail,
+      passwordHash,
+    });
+    return sessionResponse(user);
+  } catch (error) {
+    return authErrorResponse(error, "Failed to create account");
+  }
+}
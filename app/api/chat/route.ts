@@ -1,7 +1,30 @@
 import { NextRequest } from "next/server";
-import { getChatModel } from "@/lib/gemini";
-import { scenarios } from "@/lib/scenarios";
-import { checkRateLimit } from "@/lib/rate-limit";
+import { getAnalysisModel, getChatModel, isRateLimitError, LLMMessage } from "@/lib/llm";
+import { getScenario } from "@/lib/scenarioCatalog";
+import { checkRateLimit, getRateLimitKey, rateLimitedResponse } from "@/lib/rate-limit";
+import { formatPassagesForPartner, retrieveForChatTurn, toMessagePassages } from "@/lib/bookRAG";
+import { formatStageForPartner, progressScenario, toProgressView } from "@/lib/scenarioProgress";
+import { buildPartnerPrompt, resolveTemplateValues } from "@/lib/promptTemplate";
+import { getDifficultyPromptModifier, toScenarioDifficulty } from "@/lib/difficultyEngine";
+import {
+  createDifficultyState,
+  getStateSettings,
+  restoreDifficultyState,
+  stepDifficulty,
+} from "@/lib/difficultyController";
+import { startDifficultyState } from "@/lib/difficultyProfile";
+import { formatEventForPartner, rollConversationEvent } from "@/lib/eventInjector";
+import { analyzeTextMessage, toPerformanceIndicators } from "@/lib/textAnalytics";
+import { IConversation, IMessage } from "@/lib/models/Conversation";
+import {
+  ConversationError,
+  appendConversationTurn,
+  claimConversationTurn,
+  conversationErrorResponse,
+  getConversationSetup,
+  loadActiveConversation,
+  releaseConversationTurn,
+} from "@/lib/conversationStore";
 
 const MAX_RETRIES = 3;
 
@@ -10,77 +33,153 @@ async function sleep(ms: number) {
 }
 
 export async function POST(req: NextRequest) {
+  let claim: { conversation: IConversation; claimedAt: Date } | null = null;
   try {
-    const { allowed, retryAfterMs } = checkRateLimit();
+    const { allowed, retryAfterMs } = await checkRateLimit("chat", await getRateLimitKey(req));
     if (!allowed) {
-      return Response.json(
-        { error: `Rate limited. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.` },
-        { status: 429, headers: { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) } }
-      );
+      return rateLimitedResponse(retryAfterMs);
     }
-    const { messages, scenarioId, difficulty, gender = "female", weaknesses = "" } = await req.json();
+    // Only the new message comes from the browser; the history, the
+    // session's setup and the state from the previous turn are stored
+    const { conversationId, message } = await req.json();
+    const conversation = await loadActiveConversation(req, conversationId);
+    if (typeof message !== "string" || !message.trim()) {
+      throw new ConversationError("message is required");
+    }
+    const lastMessage = message.trim();
+    const messages: IMessage[] = conversation.messages;
 
-    const scenario = scenarios[scenarioId];
+    const scenario = await getScenario(conversation.scenario);
     if (!scenario) {
       return Response.json({ error: "Invalid scenario" }, { status: 400 });
     }
 
-    let systemPrompt =
-      scenario.systemPrompts[difficulty as keyof typeof scenario.systemPrompts];
-    
-    // Replace {{WEAKNESSES}} placeholder if present
-    if (weaknesses && systemPrompt.includes("{{WEAKNESSES}}")) {
-      const weaknessArray = weaknesses.split(",").map((w: string) => w.trim());
-      const formattedWeaknesses = weaknessArray.join(", ");
-      systemPrompt = systemPrompt.replace("{{WEAKNESSES}}", formattedWeaknesses);
-    }
-    
-    // Add gender context to the prompt
-    const genderIdentity = gender === "male" ? "You are male." : "You are female.";
-    systemPrompt = systemPrompt + `\n\n${genderIdentity}`;
-
-    // Build Gemini-compatible history (must start with "user", alternating roles)
-    const allButLast = messages.slice(0, -1);
+    // Hold the turn before any of it is generated, so a reply the user
+    // reads can't then fail to save because another tab got there first
+    claim = { conversation, claimedAt: await claimConversationTurn(conversation) };
+    const { claimedAt } = claim;
+
+    // Fill in the session's names, pronouns, weaknesses and so on
+    const setup = getConversationSetup(conversation);
+    const gender = setup.gender;
+    const templateValues = resolveTemplateValues(scenario, {
+      values: setup.variables,
+      gender,
+      weaknesses: setup.weaknesses,
+    });
+    // Adapt the difficulty to how the user's message reads, as voice mode
+    // does to how it sounds. How long they took to reply is measured here,
+    // from the stored time of the partner's last message.
+    const lastReplyAt = [...messages].reverse().find((m) => m.role === "model")?.timestamp;
+    const textMetrics = analyzeTextMessage({
+      message: lastMessage,
+      replyLatencyMs: lastReplyAt === undefined ? null : claimedAt.getTime() - lastReplyAt,
+    });
+    const difficultyState = stepDifficulty(
+      conversation.difficultyState
+        ? restoreDifficultyState(conversation.difficultyState, createDifficultyState(conversation.difficulty))
+        : await startDifficultyState(req, conversation.difficulty),
+      toPerformanceIndicators(textMetrics)
+    );
+    const level = difficultyState.overall.level;
+    const difficultySettings = getStateSettings(difficultyState);
+    let systemPrompt = buildPartnerPrompt(
+      scenario,
+      toScenarioDifficulty(level),
+      templateValues,
+      gender
+    );
+    systemPrompt += getDifficultyPromptModifier(difficultySettings);
+
+    // Every stored message so far; the new one isn't saved until the reply is
+    const priorMessages = messages.map((m) => ({ role: m.role, content: m.content, events: m.events }));
+
+    // Judge the user's message first, so the reply reflects any stage change
+    const progress = await progressScenario(
+      getAnalysisModel(),
+      scenario,
+      conversation.progress,
+      priorMessages,
+      lastMessage
+    );
+    systemPrompt += formatStageForPartner(scenario, progress);
+
+    // Ground the reply in research relevant to this turn
+    const previousReply = [...priorMessages].reverse().find((m) => m.role === "model");
+    const passages = await retrieveForChatTurn({
+      userMessage: lastMessage,
+      previousReply: previousReply?.content,
+      category: scenario.category,
+    });
+    systemPrompt += formatPassagesForPartner(passages);
+
+    // Roll for something to spring on the user, e.g. a misread message
+    const event = rollConversationEvent({
+      scenario,
+      settings: difficultySettings,
+      seed: setup.eventSeed,
+      turn: messages.filter((m) => m.role === "user").length + 1,
+      previousEvent: !!previousReply?.events?.length,
+    });
+    systemPrompt += formatEventForPartner(scenario, event, templateValues);
 
     // If the conversation starts with a model message (starter message),
     // fold it into the system prompt so history starts with "user"
     let historyStart = 0;
-    if (allButLast.length > 0 && allButLast[0].role === "model") {
-      systemPrompt += `\n\nYou already opened the conversation by saying: "${allButLast[0].content}". Continue naturally from there.`;
+    if (priorMessages.length > 0 && priorMessages[0].role === "model") {
+      systemPrompt += `\n\nYou already opened the conversation by saying: "${priorMessages[0].content}". Continue naturally from there.`;
       historyStart = 1;
     }
 
     const model = getChatModel(systemPrompt);
 
-    const history = allButLast
-      .slice(historyStart)
-      .map((m: { role: string; content: string }) => ({
-        role: m.role === "user" ? "user" : "model",
-        parts: [{ text: m.content }],
-      }));
-
-    const lastMessage = messages[messages.length - 1].content;
+    const history: LLMMessage[] = priorMessages.slice(historyStart).map((m) => ({
+      role: m.role,
+      content: m.content,
+    }));
+    const userMessage: IMessage = {
+      role: "user",
+      content: lastMessage,
+      timestamp: Date.now(),
+      textMetrics,
+      difficulty: level,
+    };
 
     // Retry with exponential backoff on rate limit errors
     let lastError: unknown = null;
     for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
       try {
-        const chat = model.startChat({ history });
-        const result = await chat.sendMessageStream(lastMessage);
+        const replyStream = await model.sendMessageStream(history, lastMessage);
 
         const encoder = new TextEncoder();
         const stream = new ReadableStream({
           async start(controller) {
             try {
-              for await (const chunk of result.stream) {
-                const text = chunk.text();
-                if (text) {
-                  controller.enqueue(encoder.encode(text));
-                }
+              let reply = "";
+              for await (const text of replyStream) {
+                reply += text;
+                controller.enqueue(encoder.encode(text));
               }
+
+              // The turn is saved only once the whole reply exists
+              await appendConversationTurn(conversation, claimedAt, {
+                userMessage,
+                reply: {
+                  role: "model",
+                  content: reply,
+                  timestamp: Date.now(),
+                  ...(passages.length > 0 && { passages: toMessagePassages(passages) }),
+                  ...(event && { events: [event] }),
+                },
+                difficulty: level,
+                difficultyState,
+                progress,
+              });
             } catch (error) {
               console.error("Stream error:", error);
+              await releaseConversationTurn(conversation, claimedAt);
               controller.error(error);
+              return;
             }
             controller.close();
           },
@@ -90,15 +189,32 @@ export async function POST(req: NextRequest) {
           headers: {
             "Content-Type": "text/plain; charset=utf-8",
             "Cache-Control": "no-cache",
+            // The body is the bare reply, so the new difficulty level and
+            // state, the turn's metrics, the passages used, any event and
+            // the scenario progress travel in headers
+            "X-Difficulty-Level": String(level),
+            "X-Difficulty-State": encodeURIComponent(JSON.stringify(difficultyState)),
+            "X-Text-Metrics": encodeURIComponent(JSON.stringify(textMetrics)),
+            ...(passages.length > 0 && {
+              "X-Knowledge-Passages": encodeURIComponent(
+                JSON.stringify(toMessagePassages(passages))
+              ),
+            }),
+            ...(event && {
+              "X-Conversation-Event": encodeURIComponent(JSON.stringify(event)),
+            }),
+            ...(progress && {
+              "X-Scenario-Progress": encodeURIComponent(
+                JSON.stringify(toProgressView(scenario, progress))
+              ),
+            }),
           },
         });
       } catch (error: unknown) {
         lastError = error;
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
 
         // Retry on rate limit (429) errors
-        if (errorMessage.includes("429") || errorMessage.toLowerCase().includes("too many requests") || errorMessage.toLowerCase().includes("resource has been exhausted")) {
+        if (isRateLimitError(error)) {
           const delay = Math.pow(2, attempt) * 2000; // 2s, 4s, 8s
           console.log(`Rate limited, retrying in ${delay}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
           await sleep(delay);
@@ -112,15 +228,15 @@ export async function POST(req: NextRequest) {
 
     // All retries exhausted
     console.error("All retries exhausted:", lastError);
+    await releaseConversationTurn(conversation, claimedAt);
     return Response.json(
-      { error: "Rate limited by Gemini API. Please wait a moment and try again." },
+      { error: "Rate limited by the language model API. Please wait a moment and try again." },
       { status: 429 }
     );
   } catch (error) {
-    console.error("Chat API error:", error);
-    return Response.json(
-      { error: "Failed to generate response" },
-      { status: 500 }
-    );
+    if (claim) {
+      await releaseConversationTurn(claim.conversation, claim.claimedAt);
+    }
+    return conversationErrorResponse(error, "Failed to generate response");
   }
 }
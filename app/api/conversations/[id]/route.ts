@@ -1,12 +1,23 @@
 import { NextRequest } from "next/server";
 import dbConnect from "@/lib/mongodb";
 import Conversation from "@/lib/models/Conversation";
+import { forbiddenResponse, getRequestIdentity, unauthorizedResponse } from "@/lib/identity";
+import { getScenario } from "@/lib/scenarioCatalog";
+import { toProgressView } from "@/lib/scenarioProgress";
+import { createDifficultyState, restoreDifficultyState } from "@/lib/difficultyController";
+import { saveSkillLevels } from "@/lib/difficultyProfile";
+import { getConversationStatus } from "@/lib/conversationSession";
 
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const identity = await getRequestIdentity(req);
+    if (!identity) {
+      return unauthorizedResponse();
+    }
+
     const { id } = await params;
     await dbConnect();
 
@@ -17,8 +28,20 @@ export async function GET(
         { status: 404 }
       );
     }
+    if (conversation.userId !== identity.visitorId) {
+      return forbiddenResponse();
+    }
 
-    return Response.json({ conversation });
+    // A chat page resuming the conversation shows the objectives as they stand
+    const status = getConversationStatus(conversation);
+    const scenario =
+      status === "active" && conversation.progress ? await getScenario(conversation.scenario) : null;
+    const progressView = scenario ? toProgressView(scenario, conversation.progress) : null;
+
+    return Response.json({
+      conversation: status === conversation.status ? conversation : { ...conversation.toObject(), status },
+      progressView,
+    });
   } catch (error) {
     console.error("Conversation API error:", error);
     return Response.json(
@@ -27,3 +50,107 @@ export async function GET(
     );
   }
 }
+
+/**
+ * End an active conversation: { status: "ended" }. Turns are saved as they
+ * happen, so nothing else needs sending.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const identity = await getRequestIdentity(req);
+    if (!identity) {
+      return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const { status } = await req.json();
+    if (status !== "ended") {
+      return Response.json(
+        { error: "Only ending a conversation is supported" },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const conversation = await Conversation.findById(id);
+    if (!conversation) {
+      return Response.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+    if (conversation.userId !== identity.visitorId) {
+      return forbiddenResponse();
+    }
+
+    // Ending twice (e.g. a retried request) changes nothing
+    if (conversation.status === "ended") {
+      return Response.json({ conversation });
+    }
+
+    conversation.status = "ended";
+    await conversation.save();
+
+    // The user's next conversation starts each skill where this one left it
+    if (conversation.difficultyState) {
+      await saveSkillLevels(
+        identity.visitorId,
+        restoreDifficultyState(
+          conversation.difficultyState,
+          createDifficultyState(conversation.difficulty)
+        )
+      );
+    }
+
+    return Response.json({ conversation });
+  } catch (error) {
+    console.error("Conversation API error:", error);
+    return Response.json(
+      { error: "Failed to end conversation" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete one of the caller's conversations, whatever its status
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const identity = await getRequestIdentity(req);
+    if (!identity) {
+      return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    await dbConnect();
+
+    const conversation = await Conversation.findById(id);
+    if (!conversation) {
+      return Response.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+    if (conversation.userId !== identity.visitorId) {
+      return forbiddenResponse();
+    }
+
+    await conversation.deleteOne();
+
+    return Response.json({ success: true });
+  } catch (error) {
+    console.error("Conversation API error:", error);
+    return Response.json(
+      { error: "Failed to delete conversation" },
+      { status: 500 }
+    );
+  }
+}
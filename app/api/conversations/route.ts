@@ -1,19 +1,57 @@
 import { NextRequest } from "next/server";
 import dbConnect from "@/lib/mongodb";
 import Conversation from "@/lib/models/Conversation";
+import { forbiddenResponse, getRequestIdentity, unauthorizedResponse } from "@/lib/identity";
+import { getScenario } from "@/lib/scenarioCatalog";
+import { parseDifficultyLevel } from "@/lib/difficultyEngine";
+import { getConversationStatus, restoreConversationSetup } from "@/lib/conversationSession";
+import { abandonStaleConversations, renderStarterMessage } from "@/lib/conversationStore";
 
+/**
+ * Start a conversation. The partner's opening message is rendered here
+ * from the scenario and setup; every later message is appended by the chat
+ * routes, so a client can't supply any of the history.
+ */
 export async function POST(req: NextRequest) {
   try {
-    const { userId, scenario, difficulty, messages, mode, voiceMetricsHistory } = await req.json();
+    const identity = await getRequestIdentity(req);
+    if (!identity) {
+      return unauthorizedResponse();
+    }
+
+    const { userId, scenario: scenarioId, difficulty, mode, setup: rawSetup } = await req.json();
+    if (userId && userId !== identity.visitorId) {
+      return forbiddenResponse();
+    }
+
+    const scenario = await getScenario(scenarioId);
+    if (!scenario) {
+      return Response.json({ error: "Invalid scenario" }, { status: 400 });
+    }
+
     await dbConnect();
 
+    // Starting a conversation is when the user's idle ones are swept; the
+    // scheduled purge job covers everyone else
+    await abandonStaleConversations({ userId: identity.visitorId });
+
+    const setup = restoreConversationSetup(rawSetup);
     const conversation = await Conversation.create({
-      userId,
-      scenario,
-      difficulty,
-      messages,
-      mode: mode || "text",
-      voiceMetricsHistory: voiceMetricsHistory || [],
+      userId: identity.visitorId,
+      scenario: scenario.id,
+      difficulty: parseDifficultyLevel(difficulty),
+      mode: mode === "voice" ? "voice" : "text",
+      status: "active",
+      setup,
+      messages: [
+        {
+          role: "model",
+          content: renderStarterMessage(scenario, setup),
+          timestamp: Date.now(),
+          // The voice page speaks its opener warmly
+          ...(mode === "voice" && { tone: "warm" }),
+        },
+      ],
     });
 
     return Response.json({ conversation });
@@ -28,19 +66,32 @@ export async function POST(req: NextRequest) {
 
 export async function GET(req: NextRequest) {
   try {
+    const identity = await getRequestIdentity(req);
+    if (!identity) {
+      return unauthorizedResponse();
+    }
+
+    // userId is optional now that the caller is known, but must be their own
     const userId = req.nextUrl.searchParams.get("userId");
-    if (!userId) {
-      return Response.json(
-        { error: "userId required" },
-        { status: 400 }
-      );
+    if (userId && userId !== identity.visitorId) {
+      return forbiddenResponse();
     }
 
     await dbConnect();
-    const conversations = await Conversation.find({ userId }).sort({
+
+    const stored = await Conversation.find({ userId: identity.visitorId }).sort({
       createdAt: -1,
     });
 
+    // Listing changes nothing, so conversations left without ending are
+    // shown as the next sweep will leave them: abandoned, or gone if they
+    // never got past the partner's first message
+    const conversations = stored.flatMap((conversation) => {
+      const status = getConversationStatus(conversation);
+      if (status === conversation.status) return [conversation];
+      return conversation.messages.length > 1 ? [{ ...conversation.toObject(), status }] : [];
+    });
+
     return Response.json({ conversations });
   } catch (error) {
     console.error("Conversation API error:", error);
@@ -0,0 +1,82 @@
+import { NextRequest } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import dbConnect from "@/lib/mongodb";
+import ScenarioImage from "@/lib/models/ScenarioImage";
+import { forbiddenResponse, unauthorizedResponse } from "@/lib/identity";
+import {
+  ScenarioError,
+  isCoach,
+  removeScenarioImage,
+  scenarioErrorResponse,
+  setScenarioImage,
+} from "@/lib/scenarioCatalog";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await dbConnect();
+
+    const image = await ScenarioImage.findOne({ scenarioId: id });
+    if (!image) {
+      return Response.json({ error: "Image not found" }, { status: 404 });
+    }
+
+    // URLs carry a version (?v=) that changes on upload, so they can be cached
+    return new Response(new Uint8Array(image.data), {
+      headers: {
+        "Content-Type": image.contentType,
+        "Cache-Control": "public, max-age=31536000, immutable",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    return scenarioErrorResponse(error, "Failed to get scenario image");
+  }
+}
+
+/**
+ * Upload as multipart/form-data with the file in an "image" field
+ */
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  try {
+    const account = await getSessionUser(req);
+    if (!account) {
+      return unauthorizedResponse();
+    }
+    if (!isCoach(account)) {
+      return forbiddenResponse();
+    }
+
+    const form = await req.formData().catch(() => null);
+    const file = form?.get("image");
+    if (!(file instanceof File)) {
+      throw new ScenarioError('Send the image as multipart/form-data in an "image" field');
+    }
+
+    const { id } = await params;
+    const scenario = await setScenarioImage(id, Buffer.from(await file.arrayBuffer()));
+    return Response.json({ scenario });
+  } catch (error) {
+    return scenarioErrorResponse(error, "Failed to upload scenario image");
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const account = await getSessionUser(req);
+    if (!account) {
+      return unauthorizedResponse();
+    }
+    if (!isCoach(account)) {
+      return forbiddenResponse();
+    }
+
+    const { id } = await params;
+    const scenario = await removeScenarioImage(id);
+    return Response.json({ scenario });
+  } catch (error) {
+    return scenarioErrorResponse(error, "Failed to remove scenario image");
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { forbiddenResponse, unauthorizedResponse } from "@/lib/identity";
+import {
+  deleteScenario,
+  getScenario,
+  isCoach,
+  scenarioErrorResponse,
+  toScenarioSummary,
+  updateScenario,
+} from "@/lib/scenarioCatalog";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const scenario = await getScenario(id);
+    if (!scenario) {
+      return Response.json({ error: "Scenario not found" }, { status: 404 });
+    }
+
+    // Coaches get the system prompts so they can edit them
+    const account = await getSessionUser(req);
+    return Response.json({
+      scenario: isCoach(account) ? scenario : toScenarioSummary(scenario),
+    });
+  } catch (error) {
+    return scenarioErrorResponse(error, "Failed to get scenario");
+  }
+}
+
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  try {
+    const account = await getSessionUser(req);
+    if (!account) {
+      return unauthorizedResponse();
+    }
+    if (!isCoach(account)) {
+      return forbiddenResponse();
+    }
+
+    const { id } = await params;
+    const scenario = await updateScenario(id, await req.json());
+    return Response.json({ scenario });
+  } catch (error) {
+    return scenarioErrorResponse(error, "Failed to update scenario");
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const account = await getSessionUser(req);
+    if (!account) {
+      return unauthorizedResponse();
+    }
+    if (!isCoach(account)) {
+      return forbiddenResponse();
+    }
+
+    const { id } = await params;
+    await deleteScenario(id);
+    return Response.json({ success: true });
+  } catch (error) {
+    return scenarioErrorResponse(error, "Failed to delete scenario");
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { forbiddenResponse, unauthorizedResponse } from "@/lib/identity";
+import { isCoach, scenarioErrorResponse } from "@/lib/scenarioCatalog";
+import { exportScenarioPack, serializeScenarioPack } from "@/lib/scenarioPack";
+
+/**
+ * Download a scenario pack: ?ids=a,b (default: every scenario) and
+ * ?format=json|yaml (default json). Coach-only, since packs carry the
+ * system prompts.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const account = await getSessionUser(req);
+    if (!account) {
+      return unauthorizedResponse();
+    }
+    if (!isCoach(account)) {
+      return forbiddenResponse();
+    }
+
+    const { searchParams } = new URL(req.url);
+    const format = searchParams.get("format") || "json";
+    if (format !== "json" && format !== "yaml") {
+      return Response.json({ error: "format must be json or yaml" }, { status: 400 });
+    }
+    const ids = (searchParams.get("ids") || "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean);
+
+    const pack = await exportScenarioPack(ids);
+    return new Response(serializeScenarioPack(pack, format), {
+      headers: {
+        "Content-Type": format === "yaml" ? "application/yaml; charset=utf-8" : "application/json",
+        "Content-Disposition": `attachment; filename="scenarios.${format}"`,
+      },
+    });
+  } catch (error) {
+    return scenarioErrorResponse(error, "Failed to export scenarios");
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { forbiddenResponse, unauthorizedResponse } from "@/lib/identity";
+import { isCoach, scenarioErrorResponse } from "@/lib/scenarioCatalog";
+import {
+  CONFLICT_STRATEGIES,
+  ConflictStrategy,
+  importScenarioPack,
+  parseScenarioPack,
+  validateScenarioPack,
+} from "@/lib/scenarioPack";
+
+/**
+ * Import a scenario pack sent as the JSON or YAML request body.
+ * ?onConflict=error|skip|replace|rename decides what happens to IDs that
+ * already exist (default error: nothing is imported).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const account = await getSessionUser(req);
+    if (!account) {
+      return unauthorizedResponse();
+    }
+    if (!isCoach(account)) {
+      return forbiddenResponse();
+    }
+
+    const onConflict = new URL(req.url).searchParams.get("onConflict") || "error";
+    if (!CONFLICT_STRATEGIES.includes(onConflict as ConflictStrategy)) {
+      return Response.json(
+        { error: `onConflict must be one of: ${CONFLICT_STRATEGIES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const pack = validateScenarioPack(parseScenarioPack(await req.text()));
+    const result = await importScenarioPack(pack, account, {
+      onConflict: onConflict as ConflictStrategy,
+    });
+    return Response.json(result);
+  } catch (error) {
+    return scenarioErrorResponse(error, "Failed to import scenarios");
+  }
+}
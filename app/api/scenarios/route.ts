@@ -0,0 +1,36 @@
+import { NextRequest } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { forbiddenResponse, unauthorizedResponse } from "@/lib/identity";
+import {
+  createScenario,
+  isCoach,
+  listScenarios,
+  scenarioErrorResponse,
+  toScenarioSummary,
+} from "@/lib/scenarioCatalog";
+
+export async function GET() {
+  try {
+    const scenarios = await listScenarios();
+    return Response.json({ scenarios: scenarios.map(toScenarioSummary) });
+  } catch (error) {
+    return scenarioErrorResponse(error, "Failed to list scenarios");
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const account = await getSessionUser(req);
+    if (!account) {
+      return unauthorizedResponse();
+    }
+    if (!isCoach(account)) {
+      return forbiddenResponse();
+    }
+
+    const scenario = await createScenario(await req.json(), account);
+    return Response.json({ scenario }, { status: 201 });
+  } catch (error) {
+    return scenarioErrorResponse(error, "Failed to create scenario");
+  }
+}
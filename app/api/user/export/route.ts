@@ -0,0 +1,39 @@
+import { NextRequest } from "next/server";
+import { getRequestIdentity, unauthorizedResponse } from "@/lib/identity";
+import { exportUserData, exportUserTranscript } from "@/lib/userData";
+
+/**
+ * Download everything stored about the caller: ?format=json (default; the
+ * User and Conversation documents) or ?format=transcript (plain text)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const identity = await getRequestIdentity(req);
+    if (!identity) {
+      return unauthorizedResponse();
+    }
+
+    const format = req.nextUrl.searchParams.get("format") || "json";
+    if (format !== "json" && format !== "transcript") {
+      return Response.json({ error: "format must be json or transcript" }, { status: 400 });
+    }
+
+    const body =
+      format === "json"
+        ? JSON.stringify(await exportUserData(identity), null, 2)
+        : await exportUserTranscript(identity);
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": format === "json" ? "application/json" : "text/plain; charset=utf-8",
+        "Content-Disposition": `attachment; filename="cuepid-data.${format === "json" ? "json" : "txt"}"`,
+      },
+    });
+  } catch (error) {
+    console.error("User export API error:", error);
+    return Response.json(
+      { error: "Failed to export data" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,48 @@
-import { NextRequest } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
 import dbConnect from "@/lib/mongodb";
 import User from "@/lib/models/User";
+import {
+  clearVisitorCookie,
+  forbiddenResponse,
+  getRequestIdentity,
+  issueVisitorCookie,
+  unauthorizedResponse,
+} from "@/lib/identity";
+import { clearSessionCookie } from "@/lib/auth";
+import { parseTargetSuccessRate } from "@/lib/difficultyController";
+import { deleteUserData } from "@/lib/userData";
 
 export async function POST(req: NextRequest) {
   try {
+    // Already identified: the cookie wins over whatever ID the client sent
+    const identity = await getRequestIdentity(req);
+    if (identity) {
+      const user = identity.account ?? (await User.findOne({ visitorId: identity.visitorId }));
+      return Response.json({ user });
+    }
+
     const { visitorId } = await req.json();
     await dbConnect();
 
-    let user = await User.findOne({ visitorId });
-    if (!user) {
-      user = await User.create({ visitorId });
+    let user =
+      typeof visitorId === "string" && visitorId
+        ? await User.findOne({ visitorId }).select("+visitorTokenHash")
+        : null;
+
+    // A visitor already bound to another browser (or an account) can't be
+    // taken over by knowing its ID, so start a new anonymous visitor instead
+    if (!user || user.visitorTokenHash || user.email) {
+      const newVisitorId = !user && typeof visitorId === "string" && visitorId
+        ? visitorId
+        : crypto.randomUUID();
+      user = await User.create({ visitorId: newVisitorId });
     }
 
-    return Response.json({ user });
+    // Visitors from before cookies existed are bound on their first request
+    const response = NextResponse.json({ user });
+    await issueVisitorCookie(response, user.visitorId);
+    return response;
   } catch (error) {
     console.error("User API error:", error);
     return Response.json(
@@ -24,16 +54,18 @@ export async function POST(req: NextRequest) {
 
 export async function GET(req: NextRequest) {
   try {
+    const identity = await getRequestIdentity(req);
+    if (!identity) {
+      return unauthorizedResponse();
+    }
+
     const visitorId = req.nextUrl.searchParams.get("visitorId");
-    if (!visitorId) {
-      return Response.json(
-        { error: "visitorId required" },
-        { status: 400 }
-      );
+    if (visitorId && visitorId !== identity.visitorId) {
+      return forbiddenResponse();
     }
 
     await dbConnect();
-    const user = await User.findOne({ visitorId });
+    const user = identity.account ?? (await User.findOne({ visitorId: identity.visitorId }));
     if (!user) {
       return Response.json({ error: "User not found" }, { status: 404 });
     }
@@ -47,3 +79,66 @@ export async function GET(req: NextRequest) {
     );
   }
 }
+
+/**
+ * Update the caller's preferences. Currently just the target success rate
+ * the adaptive difficulty aims for.
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const identity = await getRequestIdentity(req);
+    if (!identity) {
+      return unauthorizedResponse();
+    }
+
+    const { targetSuccessRate } = await req.json();
+    const rate = parseTargetSuccessRate(targetSuccessRate);
+    if (rate === null) {
+      return Response.json({ error: "targetSuccessRate must be a number" }, { status: 400 });
+    }
+
+    await dbConnect();
+    const user = await User.findOneAndUpdate(
+      { visitorId: identity.visitorId },
+      { $set: { "difficultyProfile.targetSuccessRate": rate } },
+      { returnDocument: "after" }
+    );
+    if (!user) {
+      return Response.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return Response.json({ user });
+  } catch (error) {
+    console.error("User API error:", error);
+    return Response.json(
+      { error: "Failed to update user" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete the caller's account (or guest profile) and everything stored with
+ * it. The browser starts over as a new anonymous visitor.
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const identity = await getRequestIdentity(req);
+    if (!identity) {
+      return unauthorizedResponse();
+    }
+
+    const { conversations } = await deleteUserData(identity);
+
+    const response = NextResponse.json({ success: true, conversationsDeleted: conversations });
+    clearSessionCookie(response);
+    clearVisitorCookie(response);
+    return response;
+  } catch (error) {
+    console.error("User API error:", error);
+    return Response.json(
+      { error: "Failed to delete user" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest } from "next/server";
+import dbConnect from "@/lib/mongodb";
+import Conversation from "@/lib/models/Conversation";
+import User from "@/lib/models/User";
+import { calculateLevel } from "@/lib/levels";
+import {
+  VoiceMetricsSource,
+  buildVoiceReport,
+  recoverMetricsFromTranscript,
+  updateVoiceAverages,
+} from "@/lib/voiceReport";
+import { forbiddenResponse, getRequestIdentity, unauthorizedResponse } from "@/lib/identity";
+
+export async function POST(req: NextRequest) {
+  try {
+    const identity = await getRequestIdentity(req);
+    if (!identity) {
+      return unauthorizedResponse();
+    }
+    const { conversationId, reanalyze } = await req.json();
+
+    await dbConnect();
+
+    const conversation = await Conversation.findById(conversationId);
+    if (!conversation) {
+      return Response.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+    if (conversation.userId !== identity.visitorId) {
+      return forbiddenResponse();
+    }
+    if (conversation.status === "active") {
+      return Response.json(
+        { error: "Conversation is still in progress" },
+        { status: 409 }
+      );
+    }
+    if (conversation.mode !== "voice") {
+      return Response.json(
+        { error: "Not a voice conversation" },
+        { status: 400 }
+      );
+    }
+
+    // Like /api/analyze, the report is computed once unless re-analysis is asked for
+    const previous = conversation.voiceAnalytics;
+    if (previous && !reanalyze) {
+      return Response.json({
+        voiceAnalytics: previous,
+        metricsHistory: conversation.voiceMetricsHistory,
+        cached: true,
+      });
+    }
+
+    // Per-response metrics can be lost (e.g. the tab closed mid-save); fall
+    // back to recomputing what we can from the stored transcript
+    let metricsHistory = conversation.voiceMetricsHistory;
+    let metricsSource: VoiceMetricsSource = previous?.metricsSource ?? "recorded";
+    if (metricsHistory.length === 0) {
+      metricsHistory = recoverMetricsFromTranscript(conversation.messages);
+      metricsSource = "transcript";
+    }
+
+    if (metricsHistory.length === 0) {
+      return Response.json(
+        { error: "Not enough speech in this conversation to analyze", insufficientData: true },
+        { status: 422 }
+      );
+    }
+
+    const report = buildVoiceReport(metricsHistory, metricsSource);
+
+    // Conditional write so concurrent calls cannot both award XP
+    const updated = await Conversation.findOneAndUpdate(
+      { _id: conversation._id, "voiceAnalytics.analyzedAt": previous?.analyzedAt ?? null },
+      {
+        $set: {
+          voiceAnalytics: { ...report, analyzedAt: new Date() },
+          voiceMetricsHistory: metricsHistory,
+        },
+      },
+      { returnDocument: "after" }
+    );
+    if (!updated) {
+      const current = await Conversation.findById(conversation._id);
+      return Response.json({
+        voiceAnalytics: current?.voiceAnalytics ?? null,
+        metricsHistory: current?.voiceMetricsHistory ?? [],
+        cached: true,
+      });
+    }
+
+    // Award XP (a re-analysis replaces its earlier XP) and count the conversation once
+    const user = await User.findOneAndUpdate(
+      { visitorId: conversation.userId },
+      {
+        $inc: {
+          xp: report.xpEarned - (previous?.xpEarned ?? 0),
+          voiceConversationCount: previous ? 0 : 1,
+        },
+      },
+      { returnDocument: "after" }
+    );
+    if (user) {
+      user.level = calculateLevel(user.xp);
+      // voiceConversationCount already includes this conversation
+      const priorCount = previous ? user.voiceConversationCount : user.voiceConversationCount - 1;
+      user.avgVoiceMetrics = updateVoiceAverages(
+        user.avgVoiceMetrics,
+        priorCount,
+        report.aggregatedMetrics,
+        previous?.aggregatedMetrics,
+        metricsSource
+      );
+      await user.save();
+    }
+
+    return Response.json({
+      voiceAnalytics: updated.voiceAnalytics,
+      metricsHistory: updated.voiceMetricsHistory,
+      cached: false,
+    });
+  } catch (error) {
+    console.error("Voice analysis error:", error);
+    return Response.json(
+      { error: "Failed to analyze voice conversation" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,35 +1,64 @@
 import { NextRequest } from "next/server";
-import { getChatModel, getAnalysisModel } from "@/lib/gemini";
-import { scenarios } from "@/lib/scenarios";
-import { checkRateLimit } from "@/lib/rate-limit";
-import { analyzeVoiceTranscript, VoiceMetrics } from "@/lib/voiceAnalytics";
 import {
-  getDifficultySettings,
-  getDifficultyPromptModifier,
-  calculateDifficultyAdjustment,
-  applyDifficultyAdjustment,
-} from "@/lib/difficultyEngine";
-import { EmotionalTone, PartnerGender } from "@/lib/toneToVoiceSettings";
+  getChatModel,
+  getAnalysisModel,
+  isRateLimitError,
+  isQuotaExhaustedError,
+  LLMMessage,
+} from "@/lib/llm";
+import { getScenario } from "@/lib/scenarioCatalog";
+import { checkRateLimit, getRateLimitKey, rateLimitedResponse } from "@/lib/rate-limit";
+import {
+  analyzeVoiceTranscript,
+  normalizeTranscriptInput,
+  VoiceMetrics,
+  WordTimestamp,
+} from "@/lib/voiceAnalytics";
+import { getDifficultyPromptModifier, toScenarioDifficulty } from "@/lib/difficultyEngine";
+import {
+  DifficultyState,
+  createDifficultyState,
+  getStateSettings,
+  restoreDifficultyState,
+  stepDifficulty,
+} from "@/lib/difficultyController";
+import { startDifficultyState } from "@/lib/difficultyProfile";
+import { InjectedEvent, formatEventForPartner, rollConversationEvent } from "@/lib/eventInjector";
+import { EmotionalTone } from "@/lib/toneToVoiceSettings";
+import {
+  generateValidatedAnalysis,
+  validateTurnAnalysis,
+  TurnAnalysis,
+} from "@/lib/analysisValidation";
+import { formatPassagesForPartner, retrieveForChatTurn, toMessagePassages } from "@/lib/bookRAG";
+import { buildPartnerPrompt, resolveTemplateValues } from "@/lib/promptTemplate";
+import { IConversation, IMessage, IMessagePassage } from "@/lib/models/Conversation";
+import {
+  ScenarioProgressView,
+  formatStageForPartner,
+  progressScenario,
+  toProgressView,
+} from "@/lib/scenarioProgress";
+import {
+  ConversationError,
+  appendConversationTurn,
+  claimConversationTurn,
+  conversationErrorResponse,
+  getConversationSetup,
+  loadActiveConversation,
+  releaseConversationTurn,
+} from "@/lib/conversationStore";
 
 const MAX_RETRIES = 3;
 
-interface VoiceChatMessage {
-  role: "user" | "model";
-  content: string;
-  voiceMetrics?: VoiceMetrics;
-  tone?: string;
-}
-
+// Only the new turn comes from the browser; the history, the session's
+// setup and the state from the previous turn are stored
 interface VoiceChatRequest {
+  conversationId: string;
   transcript: string;
   transcriptDurationMs: number;
-  scenarioId: string;
-  difficulty: number;
-  conversationHistory: VoiceChatMessage[];
-  userWeaknesses?: string[];
-  voiceMetricsHistory?: VoiceMetrics[];
-  desiredTone?: EmotionalTone;
-  gender?: PartnerGender;
+  wordTimestamps?: WordTimestamp[]; // From /api/voice/transcribe, in milliseconds
+  transcriptConfidence?: number; // Overall 0-1 STT confidence
 }
 
 interface VoiceChatResponse {
@@ -37,6 +66,7 @@ interface VoiceChatResponse {
   tone: EmotionalTone;
   difficultyAdjustment: number;
   newDifficulty: number;
+  difficultyState: DifficultyState;
   voiceMetrics: VoiceMetrics;
   conversationNotes: {
     userWasPassive: boolean;
@@ -44,6 +74,10 @@ interface VoiceChatResponse {
     missedOpportunity?: string;
     strengthDisplayed?: string;
   };
+  analysisDefaultedFields: string[];
+  passages: IMessagePassage[]; // Knowledge passages that informed the reply
+  event: InjectedEvent | null; // What the reply was told to spring on the user
+  progress: ScenarioProgressView | null; // Null for scenarios without objectives
 }
 
 async function sleep(ms: number) {
@@ -51,69 +85,70 @@ async function sleep(ms: number) {
 }
 
 export async function POST(req: NextRequest) {
+  let claim: { conversation: IConversation; claimedAt: Date } | null = null;
   try {
-    const { allowed, retryAfterMs } = checkRateLimit();
+    const { allowed, retryAfterMs } = await checkRateLimit("chat", await getRateLimitKey(req));
     if (!allowed) {
-      return Response.json(
-        { error: `Rate limited. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.` },
-        { status: 429, headers: { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) } }
-      );
+      return rateLimitedResponse(retryAfterMs);
     }
 
     const body: VoiceChatRequest = await req.json();
-    const {
-      transcript,
-      transcriptDurationMs,
-      scenarioId,
-      difficulty,
-      conversationHistory,
-      userWeaknesses = [],
-      voiceMetricsHistory = [],
-      desiredTone,
-      gender = "female",
-    } = body;
+    const { conversationId, transcript, transcriptDurationMs, wordTimestamps, transcriptConfidence } = body;
+    const conversation = await loadActiveConversation(req, conversationId);
+    if (typeof transcript !== "string" || !transcript.trim()) {
+      throw new ConversationError("transcript is required");
+    }
+    const conversationHistory: IMessage[] = conversation.messages;
+    const setup = getConversationSetup(conversation);
+    const userWeaknesses = setup.weaknesses;
+    // The partner carries on in the tone of their last reply
+    const desiredTone = [...conversationHistory].reverse().find((m) => m.role === "model")?.tone;
 
-    const scenario = scenarios[scenarioId];
+    const scenario = await getScenario(conversation.scenario);
     if (!scenario) {
       return Response.json({ error: "Invalid scenario" }, { status: 400 });
     }
 
-    // Analyze the user's voice response
-    const voiceMetrics = analyzeVoiceTranscript({
-      transcript,
-      durationMs: transcriptDurationMs,
-    });
+    // Hold the turn before any of it is generated, so two tabs can't both
+    // pay for a reply only one of them can save
+    claim = { conversation, claimedAt: await claimConversationTurn(conversation) };
+    const { claimedAt } = claim;
 
-    // Calculate difficulty adjustment
-    const difficultyAdjustment = calculateDifficultyAdjustment(
-      {
-        engagementScore: voiceMetrics.engagementScore,
-        empathyScore: voiceMetrics.empathyScore,
-        fillerFrequency: voiceMetrics.fillerFrequency,
-        initiativeScore: voiceMetrics.initiativeScore,
-        clarityScore: voiceMetrics.clarityScore,
-        confidenceScore: voiceMetrics.confidenceScore,
-      },
-      difficulty
+    // Analyze the user's voice response. The timing comes from the client,
+    // so anything unusable is dropped before it can skew the scores.
+    const voiceMetrics = analyzeVoiceTranscript(
+      normalizeTranscriptInput({
+        transcript,
+        wordTimestamps,
+        durationMs: transcriptDurationMs,
+        confidence: transcriptConfidence,
+      })
     );
 
-    const newDifficulty = applyDifficultyAdjustment(difficulty, difficultyAdjustment);
-    const difficultySettings = getDifficultySettings(Math.round(newDifficulty));
+    // Move the difficulty with the conversation so far. Without a state
+    // from the previous turn, start from the user's profile and let the
+    // earlier turns' metrics warm up the success rates.
+    const level = conversation.difficulty;
+    const difficultyState = stepDifficulty(
+      conversation.difficultyState
+        ? restoreDifficultyState(conversation.difficultyState, createDifficultyState(level))
+        : await startDifficultyState(req, level, conversation.voiceMetricsHistory),
+      voiceMetrics
+    );
+    const newDifficulty = difficultyState.overall.level;
+    const difficultyAdjustment = newDifficulty - level;
+    const difficultySettings = getStateSettings(difficultyState);
 
     // Build system prompt with difficulty adjustments
-    const difficultyKey = difficulty <= 3 ? "easy" : difficulty <= 7 ? "medium" : "hard";
-    let systemPrompt = scenario.systemPrompts[difficultyKey];
-    
-    // Replace {{WEAKNESSES}} placeholder if present
-    if (userWeaknesses.length > 0 && systemPrompt.includes("{{WEAKNESSES}}")) {
-      const formattedWeaknesses = userWeaknesses.join(", ");
-      systemPrompt = systemPrompt.replace("{{WEAKNESSES}}", formattedWeaknesses);
-    }
-    
-    // Add gender context to the prompt
-    const genderIdentity = gender === "male" ? "You are male." : "You are female.";
-    systemPrompt = systemPrompt + `\n\n${genderIdentity}`;
-    
+    const difficultyKey = toScenarioDifficulty(newDifficulty);
+    const gender = setup.gender;
+    const templateValues = resolveTemplateValues(scenario, {
+      values: setup.variables,
+      gender,
+      weaknesses: userWeaknesses,
+    });
+    let systemPrompt = buildPartnerPrompt(scenario, difficultyKey, templateValues, gender);
+
     systemPrompt += getDifficultyPromptModifier(difficultySettings);
 
     // Add voice-specific context
@@ -130,32 +165,60 @@ export async function POST(req: NextRequest) {
       systemPrompt += `\n\nYour current emotional state/tone should be: ${desiredTone}`;
     }
 
-    // Build conversation history for context
-    const allButLast = conversationHistory;
+    // Judge the user's turn first, so the reply reflects any stage change
+    const progress = await progressScenario(
+      getAnalysisModel(),
+      scenario,
+      conversation.progress,
+      conversationHistory,
+      transcript
+    );
+    systemPrompt += formatStageForPartner(scenario, progress);
+
+    // Ground the reply in research relevant to this turn
+    const previousReply = [...conversationHistory].reverse().find((m) => m.role === "model");
+    const passages = await retrieveForChatTurn({
+      userMessage: transcript,
+      previousReply: previousReply?.content,
+      category: scenario.category,
+    });
+    systemPrompt += formatPassagesForPartner(passages);
+
+    // Roll for something to spring on the user, e.g. a misread message
+    const event = rollConversationEvent({
+      scenario,
+      settings: difficultySettings,
+      seed: setup.eventSeed,
+      turn: conversationHistory.filter((m) => m.role === "user").length + 1,
+      previousEvent: !!previousReply?.events?.length,
+    });
+    systemPrompt += formatEventForPartner(scenario, event, templateValues);
+
+    // If the conversation starts with a model message (starter message),
+    // fold it into the system prompt so history starts with "user"
     let historyStart = 0;
-    if (allButLast.length > 0 && allButLast[0].role === "model") {
-      systemPrompt += `\n\nYou already opened the conversation by saying: "${allButLast[0].content}". Continue naturally from there.`;
+    if (conversationHistory.length > 0 && conversationHistory[0].role === "model") {
+      systemPrompt += `\n\nYou already opened the conversation by saying: "${conversationHistory[0].content}". Continue naturally from there.`;
       historyStart = 1;
     }
 
     const model = getChatModel(systemPrompt);
 
-    const history = allButLast.slice(historyStart).map((m) => ({
-      role: m.role === "user" ? "user" : "model",
-      parts: [{ text: m.content }],
+    const history: LLMMessage[] = conversationHistory.slice(historyStart).map((m) => ({
+      role: m.role,
+      content: m.content,
     }));
 
     // Generate response with retries
     let lastError: unknown = null;
     for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
       try {
-        const chat = model.startChat({ history });
-        const result = await chat.sendMessage(transcript);
-        const reply = result.response.text();
+        const reply = await model.sendMessage(history, transcript);
 
         // Analyze the response and user behavior with analysis model
         const analysisModel = getAnalysisModel();
-        let analysis: any;
+        let analysis: TurnAnalysis;
+        let analysisDefaultedFields: string[];
         try {
           const analysisPrompt = `Analyze this voice conversation exchange and return a JSON object.
 
@@ -180,55 +243,84 @@ Return JSON with exactly this structure:
   "strengthDisplayed": "optional string - what did the user do well in this exchange"
 }`;
 
-          const analysisResult = await analysisModel.generateContent(analysisPrompt);
-          const analysisText = analysisResult.response.text();
-          analysis = JSON.parse(analysisText);
+          const result = await generateValidatedAnalysis(
+            analysisModel,
+            analysisPrompt,
+            validateTurnAnalysis
+          );
+          analysis = result.value;
+          analysisDefaultedFields = result.defaultedFields;
         } catch (analysisError) {
-          // If analysis fails due to quota, use defaults
+          // If analysis fails (quota, invalid output), use defaults
           console.warn("Analysis model error, using defaults:", analysisError);
-          analysis = {
-            tone: "neutral",
-            userWasPassive: false,
-            userShowedEmpathy: false,
-          };
+          const fallback = validateTurnAnalysis(null);
+          analysis = fallback.value;
+          analysisDefaultedFields = fallback.defaultedFields;
         }
 
+        const conversationNotes = {
+          userWasPassive: analysis.userWasPassive,
+          userShowedEmpathy: analysis.userShowedEmpathy,
+          missedOpportunity: analysis.missedOpportunity,
+          strengthDisplayed: analysis.strengthDisplayed,
+        };
+        const messagePassages = toMessagePassages(passages);
+
+        await appendConversationTurn(conversation, claimedAt, {
+          userMessage: {
+            role: "user",
+            content: transcript,
+            timestamp: Date.now(),
+            voiceMetrics,
+            difficulty: newDifficulty,
+            conversationNotes,
+          },
+          reply: {
+            role: "model",
+            content: reply,
+            timestamp: Date.now(),
+            tone: analysis.tone,
+            ...(messagePassages.length > 0 && { passages: messagePassages }),
+            ...(event && { events: [event] }),
+          },
+          difficulty: newDifficulty,
+          difficultyState,
+          progress,
+          voiceMetrics,
+        });
+
         const response: VoiceChatResponse = {
           reply,
-          tone: analysis.tone || "neutral",
+          tone: analysis.tone,
           difficultyAdjustment,
           newDifficulty,
+          difficultyState,
           voiceMetrics,
-          conversationNotes: {
-            userWasPassive: analysis.userWasPassive || false,
-            userShowedEmpathy: analysis.userShowedEmpathy || false,
-            missedOpportunity: analysis.missedOpportunity,
-            strengthDisplayed: analysis.strengthDisplayed,
-          },
+          conversationNotes,
+          analysisDefaultedFields,
+          passages: messagePassages,
+          event,
+          progress: progress && toProgressView(scenario, progress),
         };
 
         return Response.json(response);
       } catch (error: unknown) {
         lastError = error;
-        const errorMessage = error instanceof Error ? error.message : String(error);
 
         // If quota exhausted (free-tier limit: 0), return immediately with helpful message
-        if (errorMessage.includes("limit: 0") || errorMessage.includes("quota")) {
-          console.error("Gemini quota exhausted (free tier):", errorMessage);
+        if (isQuotaExhaustedError(error)) {
+          console.error("LLM quota exhausted:", error);
+          await releaseConversationTurn(conversation, claimedAt);
           return Response.json(
             {
-              error: "Gemini API quota exhausted. Enable billing in Google Cloud Console or wait 24 hours for free-tier reset.",
+              error: "Language model API quota exhausted. Check your provider's billing or wait for the quota to reset.",
               code: "QUOTA_EXHAUSTED",
             },
             { status: 429 }
           );
         }
 
-        if (
-          errorMessage.includes("429") ||
-          errorMessage.toLowerCase().includes("too many requests") ||
-          errorMessage.toLowerCase().includes("resource has been exhausted")
-        ) {
+        if (isRateLimitError(error)) {
           const delay = Math.pow(2, attempt) * 2000;
           console.log(`Rate limited, retrying in ${delay}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
           await sleep(delay);
@@ -240,15 +332,15 @@ Return JSON with exactly this structure:
     }
 
     console.error("All retries exhausted:", lastError);
+    await releaseConversationTurn(conversation, claimedAt);
     return Response.json(
-      { error: "Rate limited by Gemini API. Please wait a moment and try again." },
+      { error: "Rate limited by the language model API. Please wait a moment and try again." },
       { status: 429 }
     );
   } catch (error) {
-    console.error("Voice Chat API error:", error);
-    return Response.json(
-      { error: "Failed to generate response" },
-      { status: 500 }
-    );
+    if (claim) {
+      await releaseConversationTurn(claim.conversation, claim.claimedAt);
+    }
+    return conversationErrorResponse(error, "Failed to generate response");
   }
 }
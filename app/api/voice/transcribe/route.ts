@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { checkRateLimit, getRateLimitKey, rateLimitedResponse } from "@/lib/rate-limit";
 
 const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY;
 // Alternative: Use OpenAI Whisper if preferred
@@ -9,7 +10,7 @@ export interface TranscribeResponse {
   confidence?: number;
   words?: {
     word: string;
-    start: number;
+    start: number; // Milliseconds, whichever provider transcribed
     end: number;
     confidence?: number;
   }[];
@@ -21,6 +22,11 @@ export interface TranscribeResponse {
  */
 export async function POST(req: NextRequest) {
   try {
+    const { allowed, retryAfterMs } = await checkRateLimit("transcribe", await getRateLimitKey(req));
+    if (!allowed) {
+      return rateLimitedResponse(retryAfterMs);
+    }
+
     const formData = await req.formData();
     const audioFile = formData.get("audio") as File | null;
     const useWhisper = formData.get("useWhisper") === "true";
@@ -82,23 +88,35 @@ async function transcribeWithElevenLabs(
 
   const data = await response.json();
 
-  // ElevenLabs returns { text: string, words?: [...] }
-  const result: TranscribeResponse = {
-    transcript: data.text || "",
-    durationMs: durationMs || estimateDuration(data.words),
-    words: data.words?.map((w: { text: string; start: number; end: number; confidence?: number }) => ({
+  // ElevenLabs returns { text: string, words?: [...] } with times in seconds;
+  // "spacing" entries are the gaps between words, not words
+  type ElevenLabsWord = {
+    text: string;
+    type?: string;
+    start: number;
+    end: number;
+    confidence?: number;
+  };
+  const words = (data.words as ElevenLabsWord[] | undefined)
+    ?.filter((w) => w.type === undefined || w.type === "word")
+    .map((w) => ({
       word: w.text,
-      start: w.start,
-      end: w.end,
+      start: Math.round(w.start * 1000), // Convert to ms
+      end: Math.round(w.end * 1000),
       confidence: w.confidence,
-    })),
+    }));
+
+  const result: TranscribeResponse = {
+    transcript: data.text || "",
+    durationMs: durationMs || estimateDuration(words),
+    words,
   };
 
   // Calculate average confidence from words if available
-  if (data.words && data.words.length > 0) {
-    const confidences = data.words
-      .filter((w: { confidence?: number }) => w.confidence !== undefined)
-      .map((w: { confidence: number }) => w.confidence);
+  if (words && words.length > 0) {
+    const confidences = words
+      .map((w) => w.confidence)
+      .filter((c): c is number => c !== undefined);
     if (confidences.length > 0) {
       result.confidence = confidences.reduce((a: number, b: number) => a + b, 0) / confidences.length;
     }
@@ -153,7 +171,7 @@ async function transcribeWithWhisper(
 }
 
 /**
- * Estimate duration from word timestamps
+ * Estimate duration from word timestamps (ms)
  */
 function estimateDuration(words?: { end: number }[]): number {
   if (!words || words.length === 0) return 0;
@@ -1,22 +1,22 @@
 import { NextRequest } from "next/server";
 import {
   getToneVoiceSettings,
-  getPersonaForScenario,
   adjustForDifficulty,
   EmotionalTone,
   PartnerGender,
-  VOICE_IDS,
+  parsePartnerGender,
 } from "@/lib/toneToVoiceSettings";
+import { selectVoiceId } from "@/lib/voiceCatalog";
+import { getScenario } from "@/lib/scenarioCatalog";
+import { checkRateLimit, getRateLimitKey, rateLimitedResponse } from "@/lib/rate-limit";
 
 const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY;
 const ELEVENLABS_API_URL = "https://api.elevenlabs.io/v1";
 
-// Default voice ID (Rachel - versatile female voice)
-const DEFAULT_VOICE_ID = "21m00Tcm4TlvDq8ikWAM";
-
 export interface TTSRequest {
   text: string;
   scenarioCategory?: "romantic" | "social" | "conflict" | "professional";
+  scenarioId?: string; // Applies the scenario's voice persona, if it has one
   tone?: EmotionalTone | string;
   voiceId?: string;
   difficulty?: number;
@@ -25,6 +25,11 @@ export interface TTSRequest {
 
 export async function POST(req: NextRequest) {
   try {
+    const { allowed, retryAfterMs } = await checkRateLimit("tts", await getRateLimitKey(req));
+    if (!allowed) {
+      return rateLimitedResponse(retryAfterMs);
+    }
+
     if (!ELEVENLABS_API_KEY) {
       console.error("ELEVENLABS_API_KEY is not set in environment variables");
       return Response.json(
@@ -34,20 +39,21 @@ export async function POST(req: NextRequest) {
     }
 
     const body: TTSRequest = await req.json();
-    const { text, scenarioCategory, tone, voiceId, difficulty, gender } = body;
+    const { text, scenarioCategory, scenarioId, tone, voiceId, difficulty, gender } = body;
 
     if (!text || text.trim().length === 0) {
       return Response.json({ error: "Text is required" }, { status: 400 });
     }
 
-    // Get voice persona based on scenario category and gender
-    let selectedVoiceId = voiceId || DEFAULT_VOICE_ID;
-    if (scenarioCategory && !voiceId) {
-      const persona = getPersonaForScenario(scenarioCategory, gender);
-      selectedVoiceId = persona.voiceId;
-    } else if (gender && !voiceId) {
-      // If only gender is specified without category, use neutral voice for that gender
-      selectedVoiceId = VOICE_IDS[gender].neutral;
+    // A scenario's own voice persona wins over the category default
+    let selectedVoiceId = voiceId;
+    if (!selectedVoiceId) {
+      const voicePersona = scenarioId ? (await getScenario(scenarioId))?.voicePersona : undefined;
+      selectedVoiceId = selectVoiceId({
+        gender: parsePartnerGender(gender),
+        category: scenarioCategory,
+        voicePersona,
+      });
     }
 
     // Get voice settings based on tone
@@ -1,14 +1,34 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { useRouter, useParams, useSearchParams } from "next/navigation";
 import Image from "next/image";
-import { scenarios } from "@/lib/scenarios";
+import { useScenario } from "@/lib/useScenarios";
+import ScenarioIcon from "@/app/components/ScenarioIcon";
+import ScenarioObjectives from "@/app/components/ScenarioObjectives";
+import type { ScenarioProgressView } from "@/lib/scenarioProgress";
+import { parseSessionValues, renderTemplate, resolveTemplateValues } from "@/lib/promptTemplate";
+import { parsePartnerGender } from "@/lib/toneToVoiceSettings";
+import { getDifficultyLabel, parseDifficultyLevel } from "@/lib/difficultyEngine";
+import { InjectedEvent, createEventSeed } from "@/lib/eventInjector";
+import type { TextMetrics } from "@/lib/textAnalytics";
+import { useConversationSession } from "@/lib/useConversationSession";
+
+interface MessagePassage {
+  citation: string;
+  source: string;
+  excerpt: string;
+  score: number;
+}
 
 interface Message {
   role: "user" | "model";
   content: string;
   timestamp: number;
+  passages?: MessagePassage[];
+  textMetrics?: TextMetrics; // On user messages, once the server has scored them
+  difficulty?: number; // On user messages: the level after that turn
+  events?: InjectedEvent[]; // On partner messages that acted out a conversation event
 }
 
 export default function ChatPage() {
@@ -16,41 +36,89 @@ export default function ChatPage() {
   const params = useParams();
   const searchParams = useSearchParams();
   const scenarioId = params.scenarioId as string;
-  const difficulty = searchParams.get("difficulty") || "easy";
-  const gender = searchParams.get("gender") || "female";
+  const difficulty = parseDifficultyLevel(searchParams.get("difficulty"));
+  const gender = parsePartnerGender(searchParams.get("gender"));
   const weaknesses = searchParams.get("weaknesses") || "";
-  const scenario = scenarios[scenarioId];
+  const varsParam = searchParams.get("vars");
+  const variables = useMemo(() => parseSessionValues(varsParam), [varsParam]);
+  const resumeId = searchParams.get("resume");
+  const { scenario, loading: scenarioLoading } = useScenario(scenarioId);
 
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isStreaming, setIsStreaming] = useState(false);
-  const [userId, setUserId] = useState("");
   const [isSaving, setIsSaving] = useState(false);
+  const [progress, setProgress] = useState<ScenarioProgressView | null>(null);
+  const [currentDifficulty, setCurrentDifficulty] = useState(difficulty);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  // Seeds the session's conversation events
+  const eventSeedRef = useRef("");
 
-  useEffect(() => {
-    const id = localStorage.getItem("cuepid-user-id") || "";
-    setUserId(id);
+  const getSetup = useCallback(
+    () => ({
+      gender,
+      weaknesses: weaknesses.split(",").filter(Boolean),
+      variables,
+      eventSeed: eventSeedRef.current,
+    }),
+    [gender, weaknesses, variables]
+  );
+  const { conversationId, failed: sessionFailed, resumeSession, endSession } = useConversationSession({
+    scenarioId,
+    mode: "text",
+    difficulty,
+    resumeId,
+    ready: messages.length > 0,
+    getSetup,
+  });
 
-    if (scenario) {
+  useEffect(() => {
+    if (scenario && resumeId) {
+      // Pick up a conversation left without ending, where it was saved
+      fetch(`/api/conversations/${resumeId}`)
+        .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+        .then(({ conversation, progressView }) => {
+          if (conversation.status !== "active") {
+            router.replace(`/dashboard/${conversation._id}`);
+            return;
+          }
+          setMessages(conversation.messages);
+          setCurrentDifficulty(parseDifficultyLevel(conversation.difficulty));
+          setProgress(progressView);
+          resumeSession(conversation._id);
+        })
+        .catch((error) => console.error("Failed to resume conversation:", error));
+    } else if (scenario) {
       setMessages([
         {
           role: "model",
-          content: scenario.starterMessage,
+          content: renderTemplate(
+            scenario.starterMessage,
+            resolveTemplateValues(scenario, {
+              values: variables,
+              gender,
+              weaknesses: weaknesses.split(",").filter(Boolean),
+            })
+          ),
           timestamp: Date.now(),
         },
       ]);
+      setProgress(null);
+      eventSeedRef.current = createEventSeed();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [scenarioId]);
+  }, [scenario?.id]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  // Won or lost: the conversation can still be ended and analyzed
+  const scenarioEnded = progress !== null && progress.outcome !== "in_progress";
+
   const sendMessage = useCallback(async () => {
-    if (!input.trim() || isStreaming) return;
+    if (!input.trim() || isStreaming || scenarioEnded || !conversationId) return;
 
     const userMessage: Message = {
       role: "user",
@@ -75,16 +143,8 @@ export default function ChatPage() {
       const response = await fetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          messages: newMessages.map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
-          scenarioId,
-          difficulty,
-          gender,
-          weaknesses,
-        }),
+        // The server has the history; it only needs the new message
+        body: JSON.stringify({ conversationId, message: userMessage.content }),
       });
 
       if (!response.ok) {
@@ -92,6 +152,38 @@ export default function ChatPage() {
         throw new Error(err.error || "Chat request failed");
       }
 
+      // Knowledge passages the reply was grounded in, if any
+      const passagesHeader = response.headers.get("X-Knowledge-Passages");
+      const passages: MessagePassage[] | undefined = passagesHeader
+        ? JSON.parse(decodeURIComponent(passagesHeader))
+        : undefined;
+
+      // A conversation event the reply acts out, if one was rolled
+      const eventHeader = response.headers.get("X-Conversation-Event");
+      const events: InjectedEvent[] | undefined = eventHeader
+        ? [JSON.parse(decodeURIComponent(eventHeader))]
+        : undefined;
+
+      const levelHeader = response.headers.get("X-Difficulty-Level");
+      const level = levelHeader ? parseDifficultyLevel(levelHeader) : undefined;
+      if (level !== undefined) {
+        setCurrentDifficulty(level);
+      }
+
+      // Keep what this turn measured on the user's message
+      const metricsHeader = response.headers.get("X-Text-Metrics");
+      const textMetrics: TextMetrics | undefined = metricsHeader
+        ? JSON.parse(decodeURIComponent(metricsHeader))
+        : undefined;
+      setMessages((prev) =>
+        prev.map((m) => (m === userMessage ? { ...m, textMetrics, difficulty: level } : m))
+      );
+
+      const progressHeader = response.headers.get("X-Scenario-Progress");
+      if (progressHeader) {
+        setProgress(JSON.parse(decodeURIComponent(progressHeader)));
+      }
+
       const reader = response.body?.getReader();
       const decoder = new TextDecoder();
       let fullText = "";
@@ -106,51 +198,58 @@ export default function ChatPage() {
             role: "model",
             content: fullText,
             timestamp: Date.now(),
+            passages,
+            events,
           };
           return updated;
         });
       }
     } catch (error) {
       console.error("Chat error:", error);
-      setMessages((prev) => {
-        const updated = [...prev];
-        updated[updated.length - 1] = {
+      // Nothing of a failed turn is saved, including any of the reply that
+      // streamed in, so take the turn back out and offer the message again
+      setMessages((prev) => [
+        ...prev.slice(0, -2),
+        {
           role: "model",
-          content: "Sorry, something went wrong. Please try again.",
+          content: "Sorry, something went wrong and your message wasn't saved. Please try again.",
           timestamp: Date.now(),
-        };
-        return updated;
-      });
+        },
+      ]);
+      setInput(userMessage.content);
     }
 
     setIsStreaming(false);
     inputRef.current?.focus();
-  }, [input, isStreaming, messages, scenarioId, difficulty]);
+  }, [input, isStreaming, scenarioEnded, conversationId, messages]);
 
   const endConversation = async () => {
     if (messages.length < 3 || isSaving) return;
 
     setIsSaving(true);
     try {
-      const response = await fetch("/api/conversations", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          userId,
-          scenario: scenarioId,
-          difficulty,
-          messages,
-        }),
-      });
-
-      const { conversation } = await response.json();
-      router.push(`/dashboard/${conversation._id}`);
+      const endedId = await endSession();
+      router.push(`/dashboard/${endedId}`);
     } catch (error) {
       console.error("Error saving conversation:", error);
       setIsSaving(false);
     }
   };
 
+  if (scenarioLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-rose-50 to-pink-100">
+        <Image
+          src="/scenarios/favicon.png"
+          alt="Loading"
+          width={48}
+          height={48}
+          className="animate-spin"
+        />
+      </div>
+    );
+  }
+
   if (!scenario) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-rose-50 to-pink-100">
@@ -180,53 +279,11 @@ export default function ChatPage() {
           </button>
           <div>
             <h1 className="text-base font-semibold text-gray-800 flex items-center gap-2">
-              {scenario.id === "planning_a_date" ? (
-                <Image
-                  src="/scenarios/planning_a_date.png"
-                  alt={scenario.title}
-                  width={20}
-                  height={20}
-                  className="rounded"
-                />
-              ) : scenario.id === "asking_someone_out" || scenario.id === "making_new_friends" ? (
-                <Image
-                  src={`/scenarios/${scenario.id}.png`}
-                  alt={scenario.title}
-                  width={20}
-                  height={20}
-                  className="rounded"
-                />
-              ) : scenario.id === "resolving_misunderstanding" ? (
-                <Image
-                  src="/scenarios/resolving_a_misunderstanding.png"
-                  alt={scenario.title}
-                  width={20}
-                  height={20}
-                  className="rounded"
-                />
-              ) : scenario.id === "difficult_conversation" ? (
-                <Image
-                  src="/scenarios/setting_boundaries.png"
-                  alt={scenario.title}
-                  width={20}
-                  height={20}
-                  className="rounded"
-                />
-              ) : scenario.id === "practice_weaknesses" ? (
-                <Image
-                  src="/scenarios/practice_your_weaknesses.png"
-                  alt={scenario.title}
-                  width={20}
-                  height={20}
-                  className="rounded"
-                />
-              ) : (
-                <span>{scenario.icon}</span>
-              )}
+              <ScenarioIcon scenario={scenario} size={20} />
               {scenario.title.toUpperCase()}
             </h1>
-            <span className="text-xs text-rose-400 capitalize">
-              {difficulty} mode
+            <span className="text-xs text-rose-400">
+              {getDifficultyLabel(currentDifficulty)} (Lv {currentDifficulty.toFixed(1)})
             </span>
           </div>
         </div>
@@ -239,6 +296,8 @@ export default function ChatPage() {
         </button>
       </div>
 
+      <ScenarioObjectives scenario={scenario} progress={progress} />
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto px-4 py-6 space-y-3 chat-scroll">
         {messages.map((msg, i) => (
@@ -291,14 +350,14 @@ export default function ChatPage() {
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={(e) => e.key === "Enter" && !e.shiftKey && sendMessage()}
-            placeholder="Type a message..."
+            placeholder={sessionFailed ? "Couldn't start the conversation" : "Type a message..."}
             className="flex-1 bg-rose-50 border border-rose-200 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-rose-300 focus:border-transparent placeholder-gray-400"
-            disabled={isStreaming}
+            disabled={isStreaming || scenarioEnded || !conversationId}
             autoFocus
           />
           <button
             onClick={sendMessage}
-            disabled={isStreaming || !input.trim()}
+            disabled={isStreaming || scenarioEnded || !conversationId || !input.trim()}
             className="bg-rose-500 text-white px-5 py-2.5 rounded-xl font-medium hover:bg-rose-600 transition-colors disabled:opacity-50 active:scale-95"
           >
             {"\u2191"}
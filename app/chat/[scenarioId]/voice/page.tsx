@@ -3,19 +3,44 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { useRouter, useParams, useSearchParams } from "next/navigation";
 import Image from "next/image";
-import { scenarios } from "@/lib/scenarios";
+import { useScenario } from "@/lib/useScenarios";
+import ScenarioIcon from "@/app/components/ScenarioIcon";
 import VoiceRecorder from "@/app/components/VoiceRecorder";
 import AudioPlayer from "@/app/components/AudioPlayer";
+import ScenarioObjectives from "@/app/components/ScenarioObjectives";
+import type { ScenarioProgressView } from "@/lib/scenarioProgress";
+import { parseSessionValues, renderTemplate, resolveTemplateValues } from "@/lib/promptTemplate";
 import { VoiceMetrics } from "@/lib/voiceAnalytics";
-import { EmotionalTone, PartnerGender } from "@/lib/toneToVoiceSettings";
+import { EmotionalTone, parsePartnerGender } from "@/lib/toneToVoiceSettings";
+import { getDifficultyLabel, parseDifficultyLevel } from "@/lib/difficultyEngine";
+import { InjectedEvent, createEventSeed } from "@/lib/eventInjector";
+import { useConversationSession } from "@/lib/useConversationSession";
+
+interface MessagePassage {
+  citation: string;
+  source: string;
+  excerpt: string;
+  score: number;
+}
+
+interface ConversationNotes {
+  userWasPassive: boolean;
+  userShowedEmpathy: boolean;
+  missedOpportunity?: string;
+  strengthDisplayed?: string;
+}
 
 interface VoiceMessage {
   role: "user" | "model";
   content: string;
   audioUrl?: string;
   voiceMetrics?: VoiceMetrics;
+  difficulty?: number; // On user messages: the level after that turn
+  conversationNotes?: ConversationNotes;
   tone?: EmotionalTone;
   timestamp: number;
+  passages?: MessagePassage[];
+  events?: InjectedEvent[]; // On partner messages that acted out a conversation event
 }
 
 type ConversationState = "idle" | "listening" | "processing" | "speaking";
@@ -25,23 +50,34 @@ export default function VoiceChatPage() {
   const params = useParams();
   const searchParams = useSearchParams();
   const scenarioId = params.scenarioId as string;
-  const difficulty = parseInt(searchParams.get("difficulty") || "3");
-  const gender = (searchParams.get("gender") || "female") as PartnerGender;
+  const difficulty = parseDifficultyLevel(searchParams.get("difficulty"));
+  const gender = parsePartnerGender(searchParams.get("gender"));
   const weaknesses = searchParams.get("weaknesses")?.split(",").filter(Boolean) || [];
-  const scenario = scenarios[scenarioId];
+  const variables = parseSessionValues(searchParams.get("vars"));
+  const resumeId = searchParams.get("resume");
+  const { scenario, loading: scenarioLoading } = useScenario(scenarioId);
 
   const [messages, setMessages] = useState<VoiceMessage[]>([]);
   const [conversationState, setConversationState] = useState<ConversationState>("idle");
   const [currentDifficulty, setCurrentDifficulty] = useState(difficulty);
-  const [voiceMetricsHistory, setVoiceMetricsHistory] = useState<VoiceMetrics[]>([]);
-  const [userId, setUserId] = useState("");
   const [isSaving, setIsSaving] = useState(false);
-  const [currentTone, setCurrentTone] = useState<EmotionalTone>("neutral");
   const [currentAudioUrl, setCurrentAudioUrl] = useState<string | null>(null);
   const [isGeneratingAudio, setIsGeneratingAudio] = useState(false);
+  const [progress, setProgress] = useState<ScenarioProgressView | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const audioUrlsRef = useRef<string[]>([]);
+  // Seeds the session's conversation events
+  const eventSeedRef = useRef("");
+
+  const { conversationId, failed: sessionFailed, resumeSession, endSession } = useConversationSession({
+    scenarioId,
+    mode: "voice",
+    difficulty,
+    resumeId,
+    ready: messages.length > 0,
+    getSetup: () => ({ gender, weaknesses, variables, eventSeed: eventSeedRef.current }),
+  });
 
   // Cleanup audio URLs on unmount
   useEffect(() => {
@@ -50,18 +86,28 @@ export default function VoiceChatPage() {
     };
   }, []);
 
+  // Initialize with starter message, or the saved conversation when resuming
   useEffect(() => {
-    const id = localStorage.getItem("cuepid-user-id") || "";
-    setUserId(id);
-  }, []);
-
-  // Initialize with starter message
-  useEffect(() => {
-    if (scenario && messages.length === 0) {
+    if (scenario && resumeId) {
+      fetch(`/api/conversations/${resumeId}`)
+        .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+        .then(({ conversation, progressView }) => {
+          if (conversation.status !== "active") {
+            router.replace(`/dashboard/voice?convoId=${conversation._id}`);
+            return;
+          }
+          setMessages(conversation.messages);
+          setCurrentDifficulty(parseDifficultyLevel(conversation.difficulty));
+          setProgress(progressView);
+          resumeSession(conversation._id);
+        })
+        .catch((error) => console.error("Failed to resume conversation:", error));
+    } else if (scenario && messages.length === 0) {
+      eventSeedRef.current = createEventSeed();
       generateStarterMessage();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [scenarioId]);
+  }, [scenario?.id]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -73,14 +119,20 @@ export default function VoiceChatPage() {
     setConversationState("processing");
     setIsGeneratingAudio(true);
 
+    const starterText = renderTemplate(
+      scenario.starterMessage,
+      resolveTemplateValues(scenario, { values: variables, gender, weaknesses })
+    );
+
     try {
       // Generate TTS for starter message
       const ttsResponse = await fetch("/api/voice/tts", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          text: scenario.starterMessage,
+          text: starterText,
           scenarioCategory: scenario.category,
+          scenarioId: scenario.id,
           tone: "warm",
           gender,
         }),
@@ -105,7 +157,7 @@ export default function VoiceChatPage() {
 
       const starterMessage: VoiceMessage = {
         role: "model",
-        content: scenario.starterMessage,
+        content: starterText,
         audioUrl,
         tone: "warm",
         timestamp: Date.now(),
@@ -121,7 +173,7 @@ export default function VoiceChatPage() {
       setMessages([
         {
           role: "model",
-          content: scenario.starterMessage,
+          content: starterText,
           tone: "warm",
           timestamp: Date.now(),
         },
@@ -244,6 +296,7 @@ export default function VoiceChatPage() {
   };
 
   const handleRecordingComplete = async (audioBlob: Blob, durationMs: number) => {
+    if (!conversationId) return;
     setConversationState("processing");
 
     try {
@@ -260,7 +313,7 @@ export default function VoiceChatPage() {
       if (!transcribeResponse.ok) throw new Error("Transcription failed");
 
       const transcribeData = await transcribeResponse.json();
-      const { transcript, words: wordTimestamps } = transcribeData;
+      const { transcript, words: wordTimestamps, confidence: transcriptConfidence } = transcribeData;
 
       if (!transcript || transcript.trim().length === 0) {
         alert("Could not understand audio. Please try again.");
@@ -288,22 +341,13 @@ export default function VoiceChatPage() {
       const voiceChatResponse = await fetch("/api/voice/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
+        // The server has the history; it only needs the new turn
         body: JSON.stringify({
+          conversationId,
           transcript,
           transcriptDurationMs: durationMs,
           wordTimestamps,
-          scenarioId,
-          difficulty: currentDifficulty,
-          conversationHistory: [...messages, userMessage].map((m) => ({
-            role: m.role,
-            content: m.content,
-            voiceMetrics: m.voiceMetrics,
-            tone: m.tone,
-          })),
-          voiceMetricsHistory,
-          desiredTone: currentTone,
-          gender,
-          userWeaknesses: weaknesses,
+          transcriptConfidence,
         }),
       });
 
@@ -315,22 +359,26 @@ export default function VoiceChatPage() {
         tone,
         newDifficulty,
         voiceMetrics,
+        conversationNotes,
+        passages,
+        event,
+        progress: newProgress,
       } = chatData;
+      setProgress(newProgress);
 
-      // Update user message with voice metrics
+      // Update user message with what this turn measured
       setMessages((prev) => {
         const updated = [...prev];
         updated[updated.length - 1] = {
           ...updated[updated.length - 1],
           voiceMetrics,
+          difficulty: newDifficulty,
+          conversationNotes,
         };
         return updated;
       });
 
-      // Update metrics history
-      setVoiceMetricsHistory((prev) => [...prev, voiceMetrics]);
       setCurrentDifficulty(newDifficulty);
-      setCurrentTone(tone);
 
       // Step 3: Generate TTS for response
       setIsGeneratingAudio(true);
@@ -340,6 +388,7 @@ export default function VoiceChatPage() {
         body: JSON.stringify({
           text: reply,
           scenarioCategory: scenario?.category,
+          scenarioId: scenario?.id,
           tone,
           difficulty: newDifficulty,
           gender,
@@ -368,6 +417,8 @@ export default function VoiceChatPage() {
         audioUrl: modelAudioUrl,
         tone,
         timestamp: Date.now(),
+        passages: passages?.length ? passages : undefined,
+        events: event ? [event] : undefined,
       };
       setMessages((prev) => [...prev, modelMessage]);
 
@@ -403,40 +454,14 @@ export default function VoiceChatPage() {
 
     setIsSaving(true);
     try {
-      // Save conversation with voice metrics
-      const response = await fetch("/api/conversations", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          userId,
-          scenario: scenarioId,
-          difficulty: currentDifficulty.toString(),
-          messages: messages.map((m) => ({
-            role: m.role,
-            content: m.content,
-            timestamp: m.timestamp,
-          })),
-          mode: "voice",
-          voiceMetricsHistory,
-        }),
-      });
-
-      const { conversation } = await response.json();
-      router.push(`/dashboard/voice?convoId=${conversation._id}`);
+      const endedId = await endSession();
+      router.push(`/dashboard/voice?convoId=${endedId}`);
     } catch (error) {
       console.error("Error saving conversation:", error);
       setIsSaving(false);
     }
   };
 
-  const getDifficultyLabel = (level: number) => {
-    if (level <= 2) return "Very Easy";
-    if (level <= 4) return "Easy";
-    if (level <= 6) return "Medium";
-    if (level <= 8) return "Hard";
-    return "Very Hard";
-  };
-
   const getToneEmoji = (tone: EmotionalTone | undefined) => {
     const emojiMap: Record<string, string> = {
       romantic: "💕",
@@ -461,6 +486,20 @@ export default function VoiceChatPage() {
     return emojiMap[tone || "neutral"] || "😐";
   };
 
+  if (scenarioLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-rose-50 to-pink-100">
+        <Image
+          src="/scenarios/favicon.png"
+          alt="Loading"
+          width={48}
+          height={48}
+          className="animate-spin"
+        />
+      </div>
+    );
+  }
+
   if (!scenario) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-rose-50 to-pink-100">
@@ -490,49 +529,7 @@ export default function VoiceChatPage() {
           </button>
           <div>
             <h1 className="text-base font-semibold text-gray-800 flex items-center gap-2">
-              {scenario.id === "planning_a_date" ? (
-                <Image
-                  src="/scenarios/planning_a_date.png"
-                  alt={scenario.title}
-                  width={20}
-                  height={20}
-                  className="rounded"
-                />
-              ) : scenario.id === "asking_someone_out" || scenario.id === "making_new_friends" ? (
-                <Image
-                  src={`/scenarios/${scenario.id}.png`}
-                  alt={scenario.title}
-                  width={20}
-                  height={20}
-                  className="rounded"
-                />
-              ) : scenario.id === "resolving_misunderstanding" ? (
-                <Image
-                  src="/scenarios/resolving_a_misunderstanding.png"
-                  alt={scenario.title}
-                  width={20}
-                  height={20}
-                  className="rounded"
-                />
-              ) : scenario.id === "difficult_conversation" ? (
-                <Image
-                  src="/scenarios/setting_boundaries.png"
-                  alt={scenario.title}
-                  width={20}
-                  height={20}
-                  className="rounded"
-                />
-              ) : scenario.id === "practice_weaknesses" ? (
-                <Image
-                  src="/scenarios/practice_your_weaknesses.png"
-                  alt={scenario.title}
-                  width={20}
-                  height={20}
-                  className="rounded"
-                />
-              ) : (
-                <span>{scenario.icon}</span>
-              )}
+              <ScenarioIcon scenario={scenario} size={20} />
               {scenario.title}
             </h1>
             <div className="flex items-center gap-2">
@@ -555,6 +552,8 @@ export default function VoiceChatPage() {
         </button>
       </div>
 
+      <ScenarioObjectives scenario={scenario} progress={progress} />
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto px-4 py-6 space-y-4">
         {messages.map((msg, i) => (
@@ -658,6 +657,9 @@ export default function VoiceChatPage() {
               <span className="text-sm font-medium">Listening...</span>
             </div>
           )}
+          {sessionFailed && (
+            <p className="text-center text-sm text-gray-500">Couldn&apos;t start the conversation</p>
+          )}
         </div>
 
         {/* Audio player for model responses */}
@@ -676,7 +678,11 @@ export default function VoiceChatPage() {
         {conversationState !== "speaking" && (
           <VoiceRecorder
             onRecordingComplete={handleRecordingComplete}
-            isDisabled={conversationState !== "idle"}
+            isDisabled={
+              conversationState !== "idle" ||
+              !conversationId ||
+              (progress !== null && progress.outcome !== "in_progress")
+            }
           />
         )}
       </div>
@@ -0,0 +1,67 @@
+"use client";
+
+interface MessagePassage {
+  citation: string;
+  source: string;
+  excerpt: string;
+  score: number;
+}
+
+export interface ReasoningMessage {
+  role: "user" | "model";
+  content: string;
+  passages?: MessagePassage[];
+}
+
+interface PartnerReasoningProps {
+  messages: ReasoningMessage[];
+  title?: string;
+  className?: string;
+}
+
+/**
+ * Lists the partner replies that were grounded in knowledge passages, with
+ * the passages that informed each one
+ */
+export default function PartnerReasoning({
+  messages,
+  title = "Why they reacted this way",
+  className = "bg-white shadow-md p-6 mb-5",
+}: PartnerReasoningProps) {
+  const grounded = messages
+    .map((message, i) => ({ message, userMessage: messages[i - 1] }))
+    .filter(({ message }) => message.role === "model" && message.passages?.length);
+
+  if (grounded.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <h2 className="text-lg font-semibold text-gray-800 mb-1">{title}</h2>
+      <p className="text-xs text-gray-400 mb-4">
+        Research the partner drew on when replying to you
+      </p>
+      <div className="space-y-5">
+        {grounded.map(({ message, userMessage }, i) => (
+          <div key={i} className="border-l-2 border-rose-200 pl-4">
+            {userMessage?.role === "user" && (
+              <p className="text-xs text-gray-400 mb-1 line-clamp-2">
+                You: &ldquo;{userMessage.content}&rdquo;
+              </p>
+            )}
+            <p className="text-sm text-gray-700 mb-2 line-clamp-3">
+              Partner: &ldquo;{message.content}&rdquo;
+            </p>
+            <ul className="space-y-2">
+              {message.passages!.map((passage, j) => (
+                <li key={j} className="bg-rose-50 p-3">
+                  <p className="text-xs font-medium text-rose-600 mb-1">{passage.citation}</p>
+                  <p className="text-xs text-gray-600 leading-relaxed">{passage.excerpt}</p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import Image from "next/image";
+import { ScenarioSummary } from "@/lib/scenarios";
+
+interface ScenarioIconProps {
+  scenario: Pick<ScenarioSummary, "title" | "icon" | "imageUrl"> | null | undefined;
+  size: number;
+  className?: string; // Applied to the image
+  emojiClassName?: string; // Applied to the emoji fallback
+}
+
+/**
+ * A scenario's image, or its emoji when it has none
+ */
+export default function ScenarioIcon({
+  scenario,
+  size,
+  className = "rounded",
+  emojiClassName,
+}: ScenarioIconProps) {
+  if (scenario?.imageUrl) {
+    return (
+      <Image
+        src={scenario.imageUrl}
+        alt={scenario.title}
+        width={size}
+        height={size}
+        className={className}
+        // Uploaded images are served by the API with a version query string
+        unoptimized={scenario.imageUrl.startsWith("/api/")}
+      />
+    );
+  }
+
+  return <span className={emojiClassName}>{scenario?.icon || "\u{1F4AC}"}</span>;
+}
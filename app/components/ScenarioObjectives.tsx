@@ -0,0 +1,63 @@
+"use client";
+
+import type { ScenarioSummary } from "@/lib/scenarios";
+import type { ScenarioProgressView } from "@/lib/scenarioProgress";
+
+interface ScenarioObjectivesProps {
+  scenario: ScenarioSummary;
+  progress: ScenarioProgressView | null; // Null until the first turn is judged
+}
+
+/**
+ * Strip under the chat header: the current stage and objective checklist
+ * for scenarios with objectives (plus the win/lose result once decided),
+ * or the plain goals for open-ended ones
+ */
+export default function ScenarioObjectives({ scenario, progress }: ScenarioObjectivesProps) {
+  const objectives =
+    progress?.objectives ||
+    (scenario.objectives || []).map((objective) => ({ ...objective, completed: false }));
+
+  if (objectives.length === 0) {
+    if (!scenario.goals?.length) return null;
+    return (
+      <div className="bg-rose-50/60 border-b border-rose-100 px-4 py-2 text-xs text-gray-500 shrink-0">
+        <span className="font-medium text-rose-400">Goals:</span> {scenario.goals.join(" · ")}
+      </div>
+    );
+  }
+
+  const stageTitle = progress?.stageTitle || scenario.stages?.[0]?.title;
+  const maxTurns = progress?.maxTurns || scenario.maxTurns;
+
+  return (
+    <div className="bg-rose-50/60 border-b border-rose-100 px-4 py-2 text-xs text-gray-500 shrink-0">
+      {progress?.outcome === "won" && (
+        <p className="font-semibold text-green-600 mb-1">
+          {"\u{1F389}"} You did it! End the conversation to see how you did.
+        </p>
+      )}
+      {progress?.outcome === "lost" && (
+        <p className="font-semibold text-gray-600 mb-1">
+          This one got away from you. End the conversation to see what to try next time.
+        </p>
+      )}
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        {stageTitle && <span className="font-medium text-rose-400">{stageTitle}</span>}
+        {objectives.map((objective) => (
+          <span
+            key={objective.id}
+            className={objective.completed ? "text-green-600 line-through" : undefined}
+          >
+            {objective.completed ? "✓" : "○"} {objective.description}
+          </span>
+        ))}
+        {maxTurns && (
+          <span className="text-gray-400 ml-auto">
+            Turn {progress?.turns ?? 0}/{maxTurns}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import type { ScenarioSummary } from "@/lib/scenarios";
+import type { ScenarioProgress } from "@/lib/scenarioProgress";
+
+interface ScenarioOutcomeProps {
+  scenario: ScenarioSummary | null;
+  progress: ScenarioProgress | null; // As saved with the conversation
+  className?: string;
+}
+
+const OUTCOME_LABELS = {
+  won: { title: "\u{1F3C6} Scenario won", color: "text-green-600" },
+  lost: { title: "Scenario lost", color: "text-gray-600" },
+  in_progress: { title: "Scenario unfinished", color: "text-gray-500" },
+};
+
+/**
+ * The win/lose result of a scenario with objectives and which objectives
+ * the user completed
+ */
+export default function ScenarioOutcome({
+  scenario,
+  progress,
+  className = "bg-white shadow-md p-6 mb-5",
+}: ScenarioOutcomeProps) {
+  if (!scenario?.objectives?.length || !progress) return null;
+
+  const label = OUTCOME_LABELS[progress.outcome];
+  return (
+    <div className={className}>
+      <h2 className={`text-lg font-semibold mb-1 ${label.color}`}>{label.title}</h2>
+      <p className="text-xs text-gray-400 mb-4">
+        {progress.completedObjectives.length} of {scenario.objectives.length} objectives in{" "}
+        {progress.turns} {progress.turns === 1 ? "turn" : "turns"}
+      </p>
+      <ul className="space-y-2">
+        {scenario.objectives.map((objective) => {
+          const completed = progress.completedObjectives.includes(objective.id);
+          return (
+            <li key={objective.id} className="flex items-start gap-2 text-sm">
+              <span className={completed ? "text-green-600" : "text-gray-300"}>
+                {completed ? "✓" : "○"}
+              </span>
+              <span className={completed ? "text-gray-700" : "text-gray-400"}>
+                {objective.description}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import type { ScenarioSummary, TemplateVariableName } from "@/lib/scenarios";
+import { PRONOUN_SETS, SessionTemplateValues, TEMPLATE_VARIABLES } from "@/lib/promptTemplate";
+
+interface ScenarioVariablesFormProps {
+  scenario: ScenarioSummary;
+  values: SessionTemplateValues;
+  onChange: (values: SessionTemplateValues) => void;
+}
+
+// The declared variables the user can fill in (the rest come from the app)
+export function getCollectedVariables(scenario: ScenarioSummary) {
+  return (scenario.variables || []).filter((variable) => TEMPLATE_VARIABLES[variable.name].collected);
+}
+
+/**
+ * Fields for personalizing a scenario before starting it, e.g. the partner's
+ * name. Blank fields use the scenario's default.
+ */
+export default function ScenarioVariablesForm({ scenario, values, onChange }: ScenarioVariablesFormProps) {
+  const update = (name: TemplateVariableName, value: string) => {
+    onChange({ ...values, [name]: value });
+  };
+
+  const inputClass =
+    "w-full border border-gray-200 rounded-lg px-3 py-1.5 text-sm text-gray-700 focus:outline-none focus:border-rose-300";
+
+  return (
+    <div className="space-y-2 mb-4">
+      {getCollectedVariables(scenario).map((variable) => {
+        const definition = TEMPLATE_VARIABLES[variable.name];
+        const placeholder =
+          variable.default ||
+          (variable.name === "partnerName" ? scenario.persona?.name : undefined) ||
+          definition.fallback;
+        const id = `${scenario.id}-${variable.name}`;
+
+        return (
+          <div key={variable.name}>
+            <label htmlFor={id} className="block text-xs font-medium text-gray-500 mb-0.5">
+              {variable.label || definition.label}
+            </label>
+            {definition.type === "pronouns" ? (
+              <select
+                id={id}
+                value={values[variable.name] || ""}
+                onChange={(e) => update(variable.name, e.target.value)}
+                className={inputClass}
+              >
+                <option value="">{variable.default || "Match the partner's gender"}</option>
+                {Object.keys(PRONOUN_SETS).map((pronouns) => (
+                  <option key={pronouns} value={pronouns}>
+                    {pronouns}
+                  </option>
+                ))}
+              </select>
+            ) : definition.type === "longText" ? (
+              <textarea
+                id={id}
+                rows={2}
+                maxLength={definition.maxLength}
+                value={values[variable.name] || ""}
+                placeholder={placeholder}
+                onChange={(e) => update(variable.name, e.target.value)}
+                className={`${inputClass} resize-none`}
+              />
+            ) : (
+              <input
+                id={id}
+                type="text"
+                maxLength={definition.maxLength}
+                value={values[variable.name] || ""}
+                placeholder={placeholder}
+                onChange={(e) => update(variable.name, e.target.value)}
+                className={inputClass}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+interface TurnScores {
+  confidenceScore: number;
+  empathyScore: number;
+  initiativeScore: number;
+  engagementScore: number;
+  clarityScore: number;
+}
+
+interface TurnNotes {
+  userWasPassive: boolean;
+  userShowedEmpathy: boolean;
+  missedOpportunity?: string;
+  strengthDisplayed?: string;
+}
+
+export interface TimelineMessage {
+  role: "user" | "model";
+  content: string;
+  voiceMetrics?: TurnScores;
+  textMetrics?: TurnScores;
+  difficulty?: number;
+  conversationNotes?: TurnNotes;
+  tone?: string;
+  events?: { type: string }[];
+}
+
+interface TurnTimelineProps {
+  messages: TimelineMessage[];
+  title?: string;
+  className?: string;
+}
+
+const SCORES: { key: keyof TurnScores; label: string }[] = [
+  { key: "confidenceScore", label: "Confidence" },
+  { key: "empathyScore", label: "Empathy" },
+  { key: "initiativeScore", label: "Initiative" },
+  { key: "engagementScore", label: "Engagement" },
+  { key: "clarityScore", label: "Clarity" },
+];
+
+function formatEventType(type: string): string {
+  return type.replace(/_/g, " ");
+}
+
+/**
+ * Walks through the conversation turn by turn: how each of the user's
+ * messages scored, where the difficulty stood after it and how the partner
+ * answered. Conversations saved before messages kept this metadata have
+ * nothing to show, so it renders nothing.
+ */
+export default function TurnTimeline({
+  messages,
+  title = "Turn by turn",
+  className = "bg-white shadow-md p-6 mb-5",
+}: TurnTimelineProps) {
+  const turns = messages
+    .map((message, i) => ({ message, reply: messages[i + 1] }))
+    .filter(
+      ({ message }) =>
+        message.role === "user" &&
+        (message.voiceMetrics || message.textMetrics || message.difficulty !== undefined)
+    )
+    .map(({ message, reply }) => ({
+      message,
+      reply: reply?.role === "model" ? reply : undefined,
+      scores: message.voiceMetrics || message.textMetrics,
+    }));
+
+  if (turns.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <h2 className="text-lg font-semibold text-gray-800 mb-1">{title}</h2>
+      <p className="text-xs text-gray-400 mb-4">
+        How each of your messages landed and how the partner responded
+      </p>
+      <ol className="space-y-5">
+        {turns.map(({ message, reply, scores }, i) => (
+          <li key={i} className="border-l-2 border-rose-200 pl-4">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-medium text-rose-600">Turn {i + 1}</span>
+              {message.difficulty !== undefined && (
+                <span className="text-xs text-gray-400">
+                  Difficulty after: {message.difficulty.toFixed(1)}
+                </span>
+              )}
+            </div>
+            <p className="text-sm text-gray-700 mb-2 line-clamp-2">
+              You: &ldquo;{message.content}&rdquo;
+            </p>
+
+            {scores && (
+              <div className="flex flex-wrap gap-2 mb-2">
+                {SCORES.map(({ key, label }) => (
+                  <span key={key} className="bg-rose-50 text-xs text-gray-600 px-2 py-1">
+                    {label} {Math.round(scores[key])}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {message.conversationNotes && (
+              <ul className="text-xs text-gray-500 space-y-1 mb-2">
+                {message.conversationNotes.strengthDisplayed && (
+                  <li>✓ {message.conversationNotes.strengthDisplayed}</li>
+                )}
+                {message.conversationNotes.missedOpportunity && (
+                  <li>↺ {message.conversationNotes.missedOpportunity}</li>
+                )}
+                {message.conversationNotes.userWasPassive && <li>Came across as passive</li>}
+                {message.conversationNotes.userShowedEmpathy && <li>Showed empathy</li>}
+              </ul>
+            )}
+
+            {reply && (
+              <p className="text-xs text-gray-400 line-clamp-2">
+                Partner{reply.tone ? ` (${reply.tone})` : ""}: &ldquo;{reply.content}&rdquo;
+              </p>
+            )}
+            {reply?.events?.map((event, j) => (
+              <span
+                key={j}
+                className="inline-block mt-1 mr-2 bg-amber-50 text-amber-700 text-xs px-2 py-0.5"
+              >
+                {formatEventType(event.type)}
+              </span>
+            ))}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -11,7 +11,12 @@ import {
   Radar,
   ResponsiveContainer,
 } from "recharts";
-import { scenarios } from "@/lib/scenarios";
+import { fetchScenario } from "@/lib/useScenarios";
+import PartnerReasoning, { ReasoningMessage } from "@/app/components/PartnerReasoning";
+import TurnTimeline, { TimelineMessage } from "@/app/components/TurnTimeline";
+import ScenarioOutcome from "@/app/components/ScenarioOutcome";
+import type { ScenarioSummary } from "@/lib/scenarios";
+import type { ScenarioProgress } from "@/lib/scenarioProgress";
 
 interface Analytics {
   tone: string;
@@ -25,6 +30,7 @@ interface Analytics {
   suggestions: string[];
   xpEarned: number;
   summary: string;
+  defaultedFields?: string[];
 }
 
 export default function DashboardPage() {
@@ -36,6 +42,11 @@ export default function DashboardPage() {
   const [loading, setLoading] = useState(true);
   const [scenarioTitle, setScenarioTitle] = useState("");
   const [scenarioIcon, setScenarioIcon] = useState("");
+  const [reanalyzing, setReanalyzing] = useState(false);
+  const [reanalyzeError, setReanalyzeError] = useState<string | null>(null);
+  const [messages, setMessages] = useState<(ReasoningMessage & TimelineMessage)[]>([]);
+  const [scenario, setScenario] = useState<ScenarioSummary | null>(null);
+  const [progress, setProgress] = useState<ScenarioProgress | null>(null);
 
   useEffect(() => {
     async function loadAndAnalyze() {
@@ -44,9 +55,18 @@ export default function DashboardPage() {
         const convoRes = await fetch(`/api/conversations/${convoId}`);
         const { conversation } = await convoRes.json();
 
-        const scenario = scenarios[conversation.scenario];
+        // Voice conversations have their own report
+        if (conversation.mode === "voice") {
+          router.replace(`/dashboard/voice?convoId=${convoId}`);
+          return;
+        }
+
+        const scenario = await fetchScenario(conversation.scenario);
         setScenarioTitle(scenario?.title || conversation.scenario);
         setScenarioIcon(scenario?.icon || "\u{1F4AC}");
+        setMessages(conversation.messages || []);
+        setScenario(scenario);
+        setProgress(conversation.progress || null);
 
         // If already analyzed, use existing analytics
         if (conversation.analytics?.tone) {
@@ -70,7 +90,26 @@ export default function DashboardPage() {
     }
 
     loadAndAnalyze();
-  }, [convoId]);
+  }, [convoId, router]);
+
+  // Runs the model again; the new XP replaces what this conversation earned before
+  const reanalyze = async () => {
+    setReanalyzing(true);
+    setReanalyzeError(null);
+    try {
+      const res = await fetch("/api/analyze", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ conversationId: convoId, reanalyze: true }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setAnalytics(data.analytics);
+    } catch (error) {
+      setReanalyzeError(error instanceof Error ? error.message : "Re-analysis failed");
+    }
+    setReanalyzing(false);
+  };
 
   if (loading) {
     return (
@@ -160,6 +199,18 @@ export default function DashboardPage() {
               +{analytics.xpEarned} XP
             </span>
           </div>
+          <div className="mt-3">
+            <button
+              onClick={reanalyze}
+              disabled={reanalyzing}
+              className="text-xs text-gray-400 hover:text-rose-500 transition-colors disabled:opacity-50"
+            >
+              {reanalyzing ? "Re-analyzing..." : "Re-analyze (replaces this conversation's XP)"}
+            </button>
+            {reanalyzeError && (
+              <p className="text-xs text-rose-500 mt-1">{reanalyzeError}</p>
+            )}
+          </div>
         </div>
 
         {/* Summary Card */}
@@ -173,6 +224,12 @@ export default function DashboardPage() {
               Tone: {analytics.tone}
             </span>
           </div>
+          {analytics.defaultedFields && analytics.defaultedFields.length > 0 && (
+            <p className="text-xs text-gray-400 mt-3">
+              Some results could not be determined and use default values:{" "}
+              {analytics.defaultedFields.join(", ")}
+            </p>
+          )}
         </div>
 
         {/* Radar Chart */}
@@ -252,6 +309,12 @@ export default function DashboardPage() {
           </ul>
         </div>
 
+        <ScenarioOutcome scenario={scenario} progress={progress} />
+
+        <TurnTimeline messages={messages} title="TURN BY TURN" />
+
+        <PartnerReasoning messages={messages} title="WHY THEY REACTED THIS WAY" />
+
         {/* Actions */}
         <div className="flex gap-3">
           <button
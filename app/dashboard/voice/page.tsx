@@ -20,25 +20,17 @@ import {
   BarChart,
   Bar,
 } from "recharts";
-import { scenarios } from "@/lib/scenarios";
-import {
-  VoiceMetrics,
-  aggregateVoiceMetrics,
-  identifyStrengthsAndWeaknesses,
-  getCommunicationStyleSummary,
-} from "@/lib/voiceAnalytics";
-
-interface VoiceAnalytics {
-  aggregatedMetrics: VoiceMetrics;
+import { fetchScenario } from "@/lib/useScenarios";
+import { VoiceMetrics } from "@/lib/voiceAnalytics";
+import { VoiceReport } from "@/lib/voiceReport";
+import PartnerReasoning, { ReasoningMessage } from "@/app/components/PartnerReasoning";
+import TurnTimeline, { TimelineMessage } from "@/app/components/TurnTimeline";
+import ScenarioOutcome from "@/app/components/ScenarioOutcome";
+import type { ScenarioSummary } from "@/lib/scenarios";
+import type { ScenarioProgress } from "@/lib/scenarioProgress";
+
+interface VoiceAnalytics extends VoiceReport {
   metricsHistory: VoiceMetrics[];
-  strengths: string[];
-  weaknesses: string[];
-  communicationStyle: string;
-  xpEarned: number;
-  summary: string;
-  suggestions: string[];
-  drills: string[];
-  nextGoal: string;
 }
 
 function VoiceDashboardContent() {
@@ -50,6 +42,10 @@ function VoiceDashboardContent() {
   const [loading, setLoading] = useState(true);
   const [scenarioTitle, setScenarioTitle] = useState("");
   const [scenarioIcon, setScenarioIcon] = useState("");
+  const [insufficientData, setInsufficientData] = useState(false);
+  const [messages, setMessages] = useState<(ReasoningMessage & TimelineMessage)[]>([]);
+  const [scenario, setScenario] = useState<ScenarioSummary | null>(null);
+  const [progress, setProgress] = useState<ScenarioProgress | null>(null);
 
   useEffect(() => {
     async function loadAndAnalyze() {
@@ -63,67 +59,27 @@ function VoiceDashboardContent() {
         const convoRes = await fetch(`/api/conversations/${convoId}`);
         const { conversation } = await convoRes.json();
 
-        const scenario = scenarios[conversation.scenario];
+        const scenario = await fetchScenario(conversation.scenario);
         setScenarioTitle(scenario?.title || conversation.scenario);
         setScenarioIcon(scenario?.icon || "🎤");
+        setMessages(conversation.messages || []);
+        setScenario(scenario);
+        setProgress(conversation.progress || null);
+
+        // Score the conversation, award XP and update voice averages on the server.
+        // If live metrics were lost, the server recovers them from the transcript.
+        const analysisRes = await fetch("/api/voice/analyze", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ conversationId: convoId }),
+        });
+        const data = await analysisRes.json();
 
-        // Get voice metrics history from conversation
-        const metricsHistory: VoiceMetrics[] = conversation.voiceMetricsHistory || [];
-
-        if (metricsHistory.length === 0) {
-          // Generate mock data for demonstration if no real data
-          for (let i = 0; i < 5; i++) {
-            metricsHistory.push({
-              wpm: 120 + Math.random() * 40,
-              fillerFrequency: Math.random() * 15,
-              avgPauseMs: 200 + Math.random() * 300,
-              smoothnessScore: 50 + Math.random() * 40,
-              confidenceScore: 50 + Math.random() * 40,
-              empathyScore: 50 + Math.random() * 40,
-              initiativeScore: 50 + Math.random() * 40,
-              engagementScore: 50 + Math.random() * 40,
-              clarityScore: 50 + Math.random() * 40,
-            });
-          }
+        if (analysisRes.ok) {
+          setAnalytics({ ...data.voiceAnalytics, metricsHistory: data.metricsHistory });
+        } else if (data.insufficientData) {
+          setInsufficientData(true);
         }
-
-        const aggregatedMetrics = aggregateVoiceMetrics(metricsHistory);
-        const { strengths, weaknesses } = identifyStrengthsAndWeaknesses(aggregatedMetrics);
-        const communicationStyle = getCommunicationStyleSummary(aggregatedMetrics);
-
-        // Generate suggestions based on weaknesses
-        const suggestions = generateSuggestions(weaknesses, aggregatedMetrics);
-        const drills = generateDrills(weaknesses);
-        const nextGoal = generateNextGoal(weaknesses, aggregatedMetrics);
-
-        // Calculate XP
-        const baseXP = 30;
-        const performanceBonus = Math.round(
-          ((aggregatedMetrics.confidenceScore +
-            aggregatedMetrics.empathyScore +
-            aggregatedMetrics.engagementScore +
-            aggregatedMetrics.clarityScore +
-            aggregatedMetrics.initiativeScore) /
-            500) *
-            70
-        );
-        const xpEarned = baseXP + performanceBonus;
-
-        // Generate summary
-        const summary = generateSummary(aggregatedMetrics, strengths, weaknesses);
-
-        setAnalytics({
-          aggregatedMetrics,
-          metricsHistory,
-          strengths,
-          weaknesses,
-          communicationStyle,
-          xpEarned,
-          summary,
-          suggestions,
-          drills,
-          nextGoal,
-        });
       } catch (error) {
         console.error("Dashboard error:", error);
       }
@@ -151,6 +107,29 @@ function VoiceDashboardContent() {
     );
   }
 
+  if (insufficientData) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-100 flex items-center justify-center">
+        <div className="bg-white rounded-2xl shadow-md p-8 max-w-md text-center">
+          <p className="text-gray-400 text-sm mb-1">
+            {scenarioIcon} {scenarioTitle}
+          </p>
+          <h1 className="text-xl font-bold text-gray-800 mb-2">Not enough data yet</h1>
+          <p className="text-gray-600 text-sm mb-6">
+            We didn&apos;t capture enough of your speech in this conversation to build a
+            voice report. Try a longer conversation with a few spoken responses.
+          </p>
+          <button
+            onClick={() => router.push("/")}
+            className="text-rose-500 hover:text-rose-600 font-medium"
+          >
+            Go home
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (!analytics) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-100 flex items-center justify-center">
@@ -168,6 +147,8 @@ function VoiceDashboardContent() {
   }
 
   const { aggregatedMetrics, metricsHistory, strengths, weaknesses } = analytics;
+  // Recovered-from-transcript metrics have no audio timing
+  const hasTiming = analytics.metricsSource !== "transcript";
 
   // Prepare chart data
   const radarData = [
@@ -231,10 +212,16 @@ function VoiceDashboardContent() {
         {/* Speech Metrics Section */}
         <div className="bg-white rounded-2xl shadow-md p-6 mb-5">
           <h2 className="text-lg font-semibold text-gray-800 mb-4">Speech Metrics</h2>
+          {!hasTiming && (
+            <p className="text-xs text-gray-400 -mt-2 mb-4">
+              Live metrics weren&apos;t saved for this conversation, so these results were
+              recovered from your transcript. Speaking pace and pauses aren&apos;t available.
+            </p>
+          )}
 
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
             <div className="text-center p-3 bg-rose-50 rounded-xl">
-              <p className="text-2xl font-bold text-rose-600">{Math.round(aggregatedMetrics.wpm)}</p>
+              <p className="text-2xl font-bold text-rose-600">{hasTiming ? Math.round(aggregatedMetrics.wpm) : "\u2014"}</p>
               <p className="text-xs text-gray-500">Words/Min</p>
             </div>
             <div className="text-center p-3 bg-rose-50 rounded-xl">
@@ -244,7 +231,7 @@ function VoiceDashboardContent() {
               <p className="text-xs text-gray-500">Filler Words</p>
             </div>
             <div className="text-center p-3 bg-rose-50 rounded-xl">
-              <p className="text-2xl font-bold text-rose-600">{Math.round(aggregatedMetrics.avgPauseMs)}ms</p>
+              <p className="text-2xl font-bold text-rose-600">{hasTiming ? `${Math.round(aggregatedMetrics.avgPauseMs)}ms` : "\u2014"}</p>
               <p className="text-xs text-gray-500">Avg Pause</p>
             </div>
             <div className="text-center p-3 bg-rose-50 rounded-xl">
@@ -255,6 +242,29 @@ function VoiceDashboardContent() {
             </div>
           </div>
 
+          {hasTiming && (
+            <div className="grid grid-cols-3 gap-4 mb-6">
+              <div className="text-center p-3 bg-rose-50 rounded-xl">
+                <p className="text-lg font-bold text-rose-600">
+                  {(aggregatedMetrics.longestPauseMs / 1000).toFixed(1)}s
+                </p>
+                <p className="text-xs text-gray-500">Longest Pause</p>
+              </div>
+              <div className="text-center p-3 bg-rose-50 rounded-xl">
+                <p className="text-lg font-bold text-rose-600">
+                  {(aggregatedMetrics.timeToFirstWordMs / 1000).toFixed(1)}s
+                </p>
+                <p className="text-xs text-gray-500">Avg Time to First Word</p>
+              </div>
+              <div className="text-center p-3 bg-rose-50 rounded-xl">
+                <p className="text-lg font-bold text-rose-600">
+                  {"\u00b1"}{Math.round(aggregatedMetrics.speechRateVariance)}
+                </p>
+                <p className="text-xs text-gray-500">Pace Variation (WPM)</p>
+              </div>
+            </div>
+          )}
+
           {/* Filler Word Trend */}
           {fillerData.length > 1 && (
             <div className="h-48">
@@ -386,6 +396,15 @@ function VoiceDashboardContent() {
           </div>
         </div>
 
+        <ScenarioOutcome scenario={scenario} progress={progress} className="bg-white rounded-2xl shadow-md p-6 mb-5" />
+
+        <TurnTimeline messages={messages} className="bg-white rounded-2xl shadow-md p-6 mb-5" />
+
+        <PartnerReasoning
+          messages={messages}
+          className="bg-white rounded-2xl shadow-md p-6 mb-5"
+        />
+
         {/* Actions */}
         <div className="flex justify-center gap-4">
           <button
@@ -406,131 +425,6 @@ function VoiceDashboardContent() {
   );
 }
 
-// Helper functions
-function generateSuggestions(weaknesses: string[], metrics: VoiceMetrics): string[] {
-  const suggestions: string[] = [];
-
-  if (weaknesses.includes("Confidence") || metrics.confidenceScore < 50) {
-    suggestions.push(
-      "Practice speaking more slowly and deliberately to project confidence.",
-      "Before responding, take a brief pause to gather your thoughts."
-    );
-  }
-
-  if (weaknesses.includes("Empathy") || metrics.empathyScore < 50) {
-    suggestions.push(
-      "Try reflecting back what the other person said before adding your thoughts.",
-      "Use phrases like 'I understand' or 'That makes sense' to show you're listening."
-    );
-  }
-
-  if (weaknesses.includes("Initiative") || metrics.initiativeScore < 50) {
-    suggestions.push(
-      "Ask more follow-up questions to show genuine interest.",
-      "Introduce new topics or share related experiences to keep the conversation flowing."
-    );
-  }
-
-  if (metrics.fillerFrequency > 10) {
-    suggestions.push(
-      "Practice replacing filler words with brief pauses instead.",
-      "Record yourself speaking and count filler words to build awareness."
-    );
-  }
-
-  if (metrics.wpm < 100 || metrics.wpm > 180) {
-    suggestions.push(
-      metrics.wpm < 100
-        ? "Try speaking at a slightly faster pace to maintain engagement."
-        : "Slow down your speaking pace to improve clarity and connection."
-    );
-  }
-
-  return suggestions.slice(0, 4);
-}
-
-function generateDrills(weaknesses: string[]): string[] {
-  const drillMap: Record<string, string[]> = {
-    Confidence: [
-      "Record yourself answering common questions and review your delivery.",
-      "Practice power poses for 2 minutes before conversations.",
-    ],
-    Empathy: [
-      "Practice active listening: summarize what the speaker said before responding.",
-      "Watch conversations in movies and identify empathy moments.",
-    ],
-    Initiative: [
-      "Prepare 3 interesting questions before your next conversation.",
-      "Practice the 'and' technique: add something new to each response.",
-    ],
-    Engagement: [
-      "Set a goal to elaborate on your answers with at least one example.",
-      "Practice storytelling: turn simple answers into brief narratives.",
-    ],
-    Clarity: [
-      "Practice the PREP method: Point, Reason, Example, Point.",
-      "Record yourself and identify unclear moments.",
-    ],
-    "Speech Smoothness": [
-      "Read aloud for 5 minutes daily to improve flow.",
-      "Practice tongue twisters to improve articulation.",
-    ],
-  };
-
-  const drills: string[] = [];
-  for (const weakness of weaknesses) {
-    const weaknessDrills = drillMap[weakness] || [];
-    drills.push(...weaknessDrills);
-  }
-
-  return drills.slice(0, 4);
-}
-
-function generateNextGoal(weaknesses: string[], metrics: VoiceMetrics): string {
-  if (metrics.fillerFrequency > 15) {
-    return "Focus on reducing filler words by 50% in your next conversation.";
-  }
-
-  if (metrics.confidenceScore < 40) {
-    return "Practice speaking with deliberate pauses instead of rushing through responses.";
-  }
-
-  if (metrics.empathyScore < 40) {
-    return "Try to include at least one reflective statement in each response.";
-  }
-
-  if (metrics.initiativeScore < 40) {
-    return "Ask at least 3 meaningful follow-up questions in your next conversation.";
-  }
-
-  if (weaknesses.length > 0) {
-    return `Focus on improving your ${weaknesses[0].toLowerCase()} in the next conversation.`;
-  }
-
-  return "Challenge yourself by trying a harder difficulty level!";
-}
-
-function generateSummary(
-  metrics: VoiceMetrics,
-  strengths: string[],
-  weaknesses: string[]
-): string {
-  const avgScore =
-    (metrics.confidenceScore +
-      metrics.empathyScore +
-      metrics.initiativeScore +
-      metrics.engagementScore +
-      metrics.clarityScore) /
-    5;
-
-  let performance = "solid";
-  if (avgScore >= 75) performance = "excellent";
-  else if (avgScore >= 60) performance = "good";
-  else if (avgScore < 40) performance = "developing";
-
-  return `You showed ${performance} voice communication skills in this conversation. Your strongest areas were ${strengths.slice(0, 2).join(" and ").toLowerCase()}, which helped create a positive dynamic. To improve further, focus on ${weaknesses[0]?.toLowerCase() || "maintaining consistency"} while keeping your natural conversational style.`;
-}
-
 export default function VoiceDashboardPage() {
   return (
     <Suspense
@@ -0,0 +1,259 @@
+"use client";
+
+import { useState, useEffect, useCallback, Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Image from "next/image";
+
+type AuthMode = "login" | "signup" | "magic";
+
+interface AccountData {
+  email: string;
+  visitorId: string;
+}
+
+interface ClaimableProgress {
+  xp: number;
+  conversationCount: number;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  expired: "That sign-in link has expired or was already used. Request a new one below.",
+  failed: "Something went wrong signing you in. Please try again.",
+};
+
+function LoginContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [mode, setMode] = useState<AuthMode>("login");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(
+    ERROR_MESSAGES[searchParams.get("error") || ""] || null
+  );
+  const [linkSent, setLinkSent] = useState(false);
+  const [account, setAccount] = useState<AccountData | null>(null);
+  const [claimable, setClaimable] = useState<ClaimableProgress | null>(null);
+
+  // From here on this browser acts as the account's visitor
+  const finishSignIn = useCallback(
+    (user: AccountData) => {
+      localStorage.setItem("cuepid-user-id", user.visitorId);
+      router.push("/");
+    },
+    [router]
+  );
+
+  const handleSignedIn = useCallback(
+    (user: AccountData, progress: ClaimableProgress | null) => {
+      // Only offer a merge when there is something worth keeping
+      if (progress && (progress.xp > 0 || progress.conversationCount > 0)) {
+        setAccount(user);
+        setClaimable(progress);
+      } else {
+        finishSignIn(user);
+      }
+    },
+    [finishSignIn]
+  );
+
+  // Returning from a magic link: the session cookie is already set
+  useEffect(() => {
+    if (searchParams.get("signedIn") !== "1") return;
+
+    fetch("/api/auth/session")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.user) handleSignedIn(data.user, data.claimable);
+      })
+      .catch(console.error);
+  }, [searchParams, handleSignedIn]);
+
+  const submit = async () => {
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      if (mode === "magic") {
+        const res = await fetch("/api/auth/magic-link", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+        setLinkSent(true);
+        return;
+      }
+
+      const res = await fetch(`/api/auth/${mode}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+
+      // Signup already adopted this browser's anonymous progress
+      handleSignedIn(data.user, mode === "login" ? data.claimable : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const claimProgress = async () => {
+    if (!account) return;
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/auth/claim", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      finishSignIn(data.user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to merge progress");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen dotted-background flex items-center justify-center px-4">
+      <div className="bg-white rounded-2xl shadow-md p-8 w-full max-w-md">
+        <button
+          onClick={() => router.push("/")}
+          className="hover:opacity-80 transition-opacity cursor-pointer mb-6"
+        >
+          <h1 className="text-6xl text-rose-600 advine-pixel-font leading-none">Cuepid</h1>
+        </button>
+
+        {account && claimable ? (
+          <div>
+            <h2 className="text-lg font-bold text-gray-800 mb-2">Keep your guest progress?</h2>
+            <p className="text-sm text-gray-600 mb-6">
+              This browser has {claimable.xp} XP and {claimable.conversationCount} analyzed
+              conversation{claimable.conversationCount === 1 ? "" : "s"} from before you signed
+              in. Merge them into {account.email}? This can only be done once.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={claimProgress}
+                disabled={submitting}
+                className="flex-1 bg-rose-500 text-white px-5 py-2.5 rounded-xl font-medium hover:bg-rose-600 transition-colors disabled:opacity-50 cursor-pointer"
+              >
+                Merge progress
+              </button>
+              <button
+                onClick={() => finishSignIn(account)}
+                disabled={submitting}
+                className="flex-1 bg-rose-50 text-rose-600 px-5 py-2.5 rounded-xl font-medium hover:bg-rose-100 transition-colors disabled:opacity-50 cursor-pointer"
+              >
+                Not now
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div>
+            {/* Mode Tabs */}
+            <div className="flex gap-2 mb-6">
+              {(
+                [
+                  ["login", "Sign in"],
+                  ["signup", "Create account"],
+                  ["magic", "Email link"],
+                ] as [AuthMode, string][]
+              ).map(([tabMode, label]) => (
+                <button
+                  key={tabMode}
+                  onClick={() => {
+                    setMode(tabMode);
+                    setError(null);
+                    setLinkSent(false);
+                  }}
+                  className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-all cursor-pointer ${
+                    mode === tabMode
+                      ? "bg-rose-500 text-white"
+                      : "bg-rose-50 text-gray-700 hover:bg-rose-100"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {linkSent ? (
+              <p className="text-sm text-gray-600">
+                Check <strong>{email}</strong> for a sign-in link. It expires in 15 minutes.
+              </p>
+            ) : (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  submit();
+                }}
+                className="flex flex-col gap-3"
+              >
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Email"
+                  autoComplete="email"
+                  className="bg-rose-50 border border-rose-200 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-rose-300 focus:border-transparent placeholder-gray-400"
+                  required
+                />
+                {mode !== "magic" && (
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={mode === "signup" ? "Password (8+ characters)" : "Password"}
+                    autoComplete={mode === "signup" ? "new-password" : "current-password"}
+                    className="bg-rose-50 border border-rose-200 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-rose-300 focus:border-transparent placeholder-gray-400"
+                    required
+                  />
+                )}
+                {mode === "signup" && (
+                  <p className="text-xs text-gray-500">
+                    Your current XP and conversations will be saved to the new account.
+                  </p>
+                )}
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="bg-rose-500 text-white px-5 py-2.5 rounded-xl font-medium hover:bg-rose-600 transition-colors disabled:opacity-50 cursor-pointer"
+                >
+                  {mode === "login" ? "Sign in" : mode === "signup" ? "Create account" : "Send link"}
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-500 mt-4">{error}</p>}
+      </div>
+    </div>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen dotted-background flex items-center justify-center">
+          <Image
+            src="/scenarios/favicon.png"
+            alt="Loading"
+            width={48}
+            height={48}
+            className="animate-spin"
+          />
+        </div>
+      }
+    >
+      <LoginContent />
+    </Suspense>
+  );
+}
@@ -2,12 +2,18 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import Image from "next/image";
 import { v4 as uuidv4 } from "uuid";
-import { scenarios } from "@/lib/scenarios";
+import { SCENARIO_DIFFICULTIES, ScenarioDifficulty, ScenarioSummary } from "@/lib/scenarios";
+import { useScenarios } from "@/lib/useScenarios";
+import ScenarioIcon from "@/app/components/ScenarioIcon";
+import ScenarioVariablesForm, { getCollectedVariables } from "@/app/components/ScenarioVariablesForm";
+import { SessionTemplateValues, sanitizeSessionValues } from "@/lib/promptTemplate";
 import { getLevelProgress } from "@/lib/levels";
+import { DIFFICULTY_PRESETS } from "@/lib/difficultyEngine";
+import { PARTNER_GENDERS, PartnerGender } from "@/lib/toneToVoiceSettings";
 
 interface UserData {
+  email?: string;
   level: number;
   xp: number;
   conversationCount: number;
@@ -16,14 +22,24 @@ interface UserData {
 }
 
 type ConversationMode = "text" | "voice";
-type PartnerGender = "female" | "male";
+
+const GENDER_LABELS: Record<PartnerGender, string> = {
+  female: "Female",
+  male: "Male",
+  nonbinary: "Non-binary",
+  unspecified: "Unspecified",
+};
 
 export default function Home() {
   const router = useRouter();
   const [user, setUser] = useState<UserData | null>(null);
   const [globalMode, setGlobalMode] = useState<ConversationMode>("text");
-  const [globalDifficulty, setGlobalDifficulty] = useState("easy");
+  const [globalDifficulty, setGlobalDifficulty] = useState<ScenarioDifficulty>("easy");
   const [partnerGender, setPartnerGender] = useState<PartnerGender>("female");
+  // Personalization per scenario, and which card has its form open
+  const [variableValues, setVariableValues] = useState<Record<string, SessionTemplateValues>>({});
+  const [personalizing, setPersonalizing] = useState<string | null>(null);
+  const { scenarios } = useScenarios();
 
   useEffect(() => {
     let id = localStorage.getItem("cuepid-user-id");
@@ -34,16 +50,16 @@ export default function Home() {
 
     // Restore settings from sessionStorage (when returning from chat)
     const savedMode = sessionStorage.getItem("cuepid-conversation-mode") as ConversationMode;
-    const savedDifficulty = sessionStorage.getItem("cuepid-difficulty");
+    const savedDifficulty = sessionStorage.getItem("cuepid-difficulty") as ScenarioDifficulty;
     const savedGender = sessionStorage.getItem("cuepid-partner-gender") as PartnerGender;
     
     if (savedMode && (savedMode === "text" || savedMode === "voice")) {
       setGlobalMode(savedMode);
     }
-    if (savedDifficulty && ["easy", "medium", "hard"].includes(savedDifficulty)) {
+    if (savedDifficulty && SCENARIO_DIFFICULTIES.includes(savedDifficulty)) {
       setGlobalDifficulty(savedDifficulty);
     }
-    if (savedGender && (savedGender === "female" || savedGender === "male")) {
+    if (savedGender && PARTNER_GENDERS.includes(savedGender)) {
       setPartnerGender(savedGender);
     }
 
@@ -58,7 +74,13 @@ export default function Home() {
       body: JSON.stringify({ visitorId: id }),
     })
       .then((res) => res.json())
-      .then((data) => setUser(data.user))
+      .then((data) => {
+        // The server knows who this browser is (session or visitor cookie)
+        if (data.user?.visitorId) {
+          localStorage.setItem("cuepid-user-id", data.user.visitorId);
+        }
+        setUser(data.user);
+      })
       .catch(console.error);
   }, []);
 
@@ -79,25 +101,30 @@ export default function Home() {
     sessionStorage.setItem("cuepid-conversation-mode", globalMode);
     sessionStorage.setItem("cuepid-difficulty", globalDifficulty);
     sessionStorage.setItem("cuepid-partner-gender", partnerGender);
-    const difficulty = globalDifficulty;
+    // Both modes start at the preset's level and adapt from there
+    const level = DIFFICULTY_PRESETS[globalDifficulty];
     const mode = globalMode;
     
     // Build weaknesses param for practice_weaknesses scenario
     const weaknessesParam = scenarioId === "practice_weaknesses" && user?.weaknesses?.length 
       ? `&weaknesses=${encodeURIComponent(user.weaknesses.join(","))}`
       : "";
+
+    // Values the user filled in for the scenario's {{placeholders}}
+    const values = sanitizeSessionValues(variableValues[scenarioId]);
+    const varsParam = Object.keys(values).length
+      ? `&vars=${encodeURIComponent(JSON.stringify(values))}`
+      : "";
     
     if (mode === "voice") {
-      // Convert difficulty name to number for voice mode
-      const difficultyNum = difficulty === "easy" ? 3 : difficulty === "medium" ? 5 : 8;
-      router.push(`/chat/${scenarioId}/voice?difficulty=${difficultyNum}&gender=${partnerGender}${weaknessesParam}`);
+      router.push(`/chat/${scenarioId}/voice?difficulty=${level}&gender=${partnerGender}${weaknessesParam}${varsParam}`);
     } else {
-      router.push(`/chat/${scenarioId}?difficulty=${difficulty}&gender=${partnerGender}${weaknessesParam}`);
+      router.push(`/chat/${scenarioId}?difficulty=${level}&gender=${partnerGender}${weaknessesParam}${varsParam}`);
     }
   };
 
   // Helper to get dynamic description for practice_weaknesses scenario
-  const getScenarioDescription = (scenario: typeof scenarios[string]) => {
+  const getScenarioDescription = (scenario: ScenarioSummary) => {
     if (scenario.id === "practice_weaknesses" && user?.weaknesses?.length) {
       const formatted = user.weaknesses.map(w => 
         w.charAt(0).toUpperCase() + w.slice(1)
@@ -157,6 +184,14 @@ export default function Home() {
                 </div>
               </div>
             )}
+            {user && !user.email && (
+              <button
+                onClick={() => router.push("/login")}
+                className="bg-white/80 hover:bg-white rounded-full px-4 py-2 shadow-sm text-sm text-black hover:text-rose-500 transition-colors cursor-pointer"
+              >
+                Sign in
+              </button>
+            )}
             <button
               onClick={() => router.push("/profile")}
               className="bg-white/80 hover:bg-white rounded-full px-4 py-2 shadow-sm text-sm text-black hover:text-rose-500 transition-colors cursor-pointer"
@@ -199,7 +234,7 @@ export default function Home() {
           <div className="flex gap-3 items-center flex-1 justify-center">
             <span className="text-sm font-bold text-gray-700 whitespace-nowrap">Difficulty:</span>
             <div className="flex gap-2 w-full">
-              {(["easy", "medium", "hard"] as const).map((diff) => {
+              {SCENARIO_DIFFICULTIES.map((diff) => {
                 const userLevel = user?.level ?? 1;
                 const locked =
                   (diff === "medium" && userLevel < 2) ||
@@ -228,32 +263,22 @@ export default function Home() {
           <div className="flex gap-3 items-center flex-1 justify-center">
             <span className="text-sm font-bold text-gray-700 whitespace-nowrap">Partner:</span>
             <div className="flex gap-2 w-full">
-              <button
-                onClick={() => globalMode === "voice" && setPartnerGender("female")}
-                disabled={globalMode === "text"}
-                className={`flex-1 px-3 py-1.5 rounded-lg text-sm font-medium transition-all ${
-                  globalMode === "text"
-                    ? "bg-gray-100 text-gray-400 cursor-not-allowed opacity-50"
-                    : partnerGender === "female"
-                    ? "bg-rose-500 text-white shadow-lg scale-105"
-                    : "bg-rose-50 text-rose-600 hover:bg-rose-100"
-                }`}
-              >
-                Female
-              </button>
-              <button
-                onClick={() => globalMode === "voice" && setPartnerGender("male")}
-                disabled={globalMode === "text"}
-                className={`flex-1 px-3 py-1.5 rounded-lg text-sm font-medium transition-all ${
-                  globalMode === "text"
-                    ? "bg-gray-100 text-gray-400 cursor-not-allowed opacity-50"
-                    : partnerGender === "male"
-                    ? "bg-rose-500 text-white shadow-lg scale-105"
-                    : "bg-rose-50 text-rose-600 hover:bg-rose-100"
-                }`}
-              >
-                Male
-              </button>
+              {PARTNER_GENDERS.map((gender) => (
+                <button
+                  key={gender}
+                  onClick={() => globalMode === "voice" && setPartnerGender(gender)}
+                  disabled={globalMode === "text"}
+                  className={`flex-1 px-2 py-1.5 rounded-lg text-sm font-medium transition-all whitespace-nowrap ${
+                    globalMode === "text"
+                      ? "bg-gray-100 text-gray-400 cursor-not-allowed opacity-50"
+                      : partnerGender === gender
+                      ? "bg-rose-500 text-white shadow-lg scale-105"
+                      : "bg-rose-50 text-rose-600 hover:bg-rose-100"
+                  }`}
+                >
+                  {GENDER_LABELS[gender]}
+                </button>
+              ))}
             </div>
           </div>
         </div>
@@ -271,49 +296,12 @@ export default function Home() {
                 style={{ animationDelay: `${0.3 + index * 0.1}s` }}
               >
                 <div className="flex items-start gap-3 mb-1">
-                  {scenario.id === "planning_a_date" ? (
-                    <Image
-                      src="/scenarios/planning_a_date.png"
-                      alt={scenario.title}
-                      width={48}
-                      height={48}
-                      className="rounded-lg flex-shrink-0"
-                    />
-                  ) : scenario.id === "asking_someone_out" || scenario.id === "making_new_friends" ? (
-                    <Image
-                      src={`/scenarios/${scenario.id}.png`}
-                      alt={scenario.title}
-                      width={48}
-                      height={48}
-                      className="rounded-lg flex-shrink-0"
-                    />
-                  ) : scenario.id === "resolving_misunderstanding" ? (
-                    <Image
-                      src="/scenarios/resolving_a_misunderstanding.png"
-                      alt={scenario.title}
-                      width={48}
-                      height={48}
-                      className="rounded-lg flex-shrink-0"
-                    />
-                  ) : scenario.id === "difficult_conversation" ? (
-                    <Image
-                      src="/scenarios/setting_boundaries.png"
-                      alt={scenario.title}
-                      width={48}
-                      height={48}
-                      className="rounded-lg flex-shrink-0"
-                    />
-                  ) : scenario.id === "practice_weaknesses" ? (
-                    <Image
-                      src="/scenarios/practice_your_weaknesses.png"
-                      alt={scenario.title}
-                      width={48}
-                      height={48}
-                      className="rounded-lg flex-shrink-0"
-                    />
-                  ) : (
-                    <span className="text-3xl flex-shrink-0">{scenario.icon}</span>
-                  )}
+                  <ScenarioIcon
+                    scenario={scenario}
+                    size={48}
+                    className="rounded-lg flex-shrink-0"
+                    emojiClassName="text-3xl flex-shrink-0"
+                  />
                   <div className="min-w-0 flex-1">
                     <h2 className="text-lg font-bold text-gray-800 leading-tight">
                       {scenario.title.toUpperCase()}
@@ -333,6 +321,26 @@ export default function Home() {
                   {getScenarioDescription(scenario)}
                 </p>
 
+                {!locked && getCollectedVariables(scenario).length > 0 && (
+                  <>
+                    <button
+                      onClick={() => setPersonalizing(personalizing === scenario.id ? null : scenario.id)}
+                      className="text-xs text-rose-400 hover:text-rose-500 font-medium mb-2 self-start"
+                    >
+                      {personalizing === scenario.id ? "Hide details" : "Personalize"}
+                    </button>
+                    {personalizing === scenario.id && (
+                      <ScenarioVariablesForm
+                        scenario={scenario}
+                        values={variableValues[scenario.id] || {}}
+                        onChange={(values) =>
+                          setVariableValues((prev) => ({ ...prev, [scenario.id]: values }))
+                        }
+                      />
+                    )}
+                  </>
+                )}
+
                 {locked ? (
                   <button
                     disabled
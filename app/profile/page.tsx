@@ -12,20 +12,40 @@ import {
   ResponsiveContainer,
 } from "recharts";
 import { getLevelProgress } from "@/lib/levels";
-import { scenarios } from "@/lib/scenarios";
+import {
+  DIFFICULTY_SKILLS,
+  SkillLevels,
+  getDifficultyLabel,
+  parseDifficultyLevel,
+} from "@/lib/difficultyEngine";
+import { DEFAULT_TARGET_SUCCESS_RATE } from "@/lib/difficultyController";
+import { useScenarios } from "@/lib/useScenarios";
+import ScenarioIcon from "@/app/components/ScenarioIcon";
+import { ConversationSetup, ConversationStatus, getResumeUrl } from "@/lib/conversationSession";
 
 interface UserData {
+  email?: string;
   level: number;
   xp: number;
   conversationCount: number;
   strengths: string[];
   weaknesses: string[];
+  difficultyProfile?: {
+    targetSuccessRate: number;
+    skillLevels: SkillLevels | null;
+  };
 }
 
+// Offered on the profile page; the API accepts anything from 0.5 to 0.9
+const TARGET_SUCCESS_RATES = [0.5, 0.6, 0.7, 0.8, 0.9];
+
 interface ConversationData {
   _id: string;
   scenario: string;
-  difficulty: string;
+  difficulty: number | string; // Level 1-10; a preset name or numeric string before migration
+  mode: "text" | "voice";
+  status: ConversationStatus;
+  setup: ConversationSetup | null;
   messages: { role: string; content: string; timestamp: number }[];
   analytics?: {
     tone: string;
@@ -44,6 +64,7 @@ export default function ProfilePage() {
   const [user, setUser] = useState<UserData | null>(null);
   const [conversations, setConversations] = useState<ConversationData[]>([]);
   const [loading, setLoading] = useState(true);
+  const { scenarios } = useScenarios();
 
   useEffect(() => {
     const userId = localStorage.getItem("cuepid-user-id");
@@ -67,6 +88,56 @@ export default function ProfilePage() {
       });
   }, [router]);
 
+  const updateTargetSuccessRate = async (targetSuccessRate: number) => {
+    try {
+      const response = await fetch("/api/user", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ targetSuccessRate }),
+      });
+      const data = await response.json();
+      if (data.user) setUser(data.user);
+    } catch (err) {
+      console.error("Profile update error:", err);
+    }
+  };
+
+  const signOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(console.error);
+    // Start over as a fresh anonymous visitor; the account's data stays with the account
+    localStorage.removeItem("cuepid-user-id");
+    router.push("/");
+  };
+
+  const deleteConversation = async (id: string) => {
+    if (!confirm("Delete this conversation? Its transcript and analysis can't be recovered.")) return;
+    try {
+      const response = await fetch(`/api/conversations/${id}`, { method: "DELETE" });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setConversations((current) => current.filter((convo) => convo._id !== id));
+    } catch (err) {
+      console.error("Conversation delete error:", err);
+    }
+  };
+
+  const deleteAccount = async () => {
+    if (
+      !confirm(
+        "Delete your profile and every saved conversation? This can't be undone. Download your data first if you want to keep it."
+      )
+    ) {
+      return;
+    }
+    try {
+      const response = await fetch("/api/user", { method: "DELETE" });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      localStorage.removeItem("cuepid-user-id");
+      router.push("/");
+    } catch (err) {
+      console.error("Account delete error:", err);
+    }
+  };
+
   useEffect(() => {
     // Trigger slide-up animations after component mounts
     const timer = setTimeout(() => {
@@ -145,6 +216,8 @@ export default function ProfilePage() {
       ]
     : null;
 
+  const skillLevels = user.difficultyProfile?.skillLevels;
+
   return (
     <div className="min-h-screen dotted-background">
       <div className="max-w-3xl mx-auto px-4 py-8">
@@ -172,6 +245,26 @@ export default function ProfilePage() {
           <p className="text-gray-500 text-sm mt-1">
             Track your conversation skills
           </p>
+          {user.email ? (
+            <p className="text-gray-500 text-sm mt-1">
+              Signed in as {user.email}
+              {" \u00b7 "}
+              <button onClick={signOut} className="text-rose-500 hover:underline cursor-pointer">
+                Sign out
+              </button>
+            </p>
+          ) : (
+            <p className="text-gray-500 text-sm mt-1">
+              Playing as a guest.{" "}
+              <button
+                onClick={() => router.push("/login")}
+                className="text-rose-500 hover:underline cursor-pointer"
+              >
+                Create an account
+              </button>{" "}
+              to keep your progress across devices.
+            </p>
+          )}
         </div>
 
         {/* Level Card */}
@@ -290,6 +383,49 @@ export default function ProfilePage() {
           </div>
         )}
 
+        {/* Adaptive Difficulty */}
+        <div className="bg-white rounded-2xl shadow-md p-6 mb-5 slide-up-element">
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">
+            PRACTICE DIFFICULTY
+          </h2>
+          <label className="flex items-center justify-between text-sm text-gray-600 mb-4">
+            <span>Aim for turns that go well</span>
+            <select
+              value={user.difficultyProfile?.targetSuccessRate ?? DEFAULT_TARGET_SUCCESS_RATE}
+              onChange={(e) => updateTargetSuccessRate(Number(e.target.value))}
+              className="border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-700 focus:outline-none focus:border-rose-300"
+            >
+              {TARGET_SUCCESS_RATES.map((rate) => (
+                <option key={rate} value={rate}>
+                  {Math.round(rate * 100)}% of the time
+                </option>
+              ))}
+            </select>
+          </label>
+          {skillLevels ? (
+            <div className="space-y-2">
+              {DIFFICULTY_SKILLS.map((skill) => (
+                <div key={skill} className="flex items-center gap-3 text-sm">
+                  <span className="w-24 text-gray-600 capitalize">{skill}</span>
+                  <div className="flex-1 h-2 bg-rose-50 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-rose-400 rounded-full"
+                      style={{ width: `${skillLevels[skill] * 10}%` }}
+                    />
+                  </div>
+                  <span className="w-20 text-right text-xs text-gray-500">
+                    {getDifficultyLabel(skillLevels[skill])}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">
+              Finish a conversation to see how hard each skill is set.
+            </p>
+          )}
+        </div>
+
         {/* Conversation History */}
         <div className="bg-white rounded-2xl shadow-md p-6 mb-6 slide-up-element">
           <h2 className="text-lg font-semibold text-gray-800 mb-4">
@@ -303,75 +439,60 @@ export default function ProfilePage() {
             <div className="space-y-2">
               {conversations.slice(0, 10).map((convo) => {
                 const scenario = scenarios[convo.scenario];
+                const difficulty = parseDifficultyLevel(convo.difficulty);
                 return (
                   <div
                     key={convo._id}
-                    onClick={() => router.push(`/dashboard/${convo._id}`)}
+                    onClick={() =>
+                      router.push(
+                        convo.status === "active"
+                          ? getResumeUrl({ ...convo, difficulty })
+                          : convo.mode === "voice"
+                            ? `/dashboard/voice?convoId=${convo._id}`
+                            : `/dashboard/${convo._id}`
+                      )
+                    }
                     className="flex items-center justify-between p-3 rounded-xl hover:bg-rose-50 cursor-pointer transition-colors"
                   >
                     <div className="flex items-center gap-3">
-                      {scenario?.id === "planning_a_date" ? (
-                        <Image
-                          src="/scenarios/planning_a_date.png"
-                          alt={scenario.title}
-                          width={24}
-                          height={24}
-                          className="rounded"
-                        />
-                      ) : scenario?.id === "asking_someone_out" || scenario?.id === "making_new_friends" ? (
-                        <Image
-                          src={`/scenarios/${scenario.id}.png`}
-                          alt={scenario.title}
-                          width={24}
-                          height={24}
-                          className="rounded"
-                        />
-                      ) : scenario?.id === "resolving_misunderstanding" ? (
-                        <Image
-                          src="/scenarios/resolving_a_misunderstanding.png"
-                          alt={scenario.title}
-                          width={24}
-                          height={24}
-                          className="rounded"
-                        />
-                      ) : scenario?.id === "difficult_conversation" ? (
-                        <Image
-                          src="/scenarios/setting_boundaries.png"
-                          alt={scenario.title}
-                          width={24}
-                          height={24}
-                          className="rounded"
-                        />
-                      ) : scenario?.id === "practice_weaknesses" ? (
-                        <Image
-                          src="/scenarios/practice_your_weaknesses.png"
-                          alt={scenario.title}
-                          width={24}
-                          height={24}
-                          className="rounded"
-                        />
-                      ) : (
-                        <span className="text-xl">
-                          {scenario?.icon || "\u{1F4AC}"}
-                        </span>
-                      )}
+                      <ScenarioIcon scenario={scenario} size={24} emojiClassName="text-xl" />
                       <div>
                         <div className="text-sm font-medium text-gray-800">
                           {scenario?.title || convo.scenario}
                         </div>
-                        <div className="text-xs text-gray-400 capitalize">
-                          {convo.difficulty} {"\u00B7"} {convo.messages.length}{" "}
+                        <div className="text-xs text-gray-400">
+                          {getDifficultyLabel(difficulty)} {"\u00B7"} {convo.messages.length}{" "}
                           messages
                           {convo.analytics?.xpEarned &&
                             ` \u00B7 +${convo.analytics.xpEarned} XP`}
                         </div>
                       </div>
                     </div>
+                    {convo.status === "active" && (
+                      <span className="text-xs bg-emerald-50 text-emerald-600 px-2 py-1 rounded-full">
+                        Resume
+                      </span>
+                    )}
+                    {convo.status === "abandoned" && (
+                      <span className="text-xs bg-gray-100 text-gray-500 px-2 py-1 rounded-full">
+                        Unfinished
+                      </span>
+                    )}
                     {convo.analytics?.tone && (
                       <span className="text-xs bg-rose-100 text-rose-600 px-2 py-1 rounded-full capitalize">
                         {convo.analytics.tone}
                       </span>
                     )}
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteConversation(convo._id);
+                      }}
+                      aria-label="Delete conversation"
+                      className="ml-2 text-gray-300 hover:text-rose-500 transition-colors cursor-pointer"
+                    >
+                      {"\u2715"}
+                    </button>
                   </div>
                 );
               })}
@@ -379,6 +500,34 @@ export default function ProfilePage() {
           )}
         </div>
 
+        {/* Your Data */}
+        <div className="bg-white rounded-2xl shadow-md p-6 mb-6 slide-up-element">
+          <h2 className="text-lg font-semibold text-gray-800 mb-1">YOUR DATA</h2>
+          <p className="text-xs text-gray-400 mb-4">
+            Download your profile and every saved conversation, or delete them for good
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <a
+              href="/api/user/export?format=json"
+              className="text-sm bg-rose-50 text-rose-600 px-4 py-2 rounded-xl hover:bg-rose-100 transition-colors"
+            >
+              Download data (JSON)
+            </a>
+            <a
+              href="/api/user/export?format=transcript"
+              className="text-sm bg-rose-50 text-rose-600 px-4 py-2 rounded-xl hover:bg-rose-100 transition-colors"
+            >
+              Download transcripts
+            </a>
+            <button
+              onClick={deleteAccount}
+              className="text-sm text-gray-500 px-4 py-2 rounded-xl hover:text-rose-600 hover:bg-rose-50 transition-colors cursor-pointer"
+            >
+              Delete {user.email ? "account" : "profile"}
+            </button>
+          </div>
+        </div>
+
         <button
           onClick={() => router.push("/")}
           className="w-full bg-rose-500 text-white py-3 rounded-xl font-medium hover:bg-rose-600 transition-colors slide-up-element"
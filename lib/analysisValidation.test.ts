@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AnalysisParseError,
+  coerceEmotionalTone,
+  generateValidatedAnalysis,
+  validateConversationAnalysis,
+  validateTurnAnalysis,
+} from "./analysisValidation";
+import type { AnalysisModel } from "./llm";
+
+/**
+ * An analysis model that answers with each of `outputs` in turn
+ */
+function scriptedModel(outputs: string[]) {
+  const prompts: string[] = [];
+  const model: AnalysisModel = {
+    async generateJSON(prompt) {
+      prompts.push(prompt);
+      const output = outputs[prompts.length - 1];
+      if (output === undefined) throw new Error("Model called too many times");
+      return output;
+    },
+  };
+  return { model, prompts };
+}
+
+describe("validateConversationAnalysis", () => {
+  it("clamps scores to 0-100 and reads fractions and percentages", () => {
+    const { value, defaultedFields } = validateConversationAnalysis({
+      tone: "Warm and friendly",
+      engagement: 150,
+      initiative: -5,
+      empathy: 0.8,
+      clarity: "75%",
+      confidence: 62.4,
+      suggestions: ["Ask more questions"],
+      summary: "Nice work.",
+    });
+
+    expect(value.engagement).toBe(100);
+    expect(value.initiative).toBe(0);
+    expect(value.empathy).toBe(80);
+    expect(value.clarity).toBe(75);
+    expect(value.confidence).toBe(62);
+    expect(value.tone).toBe("warm");
+    expect(defaultedFields).toEqual([]);
+  });
+
+  it("defaults missing or unusable fields and reports them", () => {
+    const { value, defaultedFields } = validateConversationAnalysis({
+      engagement: "lots",
+      suggestions: ["", 3],
+    });
+
+    expect(value.engagement).toBe(50);
+    expect(value.tone).toBe("neutral");
+    expect(value.suggestions).toEqual([]);
+    expect(defaultedFields).toEqual(
+      expect.arrayContaining(["engagement", "tone", "suggestions", "summary", "clarity"])
+    );
+  });
+
+  it("keeps at most five suggestions", () => {
+    const { value } = validateConversationAnalysis({
+      suggestions: ["a", "b", "c", "d", "e", "f", "g"],
+    });
+    expect(value.suggestions).toEqual(["a", "b", "c", "d", "e"]);
+  });
+});
+
+describe("validateTurnAnalysis", () => {
+  it("coerces tones and booleans", () => {
+    const { value, defaultedFields } = validateTurnAnalysis({
+      tone: "Frustrated",
+      userWasPassive: "true",
+      userShowedEmpathy: false,
+      missedOpportunity: "  ",
+    });
+
+    expect(value).toEqual({
+      tone: "annoyed",
+      userWasPassive: true,
+      userShowedEmpathy: false,
+      missedOpportunity: undefined,
+      strengthDisplayed: undefined,
+    });
+    expect(defaultedFields).toEqual([]);
+  });
+
+  it("falls back to neutral for unknown tones", () => {
+    expect(coerceEmotionalTone("bewildered")).toBeNull();
+    const { value, defaultedFields } = validateTurnAnalysis({ tone: "bewildered" });
+    expect(value.tone).toBe("neutral");
+    expect(defaultedFields).toEqual(["tone", "userWasPassive", "userShowedEmpathy"]);
+  });
+});
+
+describe("generateValidatedAnalysis", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("accepts fenced JSON without retrying", async () => {
+    const { model, prompts } = scriptedModel(['```json\n{"tone": "sad", "userWasPassive": false}\n```']);
+    const result = await generateValidatedAnalysis(model, "prompt", validateTurnAnalysis);
+
+    expect(result.retried).toBe(false);
+    expect(result.value.tone).toBe("sad");
+    expect(prompts).toHaveLength(1);
+  });
+
+  it("retries once with a corrective prompt when the output does not parse", async () => {
+    const { model, prompts } = scriptedModel([
+      "Sure! Here is the analysis: {tone: warm",
+      '{"tone": "warm", "userWasPassive": true, "userShowedEmpathy": true}',
+    ]);
+    const result = await generateValidatedAnalysis(model, "Analyze this", validateTurnAnalysis);
+
+    expect(result.retried).toBe(true);
+    expect(result.value.userWasPassive).toBe(true);
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain("Analyze this");
+    expect(prompts[1]).toContain("Sure! Here is the analysis: {tone: warm");
+    expect(prompts[1]).toContain("could not be parsed as JSON");
+  });
+
+  it("retries when none of the requested fields are present", async () => {
+    const { model, prompts } = scriptedModel([
+      "{}",
+      '{"tone": "warm", "engagement": 70, "summary": "Good chat."}',
+    ]);
+    const result = await generateValidatedAnalysis(model, "Analyze this", validateConversationAnalysis);
+
+    expect(result.retried).toBe(true);
+    expect(result.value.engagement).toBe(70);
+    expect(prompts[1]).toContain("did not contain any of the requested fields");
+  });
+
+  it("fails rather than returning only defaults", async () => {
+    const { model, prompts } = scriptedModel(["{}", '{"unrelated": true}']);
+
+    await expect(
+      generateValidatedAnalysis(model, "prompt", validateConversationAnalysis)
+    ).rejects.toBeInstanceOf(AnalysisParseError);
+    expect(prompts).toHaveLength(2);
+  });
+
+  it("gives up after the single retry", async () => {
+    const { model, prompts } = scriptedModel(["not json", "still not json"]);
+
+    await expect(
+      generateValidatedAnalysis(model, "prompt", validateConversationAnalysis)
+    ).rejects.toBeInstanceOf(AnalysisParseError);
+    expect(prompts).toHaveLength(2);
+  });
+});
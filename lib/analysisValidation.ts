@@ -0,0 +1,295 @@
+/**
+ * Analysis Output Validation
+ * Validates and repairs JSON returned by the analysis model before it is
+ * stored or used to award XP
+ */
+
+import { AnalysisModel } from "./llm";
+import { EmotionalTone, TONE_MAPPINGS } from "./toneToVoiceSettings";
+
+export interface ValidationResult<T> {
+  value: T;
+  defaultedFields: string[]; // Fields that were missing or invalid and got a default
+}
+
+export interface ConversationAnalysis {
+  tone: string;
+  engagement: number;
+  initiative: number;
+  empathy: number;
+  clarity: number;
+  confidence: number;
+  suggestions: string[];
+  summary: string;
+}
+
+export interface TurnAnalysis {
+  tone: EmotionalTone;
+  userWasPassive: boolean;
+  userShowedEmpathy: boolean;
+  missedOpportunity?: string;
+  strengthDisplayed?: string;
+}
+
+export class AnalysisParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AnalysisParseError";
+  }
+}
+
+const DEFAULT_SCORE = 50;
+const MAX_SUGGESTIONS = 5;
+
+// Common model outputs that are not in the EmotionalTone union
+const TONE_SYNONYMS: Record<string, EmotionalTone> = {
+  happy: "excited",
+  enthusiastic: "excited",
+  friendly: "warm",
+  kind: "warm",
+  caring: "supportive",
+  encouraging: "supportive",
+  empathetic: "supportive",
+  loving: "romantic",
+  affectionate: "romantic",
+  teasing: "playful",
+  amused: "playful",
+  anxious: "nervous",
+  awkward: "nervous",
+  hesitant: "shy",
+  timid: "shy",
+  uncertain: "confused",
+  puzzled: "confused",
+  irritated: "annoyed",
+  frustrated: "annoyed",
+  upset: "hurt",
+  wounded: "hurt",
+  mad: "angry",
+  furious: "angry",
+  indifferent: "distant",
+  detached: "distant",
+  guarded: "defensive",
+  unhappy: "sad",
+  melancholy: "sad",
+  calm: "neutral",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value.replace(/%$/, ""));
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return null;
+}
+
+function toBoolean(value: unknown): boolean | null {
+  if (typeof value === "boolean") return value;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return null;
+}
+
+function toNonEmptyString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+}
+
+/**
+ * Clamp a 0-100 score, treating 0-1 fractions as percentages
+ */
+function clampScore(value: number): number {
+  const scaled = value > 0 && value <= 1 && !Number.isInteger(value) ? value * 100 : value;
+  return Math.max(0, Math.min(100, Math.round(scaled)));
+}
+
+/**
+ * Coerce a free-form tone to the EmotionalTone union, or null if unknown
+ */
+export function coerceEmotionalTone(value: unknown): EmotionalTone | null {
+  const tone = toNonEmptyString(value)?.toLowerCase();
+  if (!tone) return null;
+  if (tone in TONE_MAPPINGS) return tone as EmotionalTone;
+  if (TONE_SYNONYMS[tone]) return TONE_SYNONYMS[tone];
+
+  // "warm and playful" -> first recognised word
+  for (const word of tone.split(/[^a-z]+/)) {
+    if (word in TONE_MAPPINGS) return word as EmotionalTone;
+    if (TONE_SYNONYMS[word]) return TONE_SYNONYMS[word];
+  }
+  return null;
+}
+
+/**
+ * Validate conversation-level analytics from /api/analyze
+ */
+export function validateConversationAnalysis(
+  raw: unknown
+): ValidationResult<ConversationAnalysis> {
+  const data = isRecord(raw) ? raw : {};
+  const defaultedFields: string[] = [];
+
+  const score = (field: keyof ConversationAnalysis): number => {
+    const value = toNumber(data[field]);
+    if (value === null) {
+      defaultedFields.push(field);
+      return DEFAULT_SCORE;
+    }
+    return clampScore(value);
+  };
+
+  let tone = toNonEmptyString(data.tone)?.toLowerCase().split(/\s+/)[0];
+  if (!tone) {
+    defaultedFields.push("tone");
+    tone = "neutral";
+  }
+
+  let suggestions: string[] = [];
+  if (Array.isArray(data.suggestions)) {
+    suggestions = data.suggestions
+      .map(toNonEmptyString)
+      .filter((s): s is string => s !== null)
+      .slice(0, MAX_SUGGESTIONS);
+  }
+  if (suggestions.length === 0) {
+    defaultedFields.push("suggestions");
+  }
+
+  let summary = toNonEmptyString(data.summary);
+  if (!summary) {
+    defaultedFields.push("summary");
+    summary = "";
+  }
+
+  return {
+    value: {
+      tone,
+      engagement: score("engagement"),
+      initiative: score("initiative"),
+      empathy: score("empathy"),
+      clarity: score("clarity"),
+      confidence: score("confidence"),
+      suggestions,
+      summary,
+    },
+    defaultedFields,
+  };
+}
+
+/**
+ * Validate per-turn notes from /api/voice/chat
+ */
+export function validateTurnAnalysis(raw: unknown): ValidationResult<TurnAnalysis> {
+  const data = isRecord(raw) ? raw : {};
+  const defaultedFields: string[] = [];
+
+  let tone = coerceEmotionalTone(data.tone);
+  if (!tone) {
+    defaultedFields.push("tone");
+    tone = "neutral";
+  }
+
+  let userWasPassive = toBoolean(data.userWasPassive);
+  if (userWasPassive === null) {
+    defaultedFields.push("userWasPassive");
+    userWasPassive = false;
+  }
+
+  let userShowedEmpathy = toBoolean(data.userShowedEmpathy);
+  if (userShowedEmpathy === null) {
+    defaultedFields.push("userShowedEmpathy");
+    userShowedEmpathy = false;
+  }
+
+  // Optional fields: absent is fine, so they are never reported as defaulted
+  return {
+    value: {
+      tone,
+      userWasPassive,
+      userShowedEmpathy,
+      missedOpportunity: toNonEmptyString(data.missedOpportunity) ?? undefined,
+      strengthDisplayed: toNonEmptyString(data.strengthDisplayed) ?? undefined,
+    },
+    defaultedFields,
+  };
+}
+
+/**
+ * Parse model output as JSON, tolerating markdown code fences
+ */
+function parseModelJSON(text: string): unknown {
+  const unfenced = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  return JSON.parse(unfenced);
+}
+
+// Output that parsed but had nothing usable in it
+class EmptyAnalysisError extends Error {
+  constructor() {
+    super("none of the requested fields were present");
+    this.name = "EmptyAnalysisError";
+  }
+}
+
+/**
+ * Validate parsed output, failing when nothing in it was usable: every
+ * field the validator checks had to be defaulted, as for an empty object
+ */
+function validateUsable<T>(
+  text: string,
+  validate: (raw: unknown) => ValidationResult<T>
+): ValidationResult<T> {
+  const result = validate(parseModelJSON(text));
+  const fieldCount = validate(null).defaultedFields.length;
+  if (fieldCount > 0 && result.defaultedFields.length >= fieldCount) {
+    throw new EmptyAnalysisError();
+  }
+  return result;
+}
+
+/**
+ * Generate JSON with the analysis model and validate it.
+ * If the output does not parse, or has none of the requested fields,
+ * retries once with a corrective prompt; throws AnalysisParseError if the
+ * retry fails too.
+ */
+export async function generateValidatedAnalysis<T>(
+  model: AnalysisModel,
+  prompt: string,
+  validate: (raw: unknown) => ValidationResult<T>
+): Promise<ValidationResult<T> & { retried: boolean }> {
+  const firstText = await model.generateJSON(prompt);
+  try {
+    return { ...validateUsable(firstText, validate), retried: false };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.warn("Analysis output was not usable, retrying:", reason);
+
+    const problem =
+      error instanceof EmptyAnalysisError
+        ? "did not contain any of the requested fields"
+        : `could not be parsed as JSON (${reason})`;
+    const correctivePrompt = `${prompt}
+
+Your previous response ${problem}. It was:
+${firstText.slice(0, 2000)}
+
+Respond again with ONLY the JSON object in the exact structure requested: no markdown, no comments, no extra text.`;
+
+    const secondText = await model.generateJSON(correctivePrompt);
+    try {
+      return { ...validateUsable(secondText, validate), retried: true };
+    } catch (retryError) {
+      const retryReason =
+        retryError instanceof Error ? retryError.message : String(retryError);
+      throw new AnalysisParseError(
+        `Analysis model returned unusable output twice: ${retryReason}`
+      );
+    }
+  }
+}
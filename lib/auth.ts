@@ -0,0 +1,280 @@
+/**
+ * Accounts and Sessions
+ * Email/password and magic-link sign-in on top of the anonymous visitorId,
+ * cookie-backed sessions, and the one-time claim that merges an anonymous
+ * visitor's progress into an account
+ */
+
+import crypto from "crypto";
+import { promisify } from "util";
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "./mongodb";
+import User, { IUser } from "./models/User";
+import Session from "./models/Session";
+import LoginToken from "./models/LoginToken";
+import Conversation from "./models/Conversation";
+import { calculateLevel } from "./levels";
+
+export const SESSION_COOKIE = "cuepid-session";
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000; // 15 minutes
+const MIN_PASSWORD_LENGTH = 8;
+const SCRYPT_KEY_LENGTH = 64;
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+export class AuthError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export interface ClaimResult {
+  user: IUser;
+  claimed: boolean; // False if there was no anonymous visitor to merge
+  conversationsMoved: number;
+}
+
+// --- Credentials ---
+
+export function normalizeEmail(email: unknown): string {
+  const normalized = typeof email === "string" ? email.trim().toLowerCase() : "";
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized)) {
+    throw new AuthError("Please enter a valid email address");
+  }
+  return normalized;
+}
+
+export function validatePassword(password: unknown): string {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  return password;
+}
+
+/**
+ * Hash a password as "scrypt:<salt>:<hash>" (hex)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt:${salt.toString("hex")}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split(":");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scrypt(password, Buffer.from(saltHex, "hex"), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+export function generateToken(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// --- Sessions ---
+
+export async function createSession(userId: IUser["_id"]): Promise<{ token: string; expiresAt: Date }> {
+  await dbConnect();
+  const token = generateToken();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  await Session.create({ tokenHash: hashToken(token), userId, expiresAt });
+  return { token, expiresAt };
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, "", { httpOnly: true, path: "/", maxAge: 0 });
+}
+
+/**
+ * Sign a user in: create a session and return a JSON response carrying its cookie
+ */
+export async function sessionResponse(user: IUser, body: Record<string, unknown> = {}) {
+  const { token, expiresAt } = await createSession(user._id);
+  const response = NextResponse.json({ user, ...body });
+  setSessionCookie(response, token, expiresAt);
+  return response;
+}
+
+/**
+ * The signed-in account for this request, or null
+ */
+export async function getSessionUser(req: NextRequest): Promise<IUser | null> {
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  await dbConnect();
+  const session = await Session.findOne({
+    tokenHash: hashToken(token),
+    expiresAt: { $gt: new Date() },
+  });
+  if (!session) return null;
+
+  return User.findById(session.userId);
+}
+
+export async function destroySession(req: NextRequest) {
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return;
+
+  await dbConnect();
+  await Session.deleteOne({ tokenHash: hashToken(token) });
+}
+
+// --- Magic links ---
+
+/**
+ * Create a single-use sign-in token for an email address
+ */
+export async function createMagicLinkToken(email: string): Promise<string> {
+  await dbConnect();
+  const token = generateToken();
+  await LoginToken.create({
+    tokenHash: hashToken(token),
+    email,
+    expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MS),
+  });
+  return token;
+}
+
+/**
+ * Consume a magic-link token, returning its email if it was valid
+ */
+export async function consumeMagicLinkToken(token: string): Promise<string | null> {
+  await dbConnect();
+  // Deleting on read makes the link single-use even under concurrent clicks
+  const loginToken = await LoginToken.findOneAndDelete({
+    tokenHash: hashToken(token),
+    expiresAt: { $gt: new Date() },
+  });
+  return loginToken?.email ?? null;
+}
+
+/**
+ * The account for an email address the caller has just proven they own,
+ * created on first use. Signing up never proves the address, so an
+ * unverified account may have been registered by someone else: its first
+ * verification removes the password and signs out its sessions, leaving it
+ * to whoever owns the inbox.
+ */
+export async function findOrCreateVerifiedAccount(email: string): Promise<IUser> {
+  await dbConnect();
+  const unverified: IUser | null = await User.findOneAndUpdate(
+    { email, emailVerified: { $ne: true } },
+    { $set: { emailVerified: true }, $unset: { passwordHash: "" } },
+    { returnDocument: "after" }
+  );
+  if (unverified) {
+    await Session.deleteMany({ userId: unverified._id });
+    return unverified;
+  }
+
+  return User.findOneAndUpdate(
+    { email },
+    { $setOnInsert: { visitorId: crypto.randomUUID(), emailVerified: true } },
+    { upsert: true, returnDocument: "after" }
+  );
+}
+
+// --- Claiming anonymous progress ---
+
+/**
+ * Look up an anonymous (not yet signed up) visitor
+ */
+export async function findAnonymousUser(visitorId: unknown): Promise<IUser | null> {
+  if (typeof visitorId !== "string" || !visitorId) return null;
+  await dbConnect();
+  return User.findOne({ visitorId, email: null });
+}
+
+function mergeVoiceMetrics(account: IUser, anonymous: IUser): IUser["avgVoiceMetrics"] {
+  const a = account.avgVoiceMetrics;
+  const b = anonymous.avgVoiceMetrics;
+  if (!a || !b) return a ?? b;
+
+  // Weight each side by how many voice conversations produced it
+  const weightA = Math.max(account.voiceConversationCount, 1);
+  const weightB = Math.max(anonymous.voiceConversationCount, 1);
+  const average = (x: number, y: number) =>
+    Math.round(((x || 0) * weightA + (y || 0) * weightB) / (weightA + weightB));
+
+  return {
+    wpm: average(a.wpm, b.wpm),
+    fillerFrequency: average(a.fillerFrequency, b.fillerFrequency),
+    confidenceScore: average(a.confidenceScore, b.confidenceScore),
+    empathyScore: average(a.empathyScore, b.empathyScore),
+    initiativeScore: average(a.initiativeScore, b.initiativeScore),
+  };
+}
+
+/**
+ * Merge an anonymous visitor's User document and Conversations into an account.
+ * The anonymous document is deleted, so each visitor can only be claimed once.
+ */
+export async function claimAnonymousUser(account: IUser, visitorId: unknown): Promise<ClaimResult> {
+  if (typeof visitorId !== "string" || !visitorId || visitorId === account.visitorId) {
+    return { user: account, claimed: false, conversationsMoved: 0 };
+  }
+
+  await dbConnect();
+  // Remove first so two concurrent claims cannot both merge the same progress
+  const anonymous: IUser | null = await User.findOneAndDelete({ visitorId, email: null });
+  if (!anonymous) {
+    return { user: account, claimed: false, conversationsMoved: 0 };
+  }
+
+  const { modifiedCount } = await Conversation.updateMany(
+    { userId: visitorId },
+    { $set: { userId: account.visitorId } }
+  );
+
+  account.xp += anonymous.xp;
+  account.level = calculateLevel(account.xp);
+  account.conversationCount += anonymous.conversationCount;
+  account.avgVoiceMetrics = mergeVoiceMetrics(account, anonymous);
+  account.voiceConversationCount += anonymous.voiceConversationCount;
+
+  // Strengths and weaknesses come from the latest analysis, so keep the newer set
+  if (anonymous.updatedAt > account.updatedAt || account.strengths.length === 0) {
+    account.strengths = anonymous.strengths;
+    account.weaknesses = anonymous.weaknesses;
+  }
+
+  account.claimedVisitorIds = [...account.claimedVisitorIds, visitorId];
+  await account.save();
+
+  return { user: account, claimed: true, conversationsMoved: modifiedCount };
+}
+
+/**
+ * JSON error response for auth failures
+ */
+export function authErrorResponse(error: unknown, fallback: string): Response {
+  if (error instanceof AuthError) {
+    return Response.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`${fallback}:`, error);
+  return Response.json({ error: fallback }, { status: 500 });
+}
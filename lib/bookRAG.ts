@@ -0,0 +1,174 @@
+/**
+ * Book RAG Retrieval
+ * Answers free-text queries with the most relevant passages from the
+ * ingested knowledge index, each with a citation that can be shown to the
+ * user or quoted in a system prompt
+ */
+
+import { getEmbedder } from "./embeddings";
+import { DEFAULT_INDEX_PATH, VectorItemMetadata, loadIndex, queryIndex } from "./vectorstore";
+import type { IMessagePassage } from "./models/Conversation";
+
+export interface Passage {
+  text: string;
+  source: string;
+  title: string;
+  page?: number;
+  score: number;
+  citation: string; // e.g. "Reducing Filler Words (fillers.md)" or "Well Said!, p. 12"
+}
+
+export interface RetrieveOptions {
+  topK?: number;
+  minScore?: number;
+  tags?: string[]; // Only passages from sources under one of these folders
+  includeUntagged?: boolean; // With tags, also allow sources at the top level
+  indexPath?: string;
+}
+
+// Hashing vectors score lower than model embeddings, so keep the floor modest
+const DEFAULT_MIN_SCORE = 0.1;
+
+// Chat turns are short, so they overlap less with any passage than a
+// descriptive advice query does
+const CHAT_MIN_SCORE = 0.05;
+
+const EXCERPT_LENGTH = 240;
+
+export function formatCitation(metadata: Pick<VectorItemMetadata, "title" | "source" | "page">): string {
+  return metadata.page !== undefined
+    ? `${metadata.title}, p. ${metadata.page}`
+    : `${metadata.title} (${metadata.source})`;
+}
+
+/**
+ * Retrieve passages for a query. Returns an empty list (rather than
+ * throwing) when nothing has been ingested, or when the index was built with
+ * a different embedder than the one currently configured.
+ */
+export async function retrievePassages(
+  query: string,
+  options: RetrieveOptions = {}
+): Promise<Passage[]> {
+  const {
+    topK = 3,
+    minScore = DEFAULT_MIN_SCORE,
+    tags,
+    includeUntagged = false,
+    indexPath = DEFAULT_INDEX_PATH,
+  } = options;
+  if (!query.trim()) return [];
+
+  const index = await loadIndex(indexPath);
+  if (index.items.length === 0) return [];
+
+  const embedder = getEmbedder();
+  if (index.embedder !== embedder.name) {
+    console.warn(
+      `Knowledge index was built with ${index.embedder} but ${embedder.name} is configured; run \`npm run ingest\``
+    );
+    return [];
+  }
+
+  const [vector] = await embedder.embed([query]);
+  const results = queryIndex(index, vector, {
+    topK,
+    minScore,
+    filter: tags?.length
+      ? (metadata) =>
+          (includeUntagged && metadata.tags.length === 0) ||
+          metadata.tags.some((tag) => tags.includes(tag))
+      : undefined,
+  });
+
+  return results.map(({ item, score }) => ({
+    text: item.metadata.text,
+    source: item.metadata.source,
+    title: item.metadata.title,
+    ...(item.metadata.page !== undefined && { page: item.metadata.page }),
+    score,
+    citation: formatCitation(item.metadata),
+  }));
+}
+
+/**
+ * Numbered passages for a system prompt, so the model can cite them as [1], [2]
+ */
+export function formatPassagesForPrompt(
+  passages: Passage[],
+  heading: string = "REFERENCE MATERIAL (cite as [1], [2], ... when you draw on it):"
+): string {
+  if (passages.length === 0) return "";
+
+  const body = passages
+    .map((passage, i) => `[${i + 1}] ${passage.citation}\n${passage.text}`)
+    .join("\n\n");
+  return `${heading}\n\n${body}`;
+}
+
+/**
+ * Partner replies ground themselves in retrieved research unless
+ * CHAT_RETRIEVAL=off. With an empty index retrieval is a no-op anyway.
+ */
+export function isChatRetrievalEnabled(): boolean {
+  return (process.env.CHAT_RETRIEVAL || "on").toLowerCase() !== "off";
+}
+
+/**
+ * Passages relevant to the partner's next reply: the user's latest message
+ * plus the partner's previous line, from sources for the scenario category
+ * or general (top-level) sources. Never throws; a failed lookup just means
+ * an ungrounded reply.
+ */
+export async function retrieveForChatTurn(turn: {
+  userMessage: string;
+  previousReply?: string;
+  category: string;
+}): Promise<Passage[]> {
+  if (!isChatRetrievalEnabled()) return [];
+
+  const query = [turn.previousReply, turn.userMessage].filter(Boolean).join("\n");
+  try {
+    return await retrievePassages(query, {
+      topK: 2,
+      minScore: CHAT_MIN_SCORE,
+      tags: [turn.category],
+      includeUntagged: true,
+    });
+  } catch (error) {
+    console.error("Chat retrieval failed:", error);
+    return [];
+  }
+}
+
+/**
+ * System prompt section for a role-play partner. Unlike advice, the partner
+ * must stay in character, so the research shapes reactions without being cited.
+ */
+export function formatPassagesForPartner(passages: Passage[]): string {
+  if (passages.length === 0) return "";
+
+  return `\n\n${formatPassagesForPrompt(
+    passages,
+    "RELATIONSHIP RESEARCH (let this shape how you react to the user, the way a real person would respond; stay in character and never quote, cite or mention it):"
+  )}`;
+}
+
+/**
+ * What gets stored on the partner's message, so the dashboard can show
+ * which passages informed it
+ */
+export function toMessagePassages(passages: Passage[]): IMessagePassage[] {
+  return passages.map((passage) => {
+    const text = passage.text.replace(/^#.*$/gm, "").trim();
+    return {
+      citation: passage.citation,
+      source: passage.source,
+      excerpt:
+        text.length > EXCERPT_LENGTH
+          ? `${text.slice(0, EXCERPT_LENGTH).replace(/\s+\S*$/, "")}...`
+          : text,
+      score: Math.round(passage.score * 100) / 100,
+    };
+  });
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { ABANDON_AFTER_MS, getConversationStatus } from "./conversationSession";
+
+describe("getConversationStatus", () => {
+  const now = Date.parse("2026-01-02T00:00:00Z");
+
+  it("counts an active conversation idle past ABANDON_AFTER_MS as abandoned", () => {
+    const updatedAt = new Date(now - ABANDON_AFTER_MS - 1);
+    expect(getConversationStatus({ status: "active", updatedAt }, now)).toBe("abandoned");
+  });
+
+  it("keeps recently active conversations active", () => {
+    const updatedAt = new Date(now - ABANDON_AFTER_MS + 60_000);
+    expect(getConversationStatus({ status: "active", updatedAt }, now)).toBe("active");
+  });
+
+  it("leaves ended conversations ended, however old", () => {
+    expect(getConversationStatus({ status: "ended", updatedAt: new Date(0) }, now)).toBe("ended");
+  });
+});
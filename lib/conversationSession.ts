@@ -0,0 +1,83 @@
+/**
+ * Conversation Sessions
+ * Conversations are saved as they happen: created when the partner's first
+ * message appears, appended to after every turn and marked ended when the
+ * user asks for their analysis. One left without ending can be resumed from
+ * the profile page until it has been idle for ABANDON_AFTER_MS, after which
+ * it counts as abandoned, whether or not a sweep has marked it yet.
+ *
+ * Shared by the API routes, the model and the chat pages, so this file must
+ * stay free of server-only imports.
+ */
+
+import { PartnerGender, parsePartnerGender } from "./toneToVoiceSettings";
+import { SessionTemplateValues, sanitizeSessionValues } from "./promptTemplate";
+import { sanitizeEventSeed } from "./eventInjector";
+
+export const CONVERSATION_STATUSES = ["active", "ended", "abandoned"] as const;
+export type ConversationStatus = (typeof CONVERSATION_STATUSES)[number];
+
+export const ABANDON_AFTER_MS = 24 * 60 * 60 * 1000; // 1 day
+
+const MAX_WEAKNESSES = 10;
+
+// What the chat page was opened with, so a resumed session picks up the
+// same partner, personalization and event rolls
+export interface ConversationSetup {
+  gender: PartnerGender;
+  weaknesses: string[];
+  variables: SessionTemplateValues;
+  eventSeed: string;
+}
+
+/**
+ * A setup as sent by a client, with anything malformed replaced
+ */
+export function restoreConversationSetup(raw: unknown): ConversationSetup {
+  const data = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  return {
+    gender: parsePartnerGender(data.gender),
+    weaknesses: Array.isArray(data.weaknesses)
+      ? data.weaknesses
+          .filter((w): w is string => typeof w === "string" && w.length > 0 && w.length <= 50)
+          .slice(0, MAX_WEAKNESSES)
+      : [],
+    variables: sanitizeSessionValues(data.variables),
+    eventSeed: sanitizeEventSeed(data.eventSeed),
+  };
+}
+
+/**
+ * A conversation's status as it stands now: one still marked active that
+ * has been idle for ABANDON_AFTER_MS is abandoned
+ */
+export function getConversationStatus(
+  conversation: { status: ConversationStatus; updatedAt?: Date | null },
+  now: number = Date.now()
+): ConversationStatus {
+  const idleSince = conversation.updatedAt ? new Date(conversation.updatedAt).getTime() : now;
+  return conversation.status === "active" && now - idleSince > ABANDON_AFTER_MS
+    ? "abandoned"
+    : conversation.status;
+}
+
+/**
+ * The chat page URL that picks an active conversation back up
+ */
+export function getResumeUrl(conversation: {
+  _id: string;
+  scenario: string;
+  mode: "text" | "voice";
+  difficulty: number;
+  setup?: ConversationSetup | null;
+}): string {
+  const params = new URLSearchParams({ resume: conversation._id, difficulty: String(conversation.difficulty) });
+  const setup = conversation.setup;
+  if (setup) {
+    params.set("gender", setup.gender);
+    if (setup.weaknesses.length) params.set("weaknesses", setup.weaknesses.join(","));
+    if (Object.keys(setup.variables).length) params.set("vars", JSON.stringify(setup.variables));
+  }
+  const path = `/chat/${conversation.scenario}${conversation.mode === "voice" ? "/voice" : ""}`;
+  return `${path}?${params}`;
+}
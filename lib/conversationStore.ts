@@ -0,0 +1,223 @@
+/**
+ * Conversation Store
+ * The server's copy of a conversation is the one that counts: the chat
+ * routes load the history from here rather than trusting what the browser
+ * sends. Each turn is claimed before its reply is generated, then the
+ * user's message and the partner's reply are appended in one atomic update
+ * once the reply exists.
+ */
+
+import { NextRequest } from "next/server";
+import dbConnect from "./mongodb";
+import Conversation, { IConversation, IMessage, IVoiceMetrics } from "./models/Conversation";
+import { getRequestIdentity } from "./identity";
+import { Scenario } from "./scenarios";
+import type { ScenarioProgress } from "./scenarioProgress";
+import type { DifficultyState } from "./difficultyController";
+import {
+  ABANDON_AFTER_MS,
+  ConversationSetup,
+  getConversationStatus,
+  restoreConversationSetup,
+} from "./conversationSession";
+import { renderTemplate, resolveTemplateValues } from "./promptTemplate";
+
+export class ConversationError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400
+  ) {
+    super(message);
+    this.name = "ConversationError";
+  }
+}
+
+export interface ConversationTurn {
+  userMessage: IMessage;
+  reply: IMessage;
+  difficulty: number; // Level after the turn
+  difficultyState: DifficultyState;
+  progress: ScenarioProgress | null;
+  voiceMetrics?: IVoiceMetrics; // Voice turns also feed the metrics history
+}
+
+// A claim this old belongs to a reply that was never saved (the server
+// restarted mid-reply, say) and no longer blocks the next turn
+const TURN_CLAIM_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * The caller's active conversation, or a ConversationError saying why not
+ */
+export async function loadActiveConversation(req: NextRequest, id: unknown): Promise<IConversation> {
+  if (typeof id !== "string" || !/^[a-f0-9]{24}$/i.test(id)) {
+    throw new ConversationError("conversationId is required");
+  }
+
+  const identity = await getRequestIdentity(req);
+  if (!identity) {
+    throw new ConversationError("Not signed in", 401);
+  }
+
+  await dbConnect();
+  const conversation = await Conversation.findById(id);
+  if (!conversation) {
+    throw new ConversationError("Conversation not found", 404);
+  }
+  if (conversation.userId !== identity.visitorId) {
+    throw new ConversationError("Forbidden", 403);
+  }
+  const status = getConversationStatus(conversation);
+  if (status !== "active") {
+    throw new ConversationError(`Conversation is ${status}`, 409);
+  }
+  return conversation;
+}
+
+/**
+ * What the conversation was started with; conversations saved before
+ * setups were stored get the defaults
+ */
+export function getConversationSetup(conversation: IConversation): ConversationSetup {
+  return restoreConversationSetup(conversation.setup);
+}
+
+/**
+ * The partner's opening message for a session, as the chat pages show it
+ */
+export function renderStarterMessage(scenario: Scenario, setup: ConversationSetup): string {
+  return renderTemplate(
+    scenario.starterMessage,
+    resolveTemplateValues(scenario, {
+      values: setup.variables,
+      gender: setup.gender,
+      weaknesses: setup.weaknesses,
+    })
+  );
+}
+
+/**
+ * Claim the conversation for the next turn, before any of the reply is
+ * generated. Fails with a 409 if another turn was appended since it was
+ * loaded or is being replied to now (a second tab, a double submit), so
+ * the user is never shown a reply that then can't be saved. Resolves to
+ * the claim that appendConversationTurn and releaseConversationTurn take.
+ */
+export async function claimConversationTurn(conversation: IConversation): Promise<Date> {
+  const claimedAt = new Date();
+  const claimed = await Conversation.findOneAndUpdate(
+    {
+      _id: conversation._id,
+      status: "active",
+      messages: { $size: conversation.messages.length },
+      $or: [
+        { pendingTurnAt: null },
+        { pendingTurnAt: { $lt: new Date(claimedAt.getTime() - TURN_CLAIM_TIMEOUT_MS) } },
+      ],
+    },
+    { $set: { pendingTurnAt: claimedAt } },
+    { timestamps: false }
+  );
+  if (!claimed) {
+    throw new ConversationError("Another reply is still being written; reload the conversation to continue", 409);
+  }
+  return claimedAt;
+}
+
+/**
+ * Append a claimed turn to the conversation as it was loaded, releasing
+ * the claim. Fails with a 409 if the claim was lost in the meantime.
+ */
+export async function appendConversationTurn(
+  conversation: IConversation,
+  claimedAt: Date,
+  turn: ConversationTurn
+) {
+  const updated = await Conversation.findOneAndUpdate(
+    {
+      _id: conversation._id,
+      status: "active",
+      pendingTurnAt: claimedAt,
+      messages: { $size: conversation.messages.length },
+    },
+    {
+      $push: {
+        messages: { $each: [turn.userMessage, turn.reply] },
+        ...(turn.voiceMetrics && { voiceMetricsHistory: turn.voiceMetrics }),
+      },
+      $set: {
+        difficulty: turn.difficulty,
+        difficultyState: turn.difficultyState,
+        progress: turn.progress,
+        pendingTurnAt: null,
+      },
+    },
+    { returnDocument: "after", runValidators: true }
+  );
+  if (!updated) {
+    throw new ConversationError("The conversation changed while replying; reload it to continue", 409);
+  }
+  return updated;
+}
+
+/**
+ * Give up a claim whose turn won't be saved, so the user can try again
+ * straight away. Never throws: a claim left behind expires on its own.
+ */
+export async function releaseConversationTurn(conversation: IConversation, claimedAt: Date) {
+  try {
+    await Conversation.updateOne(
+      { _id: conversation._id, pendingTurnAt: claimedAt },
+      { $set: { pendingTurnAt: null } },
+      { timestamps: false }
+    );
+  } catch (error) {
+    console.error("Failed to release conversation turn:", error);
+  }
+}
+
+/**
+ * Mark conversations left active for ABANDON_AFTER_MS as abandoned (all of
+ * them, or only those matching `filter`). Those that never got past the
+ * partner's first message hold nothing to keep, so they're deleted. Runs
+ * when a user starts a conversation and from the scheduled purge job, never
+ * on a read; reads go by getConversationStatus until then.
+ */
+export async function abandonStaleConversations(
+  filter: { userId?: string } = {},
+  options: { dryRun?: boolean } = {}
+): Promise<{ deleted: number; abandoned: number }> {
+  await dbConnect();
+  const stale = {
+    ...filter,
+    status: "active",
+    updatedAt: { $lt: new Date(Date.now() - ABANDON_AFTER_MS) },
+  };
+  const empty = { ...stale, "messages.1": { $exists: false } };
+
+  if (options.dryRun) {
+    const [total, deleted] = await Promise.all([
+      Conversation.countDocuments(stale),
+      Conversation.countDocuments(empty),
+    ]);
+    return { deleted, abandoned: total - deleted };
+  }
+
+  const { deletedCount } = await Conversation.deleteMany(empty);
+  const { modifiedCount } = await Conversation.updateMany(
+    stale,
+    { $set: { status: "abandoned" } },
+    { timestamps: false }
+  );
+  return { deleted: deletedCount, abandoned: modifiedCount };
+}
+
+/**
+ * JSON error response for conversation failures
+ */
+export function conversationErrorResponse(error: unknown, fallback: string): Response {
+  if (error instanceof ConversationError) {
+    return Response.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`${fallback}:`, error);
+  return Response.json({ error: fallback }, { status: 500 });
+}
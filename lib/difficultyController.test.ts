@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CONTROLLER_OPTIONS,
+  DifficultyChannel,
+  createDifficultyState,
+  restoreDifficultyState,
+  simulateSession,
+  stepChannel,
+  stepDifficulty,
+} from "./difficultyController";
+import { DIFFICULTY_SKILLS, PerformanceIndicators } from "./difficultyEngine";
+
+const TARGET = 0.7;
+
+function channel(overrides: Partial<DifficultyChannel> = {}): DifficultyChannel {
+  return { level: 5, successRate: TARGET, trend: "hold", ...overrides };
+}
+
+// A score of 61 is a turn success of 0.7, right on the default target
+function metrics(overrides: Partial<PerformanceIndicators> = {}): PerformanceIndicators {
+  return {
+    engagementScore: 61,
+    empathyScore: 61,
+    initiativeScore: 61,
+    clarityScore: 61,
+    confidenceScore: 61,
+    fillerFrequency: 0,
+    ...overrides,
+  };
+}
+
+describe("stepChannel", () => {
+  it("holds the level while the success rate stays inside the enter band", () => {
+    // 0.3 * 0.95 + 0.7 * 0.7 = 0.775, within 0.1 of the target
+    const next = stepChannel(channel(), 0.95, TARGET);
+    expect(next.level).toBe(5);
+    expect(next.trend).toBe("hold");
+
+    const lower = stepChannel(channel(), 0.45, TARGET);
+    expect(lower.level).toBe(5);
+    expect(lower.trend).toBe("hold");
+  });
+
+  it("starts moving once the rate leaves the enter band", () => {
+    const next = stepChannel(channel({ successRate: 0.8 }), 1, TARGET);
+    expect(next.trend).toBe("up");
+    expect(next.level).toBeGreaterThan(5);
+
+    const down = stepChannel(channel({ successRate: 0.6 }), 0, TARGET);
+    expect(down.trend).toBe("down");
+    expect(down.level).toBeLessThan(5);
+  });
+
+  it("keeps moving until the rate is back inside the exit band", () => {
+    // Error 0.08: too small to start moving, big enough to keep going
+    const moving = stepChannel(channel({ successRate: 0.78, trend: "up" }), 0.78, TARGET);
+    expect(moving.trend).toBe("up");
+    expect(moving.level).toBeGreaterThan(5);
+
+    const settled = stepChannel(channel({ successRate: 0.72, trend: "up" }), 0.72, TARGET);
+    expect(settled.trend).toBe("hold");
+    expect(settled.level).toBe(5);
+  });
+
+  it("limits each step to maxStep", () => {
+    const options = { ...DEFAULT_CONTROLLER_OPTIONS, gain: 10 };
+    const up = stepChannel(channel({ successRate: 1 }), 1, TARGET, options);
+    const down = stepChannel(channel({ successRate: 0 }), 0, TARGET, options);
+
+    expect(up.level).toBe(5 + options.maxStep);
+    expect(down.level).toBe(5 - options.maxStep);
+  });
+
+  it("never leaves the 1-10 range", () => {
+    expect(stepChannel(channel({ level: 9.9, successRate: 1 }), 1, TARGET).level).toBe(10);
+    expect(stepChannel(channel({ level: 1.1, successRate: 0 }), 0, TARGET).level).toBe(1);
+  });
+});
+
+describe("createDifficultyState", () => {
+  it("shifts stored skill levels to centre on the chosen level, keeping their spread", () => {
+    const state = createDifficultyState(6, {
+      skillLevels: { empathy: 3, initiative: 5, engagement: 4, clarity: 4, confidence: 4 },
+    });
+
+    expect(state.overall.level).toBe(6);
+    expect(state.skills.empathy.level).toBe(5);
+    expect(state.skills.initiative.level).toBe(7);
+    expect(state.skills.clarity.level).toBe(6);
+  });
+
+  it("warms up success rates from history without moving any level", () => {
+    const state = createDifficultyState(5, { history: [metrics({ empathyScore: 100 })] });
+
+    expect(state.skills.empathy.successRate).toBeGreaterThan(TARGET);
+    expect(state.skills.empathy.level).toBe(5);
+    expect(state.turns).toBe(1);
+  });
+});
+
+describe("stepDifficulty", () => {
+  it("moves each skill's level on its own scores", () => {
+    let state = createDifficultyState(5);
+    for (let turn = 0; turn < 5; turn++) {
+      state = stepDifficulty(state, metrics({ empathyScore: 100, initiativeScore: 0 }));
+    }
+
+    expect(state.skills.empathy.level).toBeGreaterThan(5);
+    expect(state.skills.initiative.level).toBeLessThan(5);
+    expect(state.skills.clarity.level).toBe(5);
+    expect(state.skills.engagement.level).toBe(5);
+    expect(state.turns).toBe(5);
+  });
+});
+
+describe("restoreDifficultyState", () => {
+  const fallback = createDifficultyState(4);
+
+  it("uses the fallback for anything that isn't an object", () => {
+    expect(restoreDifficultyState(null, fallback)).toBe(fallback);
+    expect(restoreDifficultyState("5", fallback)).toBe(fallback);
+  });
+
+  it("repairs malformed fields", () => {
+    const state = restoreDifficultyState(
+      {
+        overall: { level: "hard", successRate: 5, trend: "sideways" },
+        skills: { empathy: { level: 42, successRate: -1, trend: "up" }, clarity: "broken" },
+        targetSuccessRate: "high",
+        turns: -3,
+      },
+      fallback
+    );
+
+    expect(state.overall).toEqual({ level: 4, successRate: 1, trend: "hold" });
+    expect(state.skills.empathy).toEqual({ level: 10, successRate: 0, trend: "up" });
+    expect(state.skills.clarity).toEqual(fallback.skills.clarity);
+    for (const skill of DIFFICULTY_SKILLS) {
+      expect(state.skills[skill]).toBeDefined();
+    }
+    expect(state.targetSuccessRate).toBe(fallback.targetSuccessRate);
+    expect(state.turns).toBe(0);
+  });
+
+  it("clamps an out-of-range target success rate", () => {
+    expect(restoreDifficultyState({ targetSuccessRate: 2 }, fallback).targetSuccessRate).toBe(0.9);
+  });
+});
+
+describe("simulateSession", () => {
+  // A user doing fairly well, with every other turn noticeably worse
+  const noisy = [85, 45, 90, 40, 80, 50, 88, 42, 84, 48, 86, 44].map((score) =>
+    metrics({
+      engagementScore: score,
+      empathyScore: score,
+      initiativeScore: score,
+      clarityScore: score,
+      confidenceScore: score,
+    })
+  );
+
+  it("reverses direction less often with the controller than per turn", () => {
+    const perTurn = simulateSession(5, noisy, "per-turn");
+    const controller = simulateSession(5, noisy, "controller");
+
+    expect(perTurn.reversals).toBeGreaterThan(0);
+    expect(controller.reversals).toBeLessThan(perTurn.reversals);
+    expect(controller.meanAbsoluteStep).toBeLessThan(perTurn.meanAbsoluteStep);
+  });
+
+  it("is deterministic", () => {
+    expect(simulateSession(5, noisy, "controller")).toEqual(simulateSession(5, noisy, "controller"));
+  });
+
+  it("reports the start level for an empty session", () => {
+    expect(simulateSession(3, [], "controller")).toEqual({
+      levels: [],
+      finalLevel: 3,
+      meanAbsoluteStep: 0,
+      reversals: 0,
+    });
+  });
+});
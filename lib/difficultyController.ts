@@ -0,0 +1,306 @@
+/**
+ * Difficulty Controller
+ * Moves the difficulty level from turn to turn using the conversation so
+ * far rather than the latest turn alone:
+ *
+ * - Each turn's performance becomes a success value from 0 to 1, and an
+ *   exponentially weighted average of it tracks the user's success rate.
+ * - The level moves only while that rate is clearly off the user's target
+ *   success rate (hysteresis: it starts moving beyond ENTER_BAND of the
+ *   target and keeps going until it is back within EXIT_BAND), so one short
+ *   answer doesn't swing it.
+ * - Besides the overall level, each skill has a level of its own that
+ *   drives that skill's part of the partner's behaviour.
+ *
+ * Everything here is a pure function of its arguments. The state is stored
+ * on the conversation and picked up each turn, like scenario progress.
+ */
+
+import {
+  DIFFICULTY_SKILLS,
+  DifficultySettings,
+  DifficultySkill,
+  MAX_DIFFICULTY,
+  MIN_DIFFICULTY,
+  PerformanceIndicators,
+  SkillLevels,
+  applyDifficultyAdjustment,
+  calculateDifficultyAdjustment,
+  calculatePerformanceScore,
+  calculateSkillScores,
+  getSkillDifficultySettings,
+} from "./difficultyEngine";
+
+export type DifficultyTrend = "up" | "down" | "hold";
+
+export interface DifficultyChannel {
+  level: number; // 1-10
+  successRate: number; // 0-1, exponentially weighted
+  trend: DifficultyTrend; // Which way the level is moving
+}
+
+export interface DifficultyState {
+  overall: DifficultyChannel; // Picks the prompt and the label
+  skills: Record<DifficultySkill, DifficultyChannel>;
+  targetSuccessRate: number;
+  turns: number; // User turns observed so far
+}
+
+export interface ControllerOptions {
+  smoothing: number; // Weight of the newest turn in the average, 0-1
+  enterBand: number; // Distance from the target that starts the level moving
+  exitBand: number; // Distance from the target that stops it
+  gain: number; // Level change per unit of distance from the target
+  maxStep: number; // Largest change in one turn
+}
+
+export const DEFAULT_CONTROLLER_OPTIONS: ControllerOptions = {
+  smoothing: 0.3,
+  enterBand: 0.1,
+  exitBand: 0.03,
+  gain: 1,
+  maxStep: 0.5,
+};
+
+export const DEFAULT_TARGET_SUCCESS_RATE = 0.7;
+export const MIN_TARGET_SUCCESS_RATE = 0.5;
+export const MAX_TARGET_SUCCESS_RATE = 0.9;
+
+// Performance scores at or below the floor count as a failed turn, at or
+// above the ceiling as a full success, and in between as partial success
+const SUCCESS_FLOOR = 0.4;
+const SUCCESS_CEILING = 0.7;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function clampLevel(level: number): number {
+  return clamp(level, MIN_DIFFICULTY, MAX_DIFFICULTY);
+}
+
+/**
+ * A target success rate from a request or profile, or null if it isn't a
+ * number. Out-of-range values are clamped.
+ */
+export function parseTargetSuccessRate(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isFinite(value)) return null;
+  return clamp(value, MIN_TARGET_SUCCESS_RATE, MAX_TARGET_SUCCESS_RATE);
+}
+
+/**
+ * How successful a turn was, from a performance or skill score
+ */
+export function turnSuccess(score: number): number {
+  return clamp((score - SUCCESS_FLOOR) / (SUCCESS_CEILING - SUCCESS_FLOOR), 0, 1);
+}
+
+/**
+ * Fold one turn's success into a channel and move its level if the
+ * success rate is far enough from the target
+ */
+export function stepChannel(
+  channel: DifficultyChannel,
+  success: number,
+  targetSuccessRate: number,
+  options: ControllerOptions = DEFAULT_CONTROLLER_OPTIONS
+): DifficultyChannel {
+  const successRate = options.smoothing * success + (1 - options.smoothing) * channel.successRate;
+  const error = successRate - targetSuccessRate;
+
+  let trend = channel.trend;
+  if (trend === "up" && error < options.exitBand) trend = "hold";
+  if (trend === "down" && error > -options.exitBand) trend = "hold";
+  if (trend === "hold") {
+    if (error > options.enterBand) trend = "up";
+    else if (error < -options.enterBand) trend = "down";
+  }
+
+  const step = trend === "hold" ? 0 : clamp(options.gain * error, -options.maxStep, options.maxStep);
+  return { level: clampLevel(channel.level + step), successRate, trend };
+}
+
+function observeTurn(
+  state: DifficultyState,
+  metrics: PerformanceIndicators,
+  update: (channel: DifficultyChannel, success: number) => DifficultyChannel
+): DifficultyState {
+  const skillScores = calculateSkillScores(metrics);
+  const skills = {} as Record<DifficultySkill, DifficultyChannel>;
+  for (const skill of DIFFICULTY_SKILLS) {
+    skills[skill] = update(state.skills[skill], turnSuccess(skillScores[skill]));
+  }
+  return {
+    overall: update(state.overall, turnSuccess(calculatePerformanceScore(metrics))),
+    skills,
+    targetSuccessRate: state.targetSuccessRate,
+    turns: state.turns + 1,
+  };
+}
+
+/**
+ * The state at the start of a conversation. Stored skill levels keep their
+ * spread but are shifted to centre on the chosen level, so a user's strong
+ * and weak skills carry over whichever preset they pick. Earlier turns'
+ * metrics, if known, warm up the success rates without moving any level.
+ */
+export function createDifficultyState(
+  level: number,
+  profile: {
+    skillLevels?: SkillLevels | null;
+    targetSuccessRate?: number | null;
+    history?: PerformanceIndicators[];
+  } = {}
+): DifficultyState {
+  const targetSuccessRate = parseTargetSuccessRate(profile.targetSuccessRate) ?? DEFAULT_TARGET_SUCCESS_RATE;
+  const startLevel = clampLevel(level);
+  const newChannel = (channelLevel: number): DifficultyChannel => ({
+    level: clampLevel(channelLevel),
+    successRate: targetSuccessRate,
+    trend: "hold",
+  });
+
+  const stored = profile.skillLevels;
+  const offset = stored
+    ? startLevel - DIFFICULTY_SKILLS.reduce((sum, skill) => sum + stored[skill], 0) / DIFFICULTY_SKILLS.length
+    : 0;
+  const skills = {} as Record<DifficultySkill, DifficultyChannel>;
+  for (const skill of DIFFICULTY_SKILLS) {
+    skills[skill] = newChannel(stored ? stored[skill] + offset : startLevel);
+  }
+
+  let state: DifficultyState = { overall: newChannel(startLevel), skills, targetSuccessRate, turns: 0 };
+  for (const metrics of profile.history || []) {
+    state = observeTurn(state, metrics, (channel, success) => ({
+      ...channel,
+      successRate:
+        DEFAULT_CONTROLLER_OPTIONS.smoothing * success +
+        (1 - DEFAULT_CONTROLLER_OPTIONS.smoothing) * channel.successRate,
+    }));
+  }
+  return state;
+}
+
+/**
+ * The state after the user's latest turn
+ */
+export function stepDifficulty(
+  state: DifficultyState,
+  metrics: PerformanceIndicators,
+  options: ControllerOptions = DEFAULT_CONTROLLER_OPTIONS
+): DifficultyState {
+  return observeTurn(state, metrics, (channel, success) =>
+    stepChannel(channel, success, state.targetSuccessRate, options)
+  );
+}
+
+function restoreChannel(raw: unknown, fallback: DifficultyChannel): DifficultyChannel {
+  if (!raw || typeof raw !== "object") return fallback;
+  const data = raw as Record<string, unknown>;
+  return {
+    level:
+      typeof data.level === "number" && Number.isFinite(data.level) ? clampLevel(data.level) : fallback.level,
+    successRate:
+      typeof data.successRate === "number" && Number.isFinite(data.successRate)
+        ? clamp(data.successRate, 0, 1)
+        : fallback.successRate,
+    trend: data.trend === "up" || data.trend === "down" ? data.trend : "hold",
+  };
+}
+
+/**
+ * Read a stored state, repairing anything malformed from
+ * the fallback
+ */
+export function restoreDifficultyState(raw: unknown, fallback: DifficultyState): DifficultyState {
+  if (!raw || typeof raw !== "object") return fallback;
+  const data = raw as Record<string, unknown>;
+  const rawSkills = (data.skills && typeof data.skills === "object" ? data.skills : {}) as Record<string, unknown>;
+
+  const skills = {} as Record<DifficultySkill, DifficultyChannel>;
+  for (const skill of DIFFICULTY_SKILLS) {
+    skills[skill] = restoreChannel(rawSkills[skill], fallback.skills[skill]);
+  }
+  return {
+    overall: restoreChannel(data.overall, fallback.overall),
+    skills,
+    targetSuccessRate: parseTargetSuccessRate(data.targetSuccessRate) ?? fallback.targetSuccessRate,
+    turns:
+      typeof data.turns === "number" && Number.isInteger(data.turns) && data.turns > 0 ? data.turns : 0,
+  };
+}
+
+export function getSkillLevels(state: DifficultyState): SkillLevels {
+  const levels = {} as SkillLevels;
+  for (const skill of DIFFICULTY_SKILLS) {
+    levels[skill] = Math.round(state.skills[skill].level * 10) / 10;
+  }
+  return levels;
+}
+
+/**
+ * What the partner's behaviour should be in this state
+ */
+export function getStateSettings(state: DifficultyState): DifficultySettings {
+  return getSkillDifficultySettings(state.overall.level, getSkillLevels(state));
+}
+
+// --- Simulation ---
+
+export type DifficultyPolicy = "per-turn" | "controller";
+
+export interface SimulationResult {
+  levels: number[]; // The level after each turn
+  finalLevel: number;
+  meanAbsoluteStep: number; // Average change per turn
+  reversals: number; // Times the level changed direction
+}
+
+/**
+ * Replay a recorded session's turn metrics through a policy: "per-turn"
+ * is the original adjustment from the latest turn alone, "controller" the
+ * smoothed one above. The recorded metrics don't react to the replayed
+ * levels, so this compares how the policies move, not how users respond.
+ */
+export function simulateSession(
+  startLevel: number,
+  turns: PerformanceIndicators[],
+  policy: DifficultyPolicy,
+  options: { targetSuccessRate?: number; controller?: ControllerOptions } = {}
+): SimulationResult {
+  const levels: number[] = [];
+  let level = clampLevel(startLevel);
+  let state = createDifficultyState(level, { targetSuccessRate: options.targetSuccessRate });
+
+  for (const metrics of turns) {
+    if (policy === "per-turn") {
+      level = applyDifficultyAdjustment(level, calculateDifficultyAdjustment(metrics, level));
+    } else {
+      state = stepDifficulty(state, metrics, options.controller);
+      level = state.overall.level;
+    }
+    levels.push(level);
+  }
+
+  let previous = clampLevel(startLevel);
+  let lastDirection = 0;
+  let totalStep = 0;
+  let reversals = 0;
+  for (const next of levels) {
+    const step = next - previous;
+    totalStep += Math.abs(step);
+    const direction = Math.sign(step);
+    if (direction !== 0) {
+      if (lastDirection !== 0 && direction !== lastDirection) reversals++;
+      lastDirection = direction;
+    }
+    previous = next;
+  }
+
+  return {
+    levels,
+    finalLevel: levels.length > 0 ? levels[levels.length - 1] : clampLevel(startLevel),
+    meanAbsoluteStep: levels.length > 0 ? totalStep / levels.length : 0,
+    reversals,
+  };
+}
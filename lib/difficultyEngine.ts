@@ -1,9 +1,14 @@
 /**
  * Dynamic Difficulty Scaling Engine
  * Adjusts conversation difficulty based on user performance
+ *
+ * Difficulty is a level from 1 to 10 in both text and voice mode. The
+ * easy/medium/hard presets on the home page are starting levels, and the
+ * level is bucketed back to a preset only to pick the scenario's prompt.
  */
 
 import { VoiceMetrics } from "./voiceAnalytics";
+import type { ScenarioDifficulty } from "./scenarios";
 
 export interface DifficultySettings {
   level: number; // 1-10
@@ -24,6 +29,26 @@ export interface PerformanceIndicators {
   confidenceScore: number;
 }
 
+/**
+ * Skills the partner's behaviour can be tuned to separately. Each drives
+ * the settings that make that skill harder to show, so a user who is
+ * strong at empathy but weak at initiative gets a partner whose feelings
+ * are harder to read but who still carries the conversation.
+ */
+export const DIFFICULTY_SKILLS = ["empathy", "initiative", "engagement", "clarity", "confidence"] as const;
+export type DifficultySkill = (typeof DIFFICULTY_SKILLS)[number];
+export type SkillLevels = Record<DifficultySkill, number>; // Each 1-10
+
+type DifficultyDimension = Exclude<keyof DifficultySettings, "level">;
+
+export const SKILL_DIMENSIONS: Record<DifficultySkill, DifficultyDimension[]> = {
+  empathy: ["emotionalAmbiguity", "toneComplexity"], // Reading how the partner feels
+  initiative: ["chatbotInitiative"], // Driving the conversation
+  engagement: ["responseShortness"], // Keeping a terse partner talking
+  clarity: ["misunderstandingRate"], // Being understood
+  confidence: ["warmth"], // Holding steady with a cool partner
+};
+
 /**
  * Predefined difficulty level configurations
  */
@@ -120,6 +145,46 @@ export const DIFFICULTY_LEVELS: Record<number, DifficultySettings> = {
   },
 };
 
+export const MIN_DIFFICULTY = 1;
+export const MAX_DIFFICULTY = 10;
+
+/**
+ * Starting level for each preset
+ */
+export const DIFFICULTY_PRESETS: Record<ScenarioDifficulty, number> = {
+  easy: 3,
+  medium: 5,
+  hard: 8,
+};
+
+export const DEFAULT_DIFFICULTY = DIFFICULTY_PRESETS.easy;
+
+/**
+ * Read a difficulty from a request, URL or stored conversation: a level
+ * (number or numeric string, as older voice conversations were saved) or a
+ * preset name (as older text conversations were saved). Anything else is
+ * the default level.
+ */
+export function parseDifficultyLevel(value: unknown): number {
+  if (typeof value === "string" && Object.prototype.hasOwnProperty.call(DIFFICULTY_PRESETS, value)) {
+    return DIFFICULTY_PRESETS[value as ScenarioDifficulty];
+  }
+  const level = typeof value === "string" ? parseFloat(value) : value;
+  if (typeof level !== "number" || !Number.isFinite(level)) {
+    return DEFAULT_DIFFICULTY;
+  }
+  return Math.max(MIN_DIFFICULTY, Math.min(MAX_DIFFICULTY, level));
+}
+
+/**
+ * Which of the scenario's system prompts to use at a level
+ */
+export function toScenarioDifficulty(level: number): ScenarioDifficulty {
+  if (level <= 3) return "easy";
+  if (level <= 7) return "medium";
+  return "hard";
+}
+
 /**
  * Get difficulty settings for a given level
  */
@@ -129,15 +194,29 @@ export function getDifficultySettings(level: number): DifficultySettings {
 }
 
 /**
- * Calculate difficulty adjustment based on performance
- * Returns a value between -1 and 1
- *   Positive = should increase difficulty
- *   Negative = should decrease difficulty
+ * Settings with each skill's dimensions taken from that skill's level, so
+ * the partner can be hard in one respect and easy in another. Between two
+ * levels the values are interpolated.
  */
-export function calculateDifficultyAdjustment(
-  metrics: PerformanceIndicators,
-  currentDifficulty: number
-): number {
+export function getSkillDifficultySettings(level: number, skills: SkillLevels): DifficultySettings {
+  const settings: DifficultySettings = { ...getDifficultySettings(level), level };
+  for (const skill of DIFFICULTY_SKILLS) {
+    const skillLevel = Math.max(MIN_DIFFICULTY, Math.min(MAX_DIFFICULTY, skills[skill]));
+    const lower = DIFFICULTY_LEVELS[Math.floor(skillLevel)];
+    const upper = DIFFICULTY_LEVELS[Math.ceil(skillLevel)];
+    const fraction = skillLevel - Math.floor(skillLevel);
+    for (const dimension of SKILL_DIMENSIONS[skill]) {
+      settings[dimension] = lower[dimension] + (upper[dimension] - lower[dimension]) * fraction;
+    }
+  }
+  return settings;
+}
+
+/**
+ * How well a turn went overall: up to 1, and a little below 0 when filler
+ * words outweigh everything else
+ */
+export function calculatePerformanceScore(metrics: PerformanceIndicators): number {
   // Weights for different metrics
   const weights = {
     engagement: 0.25,
@@ -167,6 +246,40 @@ export function calculateDifficultyAdjustment(
     normalizedConfidence * weights.confidence +
     (1 - fillerPenalty) * weights.fillerPenalty;
 
+  return performanceScore;
+}
+
+/**
+ * How well a turn showed each skill, from 0 to 1. Filler words count
+ * against confidence.
+ */
+export function calculateSkillScores(metrics: PerformanceIndicators): Record<DifficultySkill, number> {
+  const fillerPenalty = Math.min(0.3, metrics.fillerFrequency / 50);
+  return {
+    empathy: metrics.empathyScore / 100,
+    initiative: metrics.initiativeScore / 100,
+    engagement: metrics.engagementScore / 100,
+    clarity: metrics.clarityScore / 100,
+    confidence: Math.max(0, metrics.confidenceScore / 100 - fillerPenalty),
+  };
+}
+
+/**
+ * Calculate difficulty adjustment based on performance
+ * Returns a value between -1 and 1
+ *   Positive = should increase difficulty
+ *   Negative = should decrease difficulty
+ *
+ * Reacts to the latest turn only; the chat routes use the smoothed
+ * controller in difficultyController.ts, and this is kept as the baseline
+ * policy for `npm run simulate:difficulty`.
+ */
+export function calculateDifficultyAdjustment(
+  metrics: PerformanceIndicators,
+  currentDifficulty: number
+): number {
+  const performanceScore = calculatePerformanceScore(metrics);
+
   // Threshold to determine adjustment
   // If performance > 0.7, increase difficulty
   // If performance < 0.4, decrease difficulty
@@ -239,6 +352,8 @@ export function getDifficultyPromptModifier(settings: DifficultySettings): strin
     modifiers.push("Don't ask questions or drive the conversation. Let the user lead completely.");
   } else if (settings.chatbotInitiative < 0.5) {
     modifiers.push("Occasionally ask questions but mostly respond to what the user says.");
+  } else if (settings.chatbotInitiative > 0.7) {
+    modifiers.push("Carry the conversation: ask questions and bring up new topics.");
   }
 
   // Emotional ambiguity modifier
@@ -0,0 +1,63 @@
+/**
+ * Difficulty Profile
+ * A user's stored difficulty preferences: their target success rate and
+ * the per-skill levels their last conversation ended at, which the next
+ * conversation starts from.
+ */
+
+import { NextRequest } from "next/server";
+import dbConnect from "./mongodb";
+import User from "./models/User";
+import { getRequestIdentity } from "./identity";
+import type { PerformanceIndicators, SkillLevels } from "./difficultyEngine";
+import { DifficultyState, createDifficultyState, getSkillLevels } from "./difficultyController";
+
+export interface DifficultyProfile {
+  targetSuccessRate: number;
+  skillLevels: SkillLevels | null;
+}
+
+/**
+ * The caller's profile, or null for unknown callers. A database problem
+ * shouldn't stop the conversation, so it also gives null.
+ */
+export async function loadDifficultyProfile(req: NextRequest): Promise<DifficultyProfile | null> {
+  try {
+    const identity = await getRequestIdentity(req);
+    if (!identity) return null;
+
+    const user = identity.account ?? (await User.findOne({ visitorId: identity.visitorId }));
+    return user?.difficultyProfile ?? null;
+  } catch (error) {
+    console.error("Difficulty profile load error, using defaults:", error);
+    return null;
+  }
+}
+
+/**
+ * The state for a conversation's first turn, from the requested level and
+ * the caller's profile
+ */
+export async function startDifficultyState(
+  req: NextRequest,
+  level: number,
+  history: PerformanceIndicators[] = []
+): Promise<DifficultyState> {
+  const profile = await loadDifficultyProfile(req);
+  return createDifficultyState(level, {
+    skillLevels: profile?.skillLevels,
+    targetSuccessRate: profile?.targetSuccessRate,
+    history,
+  });
+}
+
+/**
+ * Remember where a finished conversation left each skill
+ */
+export async function saveSkillLevels(visitorId: string, state: DifficultyState) {
+  await dbConnect();
+  await User.updateOne(
+    { visitorId },
+    { $set: { "difficultyProfile.skillLevels": getSkillLevels(state) } }
+  );
+}
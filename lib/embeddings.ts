@@ -0,0 +1,183 @@
+/**
+ * Text Embeddings
+ *
+ * Chosen by EMBEDDING_PROVIDER (default "hashing"):
+ *   hashing - local feature-hashing embedder; offline, no model download
+ *   openai  - OPENAI_API_KEY, OPENAI_BASE_URL (any OpenAI-compatible endpoint)
+ *   ollama  - OLLAMA_BASE_URL (local Ollama server)
+ * EMBEDDING_MODEL overrides the per-provider default model, and
+ * EMBEDDING_DIMENSIONS the hashing embedder's vector size (default 1024).
+ *
+ * An index must be queried with the same embedder it was built with; the
+ * embedder `name` is stored in the index to check this.
+ */
+
+import { postJSON } from "./llm/http";
+
+export type EmbeddingProviderName = "hashing" | "openai" | "ollama";
+
+export interface Embedder {
+  name: string; // e.g. "hashing-1024" or "openai:text-embedding-3-small"
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const DEFAULT_MODELS: Record<Exclude<EmbeddingProviderName, "hashing">, string> = {
+  openai: "text-embedding-3-small",
+  ollama: "nomic-embed-text",
+};
+
+const DEFAULT_HASHING_DIMENSIONS = 1024;
+
+// Words too common to say anything about a passage
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has",
+  "have", "he", "her", "his", "i", "if", "in", "into", "is", "it", "its", "me",
+  "my", "of", "on", "or", "our", "she", "so", "that", "the", "their", "them",
+  "then", "there", "they", "this", "to", "was", "we", "were", "what", "when",
+  "which", "who", "will", "with", "you", "your",
+]);
+
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((acc, v) => acc + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Crude suffix stripping so "listening", "listened" and "listens" share a feature
+ */
+function stem(word: string): string {
+  for (const suffix of ["ing", "ed", "ly", "es", "s"]) {
+    if (word.length > suffix.length + 3 && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9']+/g) || [])
+    .map((word) => word.replace(/'s?$/, ""))
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Offline embedder: hashes word unigrams and bigrams into a fixed-size vector
+ * (the "hashing trick") with log-scaled term frequencies. Captures lexical
+ * overlap rather than meaning, which is enough for a small curated corpus.
+ */
+export function createHashingEmbedder(dimensions: number = DEFAULT_HASHING_DIMENSIONS): Embedder {
+  const embedOne = (text: string): number[] => {
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+    tokens.forEach((token, i) => {
+      counts.set(token, (counts.get(token) || 0) + 1);
+      if (i > 0) {
+        const bigram = `${tokens[i - 1]} ${token}`;
+        counts.set(bigram, (counts.get(bigram) || 0) + 1);
+      }
+    });
+
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = hashString(feature);
+      // A second hash bit picks the sign so collisions tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % dimensions] += sign * (1 + Math.log(count));
+    }
+    return normalizeVector(vector);
+  };
+
+  return {
+    name: `hashing-${dimensions}`,
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+export function createOpenAIEmbedder(config: {
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}): Embedder {
+  const baseUrl = (config.baseUrl || "https://api.openai.com/v1").replace(/\/$/, "");
+
+  return {
+    name: `openai:${config.model}`,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+      const response = await postJSON(
+        "openai",
+        `${baseUrl}/embeddings`,
+        { model: config.model, input: texts },
+        config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}
+      );
+      const data: { data: { index: number; embedding: number[] }[] } = await response.json();
+      return data.data
+        .sort((a, b) => a.index - b.index)
+        .map((d) => normalizeVector(d.embedding));
+    },
+  };
+}
+
+export function createOllamaEmbedder(config: { model: string; baseUrl?: string }): Embedder {
+  const baseUrl = (config.baseUrl || "http://localhost:11434").replace(/\/$/, "");
+
+  return {
+    name: `ollama:${config.model}`,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+      const response = await postJSON("ollama", `${baseUrl}/api/embed`, {
+        model: config.model,
+        input: texts,
+      });
+      const data: { embeddings: number[][] } = await response.json();
+      return data.embeddings.map(normalizeVector);
+    },
+  };
+}
+
+function getProviderName(): EmbeddingProviderName {
+  const name = (process.env.EMBEDDING_PROVIDER || "hashing").toLowerCase();
+  if (name === "hashing" || name === "openai" || name === "ollama") {
+    return name;
+  }
+  throw new Error(
+    `Unknown EMBEDDING_PROVIDER "${name}". Expected one of: hashing, openai, ollama`
+  );
+}
+
+export function getEmbedder(): Embedder {
+  const name = getProviderName();
+
+  switch (name) {
+    case "openai":
+      return createOpenAIEmbedder({
+        model: process.env.EMBEDDING_MODEL || DEFAULT_MODELS.openai,
+        apiKey: process.env.OPENAI_API_KEY,
+        baseUrl: process.env.OPENAI_BASE_URL,
+      });
+    case "ollama":
+      return createOllamaEmbedder({
+        model: process.env.EMBEDDING_MODEL || DEFAULT_MODELS.ollama,
+        baseUrl: process.env.OLLAMA_BASE_URL,
+      });
+    default:
+      return createHashingEmbedder(
+        parseInt(process.env.EMBEDDING_DIMENSIONS || "") || DEFAULT_HASHING_DIMENSIONS
+      );
+  }
+}
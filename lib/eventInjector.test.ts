@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { MAX_EVENT_CHANCE, formatEventForPartner, rollConversationEvent } from "./eventInjector";
+import { DifficultySettings, getDifficultySettings } from "./difficultyEngine";
+import { Scenario, scenarios } from "./scenarios";
+import { resolveTemplateValues } from "./promptTemplate";
+
+const scenario: Scenario = Object.values(scenarios)[0];
+
+// Higher than any preset, so every event's rate is well above the cap
+const EXTREME: DifficultySettings = {
+  ...getDifficultySettings(10),
+  misunderstandingRate: 1,
+  emotionalAmbiguity: 1,
+};
+
+const SEEDS = Array.from({ length: 2000 }, (_, i) => `seed-${i}`);
+
+describe("rollConversationEvent", () => {
+  it("rolls the same way for the same seed and turn", () => {
+    for (const seed of SEEDS.slice(0, 200)) {
+      const first = rollConversationEvent({ scenario, settings: EXTREME, seed, turn: 4 });
+      const second = rollConversationEvent({ scenario, settings: EXTREME, seed, turn: 4 });
+      expect(second).toEqual(first);
+    }
+  });
+
+  it("rolls differently across seeds and turns", () => {
+    const types = new Set(
+      SEEDS.slice(0, 200).map(
+        (seed) => rollConversationEvent({ scenario, settings: EXTREME, seed, turn: 3 })?.type ?? null
+      )
+    );
+    expect(types.size).toBeGreaterThan(2);
+
+    const byTurn = [2, 3, 4, 5, 6].map((turn) =>
+      rollConversationEvent({ scenario, settings: EXTREME, seed: "seed-1", turn })
+    );
+    expect(new Set(byTurn.map((event) => event?.roll ?? null)).size).toBeGreaterThan(1);
+  });
+
+  it("never fires on the first turn or right after another event", () => {
+    for (const seed of SEEDS.slice(0, 200)) {
+      expect(rollConversationEvent({ scenario, settings: EXTREME, seed, turn: 1 })).toBeNull();
+      expect(
+        rollConversationEvent({ scenario, settings: EXTREME, seed, turn: 5, previousEvent: true })
+      ).toBeNull();
+    }
+  });
+
+  it("never fires more often than MAX_EVENT_CHANCE", () => {
+    const events = SEEDS.map((seed) =>
+      rollConversationEvent({ scenario, settings: EXTREME, seed, turn: 3 })
+    ).filter((event) => event !== null);
+
+    for (const event of events) {
+      expect(event.roll).toBeLessThan(MAX_EVENT_CHANCE);
+    }
+    // The cap is what limits it here, so the rate sits right at it
+    expect(events.length / SEEDS.length).toBeLessThanOrEqual(MAX_EVENT_CHANCE + 0.03);
+    expect(events.length / SEEDS.length).toBeGreaterThan(MAX_EVENT_CHANCE - 0.05);
+  });
+
+  it("never fires when the settings make every rate zero", () => {
+    const calm = { ...EXTREME, misunderstandingRate: 0, emotionalAmbiguity: 0 };
+    for (const seed of SEEDS.slice(0, 200)) {
+      expect(rollConversationEvent({ scenario, settings: calm, seed, turn: 3 })).toBeNull();
+    }
+  });
+
+  it("picks events in proportion to the scenario's weights", () => {
+    const share = (weight: number) => {
+      const weighted: Scenario = {
+        ...scenario,
+        events: [{ type: "misread" }, { type: "interruption", weight }],
+      };
+      const types = SEEDS.map(
+        (seed) => rollConversationEvent({ scenario: weighted, settings: EXTREME, seed, turn: 3 })?.type
+      ).filter(Boolean);
+      return types.filter((type) => type === "interruption").length / types.length;
+    };
+
+    // Unweighted, interruptions come at half the misread rate: a third of events
+    expect(share(1)).toBeGreaterThan(0.25);
+    expect(share(1)).toBeLessThan(0.42);
+    // Weighted 8x, they make up 8 / (8 + 2) of them
+    expect(share(8)).toBeGreaterThan(0.72);
+    expect(share(8)).toBeLessThan(0.88);
+  });
+
+  it("only picks events the scenario lists", () => {
+    const onlyCurt: Scenario = { ...scenario, events: [{ type: "curt_reply" }] };
+    for (const seed of SEEDS.slice(0, 200)) {
+      const event = rollConversationEvent({ scenario: onlyCurt, settings: EXTREME, seed, turn: 3 });
+      if (event) expect(event.type).toBe("curt_reply");
+    }
+  });
+});
+
+describe("formatEventForPartner", () => {
+  it("adds nothing without an event", () => {
+    expect(formatEventForPartner(scenario, null, resolveTemplateValues(scenario))).toBe("");
+  });
+
+  it("uses the scenario's own instruction, with its placeholders filled in", () => {
+    const custom: Scenario = {
+      ...scenario,
+      events: [{ type: "past_grievance", instruction: "Bring up that {{userName}} forgot your birthday." }],
+    };
+    const prompt = formatEventForPartner(
+      custom,
+      { type: "past_grievance", turn: 3, seed: "s", roll: 0.1 },
+      resolveTemplateValues(custom, { values: { userName: "Sam" } })
+    );
+    expect(prompt).toContain("Bring up that Sam forgot your birthday.");
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Conversation Events
+ * Turns the difficulty's misunderstanding rate and emotional ambiguity into
+ * concrete things that happen during a conversation: the partner misreads
+ * a message, changes the subject, answers curtly, cuts the user off or
+ * brings up an old grievance.
+ *
+ * Each turn rolls against those rates with a generator seeded from the
+ * session's seed and the turn number, so the same session rolls the same
+ * way. Scenarios may list their own events and instructions; the rest use
+ * DEFAULT_EVENTS. The chat pages pick a session's seed, so this file must
+ * stay free of server-only imports.
+ */
+
+import { DifficultySettings } from "./difficultyEngine";
+import { CONVERSATION_EVENT_TYPES, ConversationEventType, Scenario, ScenarioEvent } from "./scenarios";
+import { TemplateValues, renderTemplate } from "./promptTemplate";
+
+// What gets logged on the partner message the event shaped
+export interface InjectedEvent {
+  type: ConversationEventType;
+  turn: number; // User messages so far, including the one being answered
+  seed: string; // With the turn, reproduces the roll
+  roll: number; // The draw that triggered it, 0-1
+}
+
+export const DEFAULT_EVENT_INSTRUCTIONS: Record<ConversationEventType, string> = {
+  misread:
+    "Misread the user's last message: respond as if they meant something slightly different, and less kind, than they did. Don't say that you misunderstood.",
+  topic_change:
+    "Abruptly change the subject to something on your mind, leaving what the user said hanging.",
+  curt_reply: "Answer curtly in a few words, without asking anything back.",
+  interruption:
+    "Cut in before the user's point lands: react only to the first part of their message, as if you stopped listening halfway.",
+  past_grievance:
+    "Bring up something the user did in the past that still bothers you, even if it's only loosely related.",
+};
+
+export const DEFAULT_EVENTS: ScenarioEvent[] = CONVERSATION_EVENT_TYPES.map((type) => ({ type }));
+
+// Each event's chance per turn, from the difficulty settings. Misreads and
+// their kin follow the misunderstanding rate; curt replies and changes of
+// subject follow how hard the partner's feelings are to read.
+const EVENT_RATES: Record<ConversationEventType, (settings: DifficultySettings) => number> = {
+  misread: (settings) => settings.misunderstandingRate * 0.5,
+  interruption: (settings) => settings.misunderstandingRate * 0.25,
+  past_grievance: (settings) => settings.misunderstandingRate * 0.25,
+  topic_change: (settings) => settings.emotionalAmbiguity * 0.15,
+  curt_reply: (settings) => settings.emotionalAmbiguity * 0.15,
+};
+
+// Even at the hardest level, most turns go by without an event
+export const MAX_EVENT_CHANCE = 0.5;
+
+const SEED_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+export function createEventSeed(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * A session seed from a request, or a fresh one
+ */
+export function sanitizeEventSeed(value: unknown): string {
+  return typeof value === "string" && SEED_PATTERN.test(value) ? value : createEventSeed();
+}
+
+/**
+ * Deterministic numbers in [0, 1) for a seed (FNV-1a into mulberry32)
+ */
+function seededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function getScenarioEvents(scenario: Scenario): ScenarioEvent[] {
+  return scenario.events?.length ? scenario.events : DEFAULT_EVENTS;
+}
+
+/**
+ * Decide whether something happens this turn, and what. Never on the
+ * user's first message or right after another event, so the user gets a
+ * chance to deal with each one.
+ */
+export function rollConversationEvent(options: {
+  scenario: Scenario;
+  settings: DifficultySettings;
+  seed: string;
+  turn: number;
+  previousEvent?: boolean; // The partner's last reply carried an event
+}): InjectedEvent | null {
+  const { scenario, settings, seed, turn, previousEvent } = options;
+  if (turn < 2 || previousEvent) return null;
+
+  const events = getScenarioEvents(scenario);
+  const rates = events.map((event) => EVENT_RATES[event.type](settings));
+  const total = rates.reduce((sum, rate) => sum + rate, 0);
+  if (total <= 0) return null;
+
+  const random = seededRandom(`${seed}:${turn}`);
+  const roll = random();
+  if (roll >= Math.min(MAX_EVENT_CHANCE, total)) return null;
+
+  // Which event, in proportion to its rate and the scenario's weight
+  const chances = events.map((event, i) => rates[i] * (event.weight ?? 1));
+  let pick = random() * chances.reduce((sum, chance) => sum + chance, 0);
+  let index = 0;
+  while (index < chances.length - 1 && pick >= chances[index]) {
+    pick -= chances[index];
+    index++;
+  }
+  return { type: events[index].type, turn, seed, roll };
+}
+
+/**
+ * The system prompt addition that makes the partner act out an event
+ */
+export function formatEventForPartner(
+  scenario: Scenario,
+  event: InjectedEvent | null,
+  values: TemplateValues
+): string {
+  if (!event) return "";
+  const scenarioEvent = getScenarioEvents(scenario).find((e) => e.type === event.type);
+  const instruction = scenarioEvent?.instruction || DEFAULT_EVENT_INSTRUCTIONS[event.type];
+  return `\n\nFor this reply only: ${renderTemplate(instruction, values)}`;
+}
@@ -0,0 +1,84 @@
+/**
+ * Request Identity
+ * Works out who is asking: the signed-in account (session cookie) or an
+ * anonymous visitor proven by an httpOnly visitor cookie. Routes use this
+ * instead of trusting visitor/user IDs sent in the request.
+ */
+
+import crypto from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "./mongodb";
+import User, { IUser } from "./models/User";
+import { generateToken, getSessionUser, hashToken } from "./auth";
+
+export const VISITOR_COOKIE = "cuepid-visitor";
+
+const VISITOR_COOKIE_TTL_MS = 365 * 24 * 60 * 60 * 1000; // 1 year
+
+export interface RequestIdentity {
+  visitorId: string; // Owner key stored on Conversation.userId
+  account: IUser | null; // Null for anonymous visitors
+}
+
+/**
+ * Anonymous visitor ID proven by the visitor cookie, or null
+ */
+export async function getVerifiedVisitorId(req: NextRequest): Promise<string | null> {
+  const cookie = req.cookies.get(VISITOR_COOKIE)?.value;
+  if (!cookie) return null;
+
+  // "<visitorId>.<token>": base64url tokens never contain "."
+  const separator = cookie.lastIndexOf(".");
+  if (separator <= 0) return null;
+  const visitorId = cookie.slice(0, separator);
+  const token = cookie.slice(separator + 1);
+
+  // Once a visitor becomes an account, only its session grants access
+  await dbConnect();
+  const user = await User.findOne({ visitorId, email: null }).select("+visitorTokenHash");
+  if (!user?.visitorTokenHash) return null;
+
+  const expected = Buffer.from(user.visitorTokenHash, "hex");
+  const actual = Buffer.from(hashToken(token), "hex");
+  return crypto.timingSafeEqual(actual, expected) ? visitorId : null;
+}
+
+/**
+ * Identify the caller, preferring a signed-in account over an anonymous visitor
+ */
+export async function getRequestIdentity(req: NextRequest): Promise<RequestIdentity | null> {
+  const account = await getSessionUser(req);
+  if (account) return { visitorId: account.visitorId, account };
+
+  const visitorId = await getVerifiedVisitorId(req);
+  return visitorId ? { visitorId, account: null } : null;
+}
+
+/**
+ * Bind a visitor to this browser: store a fresh token hash and set the cookie
+ */
+export async function issueVisitorCookie(response: NextResponse, visitorId: string) {
+  const token = generateToken();
+  await dbConnect();
+  await User.updateOne({ visitorId }, { $set: { visitorTokenHash: hashToken(token) } });
+
+  response.cookies.set(VISITOR_COOKIE, `${visitorId}.${token}`, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: new Date(Date.now() + VISITOR_COOKIE_TTL_MS),
+  });
+}
+
+export function clearVisitorCookie(response: NextResponse) {
+  response.cookies.set(VISITOR_COOKIE, "", { httpOnly: true, path: "/", maxAge: 0 });
+}
+
+export function unauthorizedResponse(): Response {
+  return Response.json({ error: "Not signed in" }, { status: 401 });
+}
+
+export function forbiddenResponse(): Response {
+  return Response.json({ error: "Forbidden" }, { status: 403 });
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { chunkText } from "./ingest";
+
+// A paragraph of `count` numbered sentences, each about 30 characters
+function paragraph(label: string, count: number): string {
+  return Array.from({ length: count }, (_, i) => `${label} sentence number ${i + 1} goes here.`).join(" ");
+}
+
+describe("chunkText", () => {
+  it("returns nothing for blank text", () => {
+    expect(chunkText("")).toEqual([]);
+    expect(chunkText("  \n\n \r\n ")).toEqual([]);
+  });
+
+  it("keeps short text in one chunk, one line per paragraph, with whitespace collapsed", () => {
+    const text = "First   paragraph\nwraps here.\r\n\r\nSecond paragraph.\n\n\n";
+    expect(chunkText(text)).toEqual(["First paragraph wraps here.\nSecond paragraph."]);
+  });
+
+  it("starts a new chunk rather than going over maxChars", () => {
+    const paragraphs = ["a", "b", "c", "d"].map((label) => paragraph(label, 2));
+    const chunks = chunkText(paragraphs.join("\n\n"), { maxChars: 150, overlapChars: 0 });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0]).toBe(`${paragraphs[0]}\n${paragraphs[1]}`);
+    expect(chunks[1]).toBe(`${paragraphs[2]}\n${paragraphs[3]}`);
+  });
+
+  it("splits a paragraph longer than maxChars at sentence boundaries", () => {
+    const long = paragraph("long", 10);
+    const chunks = chunkText(long, { maxChars: 120, overlapChars: 0 });
+
+    expect(chunks.length).toBeGreaterThan(3);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(120);
+      expect(chunk).toMatch(/^long sentence number \d+/);
+      expect(chunk).toMatch(/goes here\.$/);
+    }
+    expect(chunks.join("\n")).toBe(long.replace(/ (?=long)/g, "\n"));
+  });
+
+  it("repeats the tail of each chunk at the start of the next", () => {
+    const chunks = chunkText(paragraph("x", 10), { maxChars: 120, overlapChars: 50 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (let i = 1; i < chunks.length; i++) {
+      const previousLast = chunks[i - 1].split("\n").pop();
+      expect(chunks[i].startsWith(`${previousLast}\n`)).toBe(true);
+      // Chunks only grow past maxChars by the carried-over overlap
+      expect(chunks[i].length).toBeLessThanOrEqual(120 + 50 + 1);
+    }
+  });
+
+  it("carries nothing over when the last sentence doesn't fit in the overlap", () => {
+    const chunks = chunkText(paragraph("y", 6), { maxChars: 100, overlapChars: 20 });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join("\n").split("\n")).toHaveLength(6);
+  });
+
+  it("keeps a single sentence longer than maxChars whole", () => {
+    const sentence = `${"word ".repeat(60).trim()}.`;
+    expect(chunkText(sentence, { maxChars: 100 })).toEqual([sentence]);
+  });
+});
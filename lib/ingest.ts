@@ -0,0 +1,223 @@
+/**
+ * Knowledge Ingestion
+ * Loads text, markdown and PDF sources from a folder, splits them into
+ * overlapping chunks, embeds them and writes them to the vector index.
+ * Run it with `npm run ingest` (see scripts/ingest-knowledge.ts).
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { Embedder, getEmbedder } from "./embeddings";
+import {
+  DEFAULT_INDEX_PATH,
+  VectorItem,
+  createEmptyIndex,
+  loadIndex,
+  replaceSourceItems,
+  retainSources,
+  saveIndex,
+} from "./vectorstore";
+
+export const DEFAULT_SOURCE_DIR = path.join(process.cwd(), "data", "knowledge");
+
+const SUPPORTED_EXTENSIONS = new Set([".txt", ".md", ".markdown", ".pdf"]);
+const EMBED_BATCH_SIZE = 32;
+
+export interface SourceDocument {
+  source: string; // Path relative to the source root, with forward slashes
+  title: string;
+  tags: string[];
+  pages: { page?: number; text: string }[]; // A single page for text files
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlapChars?: number;
+}
+
+export interface IngestOptions {
+  sourceDir?: string;
+  indexPath?: string;
+  embedder?: Embedder;
+  chunk?: ChunkOptions;
+  log?: (message: string) => void;
+}
+
+export interface IngestResult {
+  sources: number;
+  chunks: number;
+  embedder: string;
+}
+
+/**
+ * Recursively list supported source files under a folder
+ */
+export async function findSourceFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await findSourceFiles(fullPath)));
+    } else if (SUPPORTED_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(fullPath);
+    }
+  }
+
+  return files.sort();
+}
+
+function titleFromFilename(filePath: string): string {
+  const base = path.basename(filePath, path.extname(filePath)).replace(/[-_]+/g, " ").trim();
+  return base.charAt(0).toUpperCase() + base.slice(1);
+}
+
+async function loadPdfPages(
+  filePath: string
+): Promise<{ title?: string; pages: { page: number; text: string }[] }> {
+  // Loaded lazily so the PDF engine is only pulled in when a PDF is ingested
+  const { extractText, getDocumentProxy, getMeta } = await import("unpdf");
+  const pdf = await getDocumentProxy(new Uint8Array(await fs.readFile(filePath)));
+  const { text } = await extractText(pdf, { mergePages: false });
+  const { info } = await getMeta(pdf).catch(() => ({ info: {} as Record<string, unknown> }));
+
+  return {
+    title: typeof info?.Title === "string" && info.Title.trim() ? info.Title.trim() : undefined,
+    pages: text.map((pageText, i) => ({ page: i + 1, text: pageText })),
+  };
+}
+
+/**
+ * Read one source file into plain text pages
+ */
+export async function loadSourceDocument(rootDir: string, filePath: string): Promise<SourceDocument> {
+  const source = path.relative(rootDir, filePath).split(path.sep).join("/");
+  const tags = path.dirname(source) === "." ? [] : path.dirname(source).split("/");
+
+  if (path.extname(filePath).toLowerCase() === ".pdf") {
+    const { title, pages } = await loadPdfPages(filePath);
+    return { source, title: title || titleFromFilename(filePath), tags, pages };
+  }
+
+  let text = await fs.readFile(filePath, "utf8");
+  let title = titleFromFilename(filePath);
+
+  // Markdown: drop front matter and use the first heading as the title
+  text = text.replace(/^---\n[\s\S]*?\n---\n/, "");
+  const heading = text.match(/^#\s+(.+)$/m);
+  if (heading) {
+    title = heading[1].trim();
+  }
+
+  return { source, title, tags, pages: [{ text }] };
+}
+
+function splitSentences(paragraph: string): string[] {
+  const sentences = paragraph.match(/[^.!?]+(?:[.!?]+["')\]]*|$)\s*/g) || [paragraph];
+  return sentences.map((s) => s.trim()).filter(Boolean);
+}
+
+/**
+ * Split text into chunks of whole paragraphs (or sentences, for very long
+ * paragraphs) up to maxChars, repeating the tail of each chunk at the start
+ * of the next so ideas that straddle a boundary stay retrievable
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const { maxChars = 1000, overlapChars = 150 } = options;
+
+  const pieces = text
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .flatMap((p) => (p.length > maxChars ? splitSentences(p) : [p]));
+
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 1 > maxChars) {
+      chunks.push(current);
+      // Carry over the last sentence(s) that fit in the overlap
+      const tail = splitSentences(current).reverse();
+      let overlap = "";
+      for (const sentence of tail) {
+        if (overlap.length + sentence.length + 1 > overlapChars) break;
+        overlap = overlap ? `${sentence} ${overlap}` : sentence;
+      }
+      current = overlap;
+    }
+    current = current ? `${current}\n${piece}` : piece;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Ingest every source under sourceDir into the index. Sources that were
+ * removed from the folder are dropped from the index; if the embedder has
+ * changed, the index is rebuilt from scratch.
+ */
+export async function ingestSources(options: IngestOptions = {}): Promise<IngestResult> {
+  const {
+    sourceDir = DEFAULT_SOURCE_DIR,
+    indexPath = DEFAULT_INDEX_PATH,
+    embedder = getEmbedder(),
+    log = () => {},
+  } = options;
+
+  let index = await loadIndex(indexPath);
+  if (index.embedder !== embedder.name) {
+    if (index.items.length > 0) {
+      log(`Index was built with ${index.embedder}; rebuilding with ${embedder.name}`);
+    }
+    index = { ...createEmptyIndex(), embedder: embedder.name };
+  }
+
+  const files = await findSourceFiles(sourceDir);
+  const sources = new Set<string>();
+  let chunkCount = 0;
+
+  for (const filePath of files) {
+    const doc = await loadSourceDocument(sourceDir, filePath);
+    sources.add(doc.source);
+
+    const chunks = doc.pages.flatMap(({ page, text }) =>
+      chunkText(text, options.chunk).map((chunk) => ({ page, text: chunk }))
+    );
+
+    const items: VectorItem[] = [];
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+      const vectors = await embedder.embed(batch.map((c) => `${doc.title}\n${c.text}`));
+      batch.forEach((chunk, j) => {
+        const position = i + j;
+        items.push({
+          id: `${doc.source}#${position}`,
+          vector: vectors[j],
+          metadata: {
+            text: chunk.text,
+            source: doc.source,
+            title: doc.title,
+            chunk: position,
+            ...(chunk.page !== undefined && { page: chunk.page }),
+            tags: doc.tags,
+          },
+        });
+      });
+    }
+
+    index = replaceSourceItems(index, doc.source, items);
+    chunkCount += items.length;
+    log(`${doc.source}: ${items.length} chunks`);
+  }
+
+  index = retainSources(index, sources);
+  await saveIndex(index, indexPath);
+
+  return { sources: sources.size, chunks: chunkCount, embedder: embedder.name };
+}
@@ -43,3 +43,22 @@ export function calculateXP(analytics: {
     75;
   return Math.round(base + metricsBonus);
 }
+
+export function calculateVoiceXP(metrics: {
+  confidenceScore: number;
+  empathyScore: number;
+  engagementScore: number;
+  clarityScore: number;
+  initiativeScore: number;
+}): number {
+  const base = 30;
+  const metricsBonus =
+    ((metrics.confidenceScore +
+      metrics.empathyScore +
+      metrics.engagementScore +
+      metrics.clarityScore +
+      metrics.initiativeScore) /
+      500) *
+    70;
+  return Math.round(base + metricsBonus);
+}
@@ -0,0 +1,44 @@
+/**
+ * Errors shared by the LLM adapters
+ */
+
+/**
+ * HTTP error from an LLM endpoint. The message keeps the
+ * "[status statusText]" prefix that the Gemini SDK uses, so error
+ * handling does not depend on which adapter threw.
+ */
+export class LLMRequestError extends Error {
+  status: number;
+
+  constructor(provider: string, status: number, statusText: string, body: string) {
+    super(`[${provider}] [${status} ${statusText}] ${body}`);
+    this.name = "LLMRequestError";
+    this.status = status;
+  }
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Whether the provider rejected the request for being over its rate limit
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if (error instanceof LLMRequestError && error.status === 429) return true;
+
+  const message = getErrorMessage(error).toLowerCase();
+  return (
+    message.includes("429") ||
+    message.includes("too many requests") ||
+    message.includes("resource has been exhausted")
+  );
+}
+
+/**
+ * Whether the provider's quota is used up (retrying will not help)
+ */
+export function isQuotaExhaustedError(error: unknown): boolean {
+  const message = getErrorMessage(error);
+  return message.includes("limit: 0") || message.includes("quota");
+}
@@ -0,0 +1,67 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { LLMMessage, LLMProvider, LLMProviderConfig } from "./types";
+
+function toGeminiHistory(history: LLMMessage[]) {
+  return history.map((m) => ({
+    role: m.role === "user" ? "user" : "model",
+    parts: [{ text: m.content }],
+  }));
+}
+
+/**
+ * Google Gemini adapter (@google/generative-ai)
+ */
+export function createGeminiProvider(config: LLMProviderConfig): LLMProvider {
+  function getGenAI() {
+    if (!config.apiKey) {
+      throw new Error("Please define GEMINI_API_KEY in .env.local");
+    }
+    return new GoogleGenerativeAI(config.apiKey);
+  }
+
+  return {
+    name: "gemini",
+
+    getChatModel(systemPrompt) {
+      const model = getGenAI().getGenerativeModel({
+        model: config.chatModel,
+        systemInstruction: systemPrompt,
+      });
+
+      return {
+        async sendMessage(history, message) {
+          const chat = model.startChat({ history: toGeminiHistory(history) });
+          const result = await chat.sendMessage(message);
+          return result.response.text();
+        },
+
+        async sendMessageStream(history, message) {
+          const chat = model.startChat({ history: toGeminiHistory(history) });
+          const result = await chat.sendMessageStream(message);
+          return (async function* () {
+            for await (const chunk of result.stream) {
+              const text = chunk.text();
+              if (text) yield text;
+            }
+          })();
+        },
+      };
+    },
+
+    getAnalysisModel() {
+      const model = getGenAI().getGenerativeModel({
+        model: config.analysisModel,
+        generationConfig: {
+          responseMimeType: "application/json",
+        },
+      });
+
+      return {
+        async generateJSON(prompt) {
+          const result = await model.generateContent(prompt);
+          return result.response.text();
+        },
+      };
+    },
+  };
+}
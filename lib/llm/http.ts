@@ -0,0 +1,71 @@
+/**
+ * Helpers shared by the HTTP-based LLM adapters
+ */
+
+import { LLMRequestError } from "./errors";
+import { LLMMessage } from "./types";
+
+/**
+ * Build a system + history + new message list in the OpenAI/Ollama shape
+ */
+export function toChatMessages(systemPrompt: string, history: LLMMessage[], message: string) {
+  return [
+    { role: "system", content: systemPrompt },
+    ...history.map((m) => ({
+      role: m.role === "user" ? "user" : "assistant",
+      content: m.content,
+    })),
+    { role: "user", content: message },
+  ];
+}
+
+/**
+ * POST a JSON body and throw an LLMRequestError on a non-2xx response
+ */
+export async function postJSON(
+  provider: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    throw new LLMRequestError(provider, response.status, response.statusText, text);
+  }
+
+  return response;
+}
+
+/**
+ * Split a streamed response body into lines (for SSE and NDJSON streams)
+ */
+export async function* readLines(response: Response): AsyncIterable<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex = buffer.indexOf("\n");
+    while (newlineIndex !== -1) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      if (line) yield line;
+      newlineIndex = buffer.indexOf("\n");
+    }
+  }
+
+  const rest = (buffer + decoder.decode()).trim();
+  if (rest) yield rest;
+}
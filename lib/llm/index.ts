@@ -0,0 +1,77 @@
+/**
+ * LLM provider selection
+ *
+ * Chosen by LLM_PROVIDER (default "gemini"):
+ *   gemini  - GEMINI_API_KEY
+ *   openai  - OPENAI_API_KEY, OPENAI_BASE_URL (any OpenAI-compatible endpoint)
+ *   ollama  - OLLAMA_BASE_URL (local Ollama server)
+ *   mock    - deterministic offline replies, no network (MOCK_LLM_DELAY_MS
+ *             adds a per-chunk delay to simulate streaming)
+ * LLM_CHAT_MODEL and LLM_ANALYSIS_MODEL override the per-provider defaults.
+ */
+
+import { createGeminiProvider } from "./gemini";
+import { createOpenAIProvider } from "./openai";
+import { createOllamaProvider } from "./ollama";
+import { createMockProvider } from "./mock";
+import { AnalysisModel, ChatModel, LLMProvider, LLMProviderName } from "./types";
+
+export type { AnalysisModel, ChatModel, LLMMessage, LLMProvider, LLMProviderName } from "./types";
+export { LLMRequestError, isRateLimitError, isQuotaExhaustedError } from "./errors";
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  gemini: "gemini-2.5-flash",
+  openai: "gpt-4o-mini",
+  ollama: "llama3.1",
+  mock: "mock",
+};
+
+function getProviderName(): LLMProviderName {
+  const name = (process.env.LLM_PROVIDER || "gemini").toLowerCase();
+  if (name === "gemini" || name === "openai" || name === "ollama" || name === "mock") {
+    return name;
+  }
+  throw new Error(
+    `Unknown LLM_PROVIDER "${name}". Expected one of: gemini, openai, ollama, mock`
+  );
+}
+
+export function getLLMProvider(): LLMProvider {
+  const name = getProviderName();
+  const chatModel = process.env.LLM_CHAT_MODEL || DEFAULT_MODELS[name];
+  const analysisModel = process.env.LLM_ANALYSIS_MODEL || chatModel;
+
+  switch (name) {
+    case "openai":
+      return createOpenAIProvider({
+        chatModel,
+        analysisModel,
+        apiKey: process.env.OPENAI_API_KEY,
+        baseUrl: process.env.OPENAI_BASE_URL,
+      });
+    case "ollama":
+      return createOllamaProvider({
+        chatModel,
+        analysisModel,
+        baseUrl: process.env.OLLAMA_BASE_URL,
+      });
+    case "mock":
+      return createMockProvider({
+        delayMs: parseInt(process.env.MOCK_LLM_DELAY_MS || "0") || 0,
+      });
+    case "gemini":
+      return createGeminiProvider({
+        chatModel,
+        analysisModel,
+        apiKey: process.env.GEMINI_API_KEY,
+      });
+  }
+}
+
+export function getChatModel(systemPrompt: string): ChatModel {
+  return getLLMProvider().getChatModel(systemPrompt);
+}
+
+export function getAnalysisModel(): AnalysisModel {
+  return getLLMProvider().getAnalysisModel();
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { createMockProvider } from "./mock";
+import { validateConversationAnalysis, validateTurnAnalysis } from "../analysisValidation";
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe("mock provider", () => {
+  const provider = createMockProvider();
+
+  it("streams the same reply as sendMessage, one word per chunk", async () => {
+    const model = provider.getChatModel("You are Alex, a friend.");
+    const reply = await model.sendMessage([], "Want to grab dinner this weekend?");
+    const chunks = await collect(await model.sendMessageStream([], "Want to grab dinner this weekend?"));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join("")).toBe(reply);
+    for (const chunk of chunks) {
+      expect(chunk.trim().split(/\s+/)).toHaveLength(1);
+    }
+  });
+
+  it("replies the same way to the same input", async () => {
+    const model = provider.getChatModel("You are Alex, a friend.");
+    const history = [{ role: "model" as const, content: "Hey!" }];
+    const first = await model.sendMessage(history, "I've been reading a lot about astronomy lately");
+    const second = await model.sendMessage(history, "I've been reading a lot about astronomy lately");
+    expect(first).toBe(second);
+  });
+
+  it("honours the per-chunk delay", async () => {
+    const model = createMockProvider({ delayMs: 20 }).getChatModel("");
+    const started = Date.now();
+    const chunks = await collect(await model.sendMessageStream([], "hi"));
+    expect(Date.now() - started).toBeGreaterThanOrEqual(20 * chunks.length - 5);
+  });
+
+  it("returns conversation analysis that validates without defaults", async () => {
+    const prompt = [
+      "Analyze this conversation and respond with JSON.",
+      "User: Hi! How was your week?",
+      "Partner: Pretty good, busy though.",
+      "User: I get that. Do you want to grab coffee on Saturday and tell me about it?",
+    ].join("\n");
+
+    const text = await provider.getAnalysisModel().generateJSON(prompt);
+    const { value, defaultedFields } = validateConversationAnalysis(JSON.parse(text));
+
+    expect(defaultedFields).toEqual([]);
+    expect(value.summary).toContain("2 messages");
+    for (const score of [value.engagement, value.initiative, value.empathy, value.clarity, value.confidence]) {
+      expect(score).toBeGreaterThanOrEqual(0);
+      expect(score).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it("returns turn analysis that validates without defaults", async () => {
+    const prompt = `Respond with JSON: { "tone": ..., "userWasPassive": ..., "userShowedEmpathy": ... }
+User said: "That sounds really hard, I understand why you feel that way."
+`;
+    const text = await provider.getAnalysisModel().generateJSON(prompt);
+    const { defaultedFields } = validateTurnAnalysis(JSON.parse(text));
+
+    expect(defaultedFields).toEqual([]);
+  });
+});
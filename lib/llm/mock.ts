@@ -0,0 +1,222 @@
+/**
+ * Deterministic offline mock LLM
+ * Rule-based partner replies and schema-valid analysis JSON so the app can
+ * run without network access or API keys. The same input always produces
+ * the same output.
+ */
+
+import { analyzeVoiceTranscript, aggregateVoiceMetrics } from "../voiceAnalytics";
+import { LLMMessage, LLMProvider } from "./types";
+
+const TONES = ["warm", "playful", "supportive", "confused", "nervous", "neutral"] as const;
+
+interface ReplyRule {
+  test: RegExp;
+  replies: string[];
+}
+
+const REPLY_RULES: ReplyRule[] = [
+  {
+    test: /\b(sorry|apologi[sz]e|my bad|i messed up)\b/i,
+    replies: [
+      "Thanks for saying that. It means a lot that you get why I was upset.",
+      "Okay. I appreciate the apology, I just needed to know you heard me.",
+    ],
+  },
+  {
+    test: /\b(date|dinner|coffee|drinks|hang out|go out|this weekend|tonight)\b/i,
+    replies: [
+      "Oh, that sounds really fun! When were you thinking?",
+      "Hmm, I'd be up for that. Do you have a place in mind?",
+    ],
+  },
+  {
+    test: /\b(boundary|boundaries|need space|not okay|uncomfortable)\b/i,
+    replies: [
+      "I didn't realize it bothered you that much. Can you tell me more?",
+      "Okay... I hear you. What would you want to be different?",
+    ],
+  },
+  {
+    test: /\b(feel|felt|upset|hurt|frustrated|understand)\b/i,
+    replies: [
+      "Yeah, that's kind of how I've been feeling too.",
+      "I appreciate you asking. It's been a lot, honestly.",
+    ],
+  },
+  {
+    test: /\?\s*$/,
+    replies: [
+      "Good question! I'd say yes, mostly. What about you?",
+      "Honestly, I've been wondering the same thing. What do you think?",
+    ],
+  },
+  {
+    test: /^\s*(hi|hey|hello|yo|sup)\b/i,
+    replies: [
+      "Hey! Good to hear from you. How's your day going?",
+      "Hi! I was hoping you'd say something.",
+    ],
+  },
+];
+
+const SHORT_REPLIES = [
+  "Haha okay. Tell me more?",
+  "Mm, fair. What else is new with you?",
+];
+
+const DEFAULT_REPLIES = [
+  "That's really interesting, I hadn't thought about it like that.",
+  "Ha, I love that. What got you into it?",
+  "Okay, I see where you're coming from.",
+];
+
+/**
+ * Small stable string hash (FNV-1a) used to pick among canned replies
+ */
+function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function pick<T>(options: readonly T[], seed: string): T {
+  return options[hashString(seed) % options.length];
+}
+
+function buildReply(systemPrompt: string, history: LLMMessage[], message: string): string {
+  const seed = `${systemPrompt}|${history.length}|${message}`;
+  const wordCount = message.split(/\s+/).filter(Boolean).length;
+
+  const rule = REPLY_RULES.find((r) => r.test.test(message));
+  if (rule) return pick(rule.replies, seed);
+  if (wordCount < 4) return pick(SHORT_REPLIES, seed);
+  return pick(DEFAULT_REPLIES, seed);
+}
+
+/**
+ * Split a reply into word-sized chunks for streaming
+ */
+function toChunks(reply: string): string[] {
+  return reply.match(/\S+\s*/g) || [reply];
+}
+
+async function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Conversation-level analytics for /api/analyze, scored from the
+ * "User: ..." lines of the transcript with the voice heuristics
+ */
+function buildConversationAnalysis(prompt: string) {
+  const userLines = prompt
+    .split("\n")
+    .filter((line) => line.startsWith("User: "))
+    .map((line) => line.slice("User: ".length));
+
+  const metrics = aggregateVoiceMetrics(
+    userLines.map((transcript) => analyzeVoiceTranscript({ transcript, durationMs: 0 }))
+  );
+
+  const suggestions = [
+    "Ask an open-ended follow-up question to keep the conversation going.",
+    "Reflect back how the other person seems to feel before sharing your view.",
+    "Suggest something concrete, like a time or a place, when making plans.",
+  ];
+
+  return {
+    tone: pick(TONES, prompt),
+    engagement: metrics.engagementScore,
+    initiative: metrics.initiativeScore,
+    empathy: metrics.empathyScore,
+    clarity: metrics.clarityScore,
+    confidence: metrics.confidenceScore,
+    suggestions,
+    summary:
+      userLines.length > 0
+        ? `You sent ${userLines.length} message${userLines.length === 1 ? "" : "s"} in this practice conversation. Your replies kept things moving; try adding more questions and acknowledging your partner's feelings to deepen the connection.`
+        : "There were no messages from you to analyze in this conversation.",
+  };
+}
+
+/**
+ * Per-turn notes for /api/voice/chat
+ */
+function buildTurnAnalysis(prompt: string) {
+  const userSaid = prompt.match(/User said: "([\s\S]*?)"\n/)?.[1] || "";
+  const metrics = analyzeVoiceTranscript({ transcript: userSaid, durationMs: 0 });
+  const wordCount = userSaid.split(/\s+/).filter(Boolean).length;
+
+  return {
+    tone: pick(TONES, userSaid),
+    userWasPassive: wordCount < 5 && !userSaid.includes("?"),
+    userShowedEmpathy: metrics.empathyScore >= 60,
+    ...(metrics.initiativeScore < 50 && {
+      missedOpportunity: "Asking a follow-up question about what your partner just shared",
+    }),
+    ...(metrics.empathyScore >= 60 && {
+      strengthDisplayed: "Acknowledging your partner's perspective",
+    }),
+  };
+}
+
+/**
+ * Objective judgement for scenarios with objectives: a substantial message
+ * (six words or more) completes the first open objective
+ */
+function buildObjectiveJudgement(prompt: string) {
+  const userSaid = prompt.match(/The user just said: "([\s\S]*?)"\n/)?.[1] || "";
+  const openObjectives = (prompt.match(/Open objectives for the user:\n([\s\S]*?)\n\n/)?.[1] || "")
+    .split("\n")
+    .map((line) => line.match(/^- ([^:]+):/)?.[1])
+    .filter((id): id is string => !!id);
+  const wordCount = userSaid.split(/\s+/).filter(Boolean).length;
+
+  return {
+    completedObjectives: wordCount >= 6 ? openObjectives.slice(0, 1) : [],
+    branch: null,
+  };
+}
+
+export function createMockProvider(options: { delayMs?: number } = {}): LLMProvider {
+  const delayMs = options.delayMs ?? 0;
+
+  return {
+    name: "mock",
+
+    getChatModel(systemPrompt) {
+      return {
+        async sendMessage(history, message) {
+          return buildReply(systemPrompt, history, message);
+        },
+
+        async sendMessageStream(history, message) {
+          const chunks = toChunks(buildReply(systemPrompt, history, message));
+          return (async function* () {
+            for (const chunk of chunks) {
+              if (delayMs > 0) await sleep(delayMs);
+              yield chunk;
+            }
+          })();
+        },
+      };
+    },
+
+    getAnalysisModel() {
+      return {
+        async generateJSON(prompt) {
+          const analysis = prompt.includes('"completedObjectives"')
+            ? buildObjectiveJudgement(prompt)
+            : prompt.includes('"userWasPassive"')
+              ? buildTurnAnalysis(prompt)
+              : buildConversationAnalysis(prompt);
+          return JSON.stringify(analysis);
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,62 @@
+import { postJSON, readLines, toChatMessages } from "./http";
+import { LLMProvider, LLMProviderConfig } from "./types";
+
+/**
+ * Local model server adapter (Ollama's native /api/chat)
+ * For llama.cpp, run llama-server and use the OpenAI-compatible adapter.
+ */
+export function createOllamaProvider(config: LLMProviderConfig): LLMProvider {
+  const baseUrl = (config.baseUrl || "http://localhost:11434").replace(/\/$/, "");
+
+  return {
+    name: "ollama",
+
+    getChatModel(systemPrompt) {
+      return {
+        async sendMessage(history, message) {
+          const response = await postJSON("ollama", `${baseUrl}/api/chat`, {
+            model: config.chatModel,
+            messages: toChatMessages(systemPrompt, history, message),
+            stream: false,
+          });
+          const data = await response.json();
+          return data.message?.content ?? "";
+        },
+
+        async sendMessageStream(history, message) {
+          const response = await postJSON("ollama", `${baseUrl}/api/chat`, {
+            model: config.chatModel,
+            messages: toChatMessages(systemPrompt, history, message),
+            stream: true,
+          });
+
+          // Newline-delimited JSON, one object per chunk, last one has done: true
+          return (async function* () {
+            for await (const line of readLines(response)) {
+              const chunk = JSON.parse(line);
+              if (chunk.error) throw new Error(`[ollama] ${chunk.error}`);
+              const text = chunk.message?.content;
+              if (text) yield text as string;
+              if (chunk.done) return;
+            }
+          })();
+        },
+      };
+    },
+
+    getAnalysisModel() {
+      return {
+        async generateJSON(prompt) {
+          const response = await postJSON("ollama", `${baseUrl}/api/chat`, {
+            model: config.analysisModel,
+            messages: [{ role: "user", content: prompt }],
+            format: "json",
+            stream: false,
+          });
+          const data = await response.json();
+          return data.message?.content ?? "";
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { postJSON, readLines, toChatMessages } from "./http";
+import { LLMProvider, LLMProviderConfig } from "./types";
+
+/**
+ * OpenAI-compatible adapter (/v1/chat/completions)
+ * Works with OpenAI itself and with self-hosted servers that expose the
+ * same API, e.g. vLLM, LM Studio or llama.cpp's llama-server.
+ */
+export function createOpenAIProvider(config: LLMProviderConfig): LLMProvider {
+  const baseUrl = (config.baseUrl || "https://api.openai.com/v1").replace(/\/$/, "");
+  const headers: Record<string, string> = config.apiKey
+    ? { Authorization: `Bearer ${config.apiKey}` }
+    : {};
+
+  return {
+    name: "openai",
+
+    getChatModel(systemPrompt) {
+      return {
+        async sendMessage(history, message) {
+          const response = await postJSON(
+            "openai",
+            `${baseUrl}/chat/completions`,
+            {
+              model: config.chatModel,
+              messages: toChatMessages(systemPrompt, history, message),
+            },
+            headers
+          );
+          const data = await response.json();
+          return data.choices?.[0]?.message?.content ?? "";
+        },
+
+        async sendMessageStream(history, message) {
+          const response = await postJSON(
+            "openai",
+            `${baseUrl}/chat/completions`,
+            {
+              model: config.chatModel,
+              messages: toChatMessages(systemPrompt, history, message),
+              stream: true,
+            },
+            headers
+          );
+
+          // Server-sent events: "data: {...}" lines terminated by "data: [DONE]"
+          return (async function* () {
+            for await (const line of readLines(response)) {
+              if (!line.startsWith("data:")) continue;
+              const payload = line.slice("data:".length).trim();
+              if (payload === "[DONE]") return;
+              const text = JSON.parse(payload).choices?.[0]?.delta?.content;
+              if (text) yield text as string;
+            }
+          })();
+        },
+      };
+    },
+
+    getAnalysisModel() {
+      return {
+        async generateJSON(prompt) {
+          const response = await postJSON(
+            "openai",
+            `${baseUrl}/chat/completions`,
+            {
+              model: config.analysisModel,
+              messages: [{ role: "user", content: prompt }],
+              response_format: { type: "json_object" },
+            },
+            headers
+          );
+          const data = await response.json();
+          return data.choices?.[0]?.message?.content ?? "";
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Provider-neutral LLM types
+ * Routes talk to these interfaces; each adapter maps them onto a vendor API
+ */
+
+export type LLMProviderName = "gemini" | "openai" | "ollama" | "mock";
+
+export interface LLMMessage {
+  role: "user" | "model";
+  content: string;
+}
+
+export interface ChatModel {
+  /** Send a message after `history` and resolve with the full reply */
+  sendMessage(history: LLMMessage[], message: string): Promise<string>;
+  /**
+   * Send a message after `history` and stream the reply as text chunks.
+   * Resolves once the request has been accepted, so rate-limit errors are
+   * thrown here rather than midway through the stream.
+   */
+  sendMessageStream(
+    history: LLMMessage[],
+    message: string
+  ): Promise<AsyncIterable<string>>;
+}
+
+export interface AnalysisModel {
+  /** Run a one-shot prompt and resolve with the raw JSON text */
+  generateJSON(prompt: string): Promise<string>;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  getChatModel(systemPrompt: string): ChatModel;
+  getAnalysisModel(): AnalysisModel;
+}
+
+export interface LLMProviderConfig {
+  chatModel: string;
+  analysisModel: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
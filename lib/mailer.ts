@@ -0,0 +1,120 @@
+/**
+ * Minimal outgoing mail
+ *
+ * Speaks plain SMTP (no auth, no TLS) to SMTP_HOST:SMTP_PORT, which is meant
+ * for a local stand-in such as Mailpit or MailHog (default port 1025). When
+ * SMTP_HOST is not set, messages are printed to the server log instead,
+ * outside production only: they carry sign-in links, which must never end
+ * up in stored logs.
+ */
+
+import net from "net";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+const SMTP_TIMEOUT_MS = 10_000;
+
+function getFromAddress(): string {
+  return process.env.MAIL_FROM || "Cuepid <no-reply@cuepid.local>";
+}
+
+/**
+ * Extract the bare address from "Name <addr>" for the SMTP envelope
+ */
+function envelopeAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return match ? match[1] : address;
+}
+
+function formatMessage(message: MailMessage): string {
+  const headers = [
+    `From: ${getFromAddress()}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+  ];
+  // Dot-stuff lines that start with "." so they don't end the DATA section
+  const body = message.text.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+  return `${headers.join("\r\n")}\r\n\r\n${body}\r\n.`;
+}
+
+function sendWithSMTP(host: string, port: number, message: MailMessage): Promise<void> {
+  const commands = [
+    `EHLO cuepid.local`,
+    `MAIL FROM:<${envelopeAddress(getFromAddress())}>`,
+    `RCPT TO:<${envelopeAddress(message.to)}>`,
+    "DATA",
+    formatMessage(message),
+    "QUIT",
+  ];
+
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+    socket.setEncoding("utf8");
+
+    let buffer = "";
+    let step = 0;
+
+    const fail = (error: Error) => {
+      socket.destroy();
+      reject(error);
+    };
+
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+
+      // Wait for the final line of a (possibly multi-line) reply: "250 ok", not "250-..."
+      const lines = buffer.split("\r\n").filter(Boolean);
+      const last = lines[lines.length - 1];
+      if (!buffer.endsWith("\r\n") || !last || last[3] === "-") return;
+      buffer = "";
+
+      const code = parseInt(last.slice(0, 3));
+      if (code >= 400) {
+        fail(new Error(`SMTP error: ${last}`));
+        return;
+      }
+
+      if (step < commands.length) {
+        socket.write(`${commands[step]}\r\n`);
+        step++;
+      } else {
+        socket.end();
+        resolve();
+      }
+    });
+
+    socket.on("timeout", () => fail(new Error("SMTP connection timed out")));
+    socket.on("error", fail);
+  });
+}
+
+/**
+ * Whether sendMail can deliver (or, in development, print) a message
+ */
+export function isMailConfigured(): boolean {
+  return !!process.env.SMTP_HOST || process.env.NODE_ENV !== "production";
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("SMTP_HOST is not set; refusing to log mail in production");
+    }
+    console.log(
+      `[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`
+    );
+    return;
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || "1025");
+  await sendWithSMTP(host, port, message);
+}
@@ -1,15 +1,49 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { CONVERSATION_EVENT_TYPES, SCENARIO_OUTCOMES } from "../scenarios";
+import { parseDifficultyLevel } from "../difficultyEngine";
+import type { ScenarioProgress } from "../scenarioProgress";
+import type { InjectedEvent } from "../eventInjector";
+import type { TextMetrics } from "../textAnalytics";
+import type { DifficultyState } from "../difficultyController";
+import { CONVERSATION_STATUSES, ConversationSetup, ConversationStatus } from "../conversationSession";
+
+export interface IMessagePassage {
+  citation: string;
+  source: string; // Knowledge source path, relative to data/knowledge
+  excerpt: string;
+  score: number;
+}
+
+// What the analysis model noticed about a voice turn
+export interface IConversationNotes {
+  userWasPassive: boolean;
+  userShowedEmpathy: boolean;
+  missedOpportunity?: string;
+  strengthDisplayed?: string;
+}
 
 export interface IMessage {
   role: "user" | "model";
   content: string;
   timestamp: number;
+  // User messages
+  voiceMetrics?: IVoiceMetrics; // Voice mode
+  textMetrics?: TextMetrics; // Text mode
+  difficulty?: number; // Level 1-10 after this turn's adjustment
+  conversationNotes?: IConversationNotes; // Voice mode
+  // Partner replies
+  tone?: string; // Voice mode
+  passages?: IMessagePassage[]; // Knowledge passages that informed the reply
+  events?: InjectedEvent[]; // Conversation events the reply acted out
 }
 
 export interface IVoiceMetrics {
   wpm: number;
   fillerFrequency: number;
   avgPauseMs: number;
+  longestPauseMs: number;
+  speechRateVariance: number;
+  timeToFirstWordMs: number;
   smoothnessScore: number;
   confidenceScore: number;
   empathyScore: number;
@@ -30,48 +64,141 @@ export interface IAnalytics {
   suggestions: string[];
   xpEarned: number;
   summary: string;
+  defaultedFields: string[]; // Fields the analysis model omitted or got wrong
+  analyzedAt?: Date; // Absent on analytics saved before re-analysis existed
+}
+
+export interface IVoiceAnalytics {
+  aggregatedMetrics: IVoiceMetrics;
+  metricsSource: "recorded" | "transcript";
+  strengths: string[];
+  weaknesses: string[];
+  communicationStyle: string;
+  xpEarned: number;
+  summary: string;
+  suggestions: string[];
+  drills: string[];
+  nextGoal: string;
+  analyzedAt: Date;
 }
 
 export interface IConversation extends Document {
   userId: string;
   scenario: string;
-  difficulty: string;
+  difficulty: number; // Level 1-10 when the conversation ended
   mode: "text" | "voice";
+  status: ConversationStatus;
+  setup: ConversationSetup | null; // What the chat page was opened with, for resuming
+  difficultyState: DifficultyState | null; // The controller state after the latest turn
   messages: IMessage[];
   analytics: IAnalytics | null;
+  voiceAnalytics: IVoiceAnalytics | null;
   voiceMetricsHistory: IVoiceMetrics[];
+  progress: ScenarioProgress | null; // Where a scenario with objectives ended up
+  pendingTurnAt: Date | null; // When the turn whose reply is being written was claimed
   createdAt: Date;
+  updatedAt: Date; // Last saved turn, while active
 }
 
+const VoiceMetricsSchema = {
+  wpm: Number,
+  fillerFrequency: Number,
+  avgPauseMs: Number,
+  longestPauseMs: Number,
+  speechRateVariance: Number,
+  timeToFirstWordMs: Number,
+  smoothnessScore: Number,
+  confidenceScore: Number,
+  empathyScore: Number,
+  initiativeScore: Number,
+  engagementScore: Number,
+  clarityScore: Number,
+};
+
+const TextMetricsSchema = {
+  wordCount: Number,
+  replyLatencyMs: Number,
+  fillerFrequency: Number,
+  confidenceScore: Number,
+  empathyScore: Number,
+  initiativeScore: Number,
+  engagementScore: Number,
+  clarityScore: Number,
+};
+
 const ConversationSchema = new Schema<IConversation>(
   {
     userId: { type: String, required: true, index: true },
     scenario: { type: String, required: true },
-    difficulty: { type: String, required: true },
+    // Older conversations stored "easy"/"medium"/"hard" or a numeric string;
+    // `npm run migrate:difficulty` converts them
+    difficulty: { type: Number, required: true, min: 1, max: 10, set: parseDifficultyLevel },
     mode: { type: String, enum: ["text", "voice"], default: "text" },
+    // Conversations saved before turn-by-turn saving were only saved once ended
+    status: { type: String, enum: CONVERSATION_STATUSES, default: "ended" },
+    setup: {
+      type: {
+        gender: String,
+        weaknesses: [String],
+        variables: Schema.Types.Mixed,
+        eventSeed: String,
+      },
+      default: null,
+    },
+    difficultyState: { type: Schema.Types.Mixed, default: null },
     messages: [
       {
         role: { type: String, enum: ["user", "model"], required: true },
         content: { type: String, required: true },
         timestamp: { type: Number, required: true },
+        voiceMetrics: { type: VoiceMetricsSchema, default: undefined },
+        textMetrics: { type: TextMetricsSchema, default: undefined },
+        difficulty: { type: Number, min: 1, max: 10 },
+        conversationNotes: {
+          type: {
+            userWasPassive: Boolean,
+            userShowedEmpathy: Boolean,
+            missedOpportunity: String,
+            strengthDisplayed: String,
+          },
+          default: undefined,
+        },
+        tone: String,
+        passages: {
+          type: [{ citation: String, source: String, excerpt: String, score: Number }],
+          default: undefined,
+        },
+        events: {
+          type: [
+            new Schema(
+              {
+                type: { type: String, enum: CONVERSATION_EVENT_TYPES },
+                turn: Number,
+                seed: String,
+                roll: Number,
+              },
+              { _id: false }
+            ),
+          ],
+          default: undefined,
+        },
       },
     ],
     voiceMetricsHistory: {
-      type: [
-        {
-          wpm: Number,
-          fillerFrequency: Number,
-          avgPauseMs: Number,
-          smoothnessScore: Number,
-          confidenceScore: Number,
-          empathyScore: Number,
-          initiativeScore: Number,
-          engagementScore: Number,
-          clarityScore: Number,
-        },
-      ],
+      type: [VoiceMetricsSchema],
       default: [],
     },
+    progress: {
+      type: {
+        stageId: String,
+        completedObjectives: [String],
+        outcome: { type: String, enum: SCENARIO_OUTCOMES },
+        turns: Number,
+      },
+      default: null,
+    },
+    // Held from before a reply is generated until its turn is saved
+    pendingTurnAt: { type: Date, default: null },
     analytics: {
       type: {
         tone: String,
@@ -85,6 +212,24 @@ const ConversationSchema = new Schema<IConversation>(
         suggestions: [String],
         xpEarned: Number,
         summary: String,
+        defaultedFields: { type: [String], default: [] },
+        analyzedAt: Date,
+      },
+      default: null,
+    },
+    voiceAnalytics: {
+      type: {
+        aggregatedMetrics: VoiceMetricsSchema,
+        metricsSource: { type: String, enum: ["recorded", "transcript"], default: "recorded" },
+        strengths: [String],
+        weaknesses: [String],
+        communicationStyle: String,
+        xpEarned: Number,
+        summary: String,
+        suggestions: [String],
+        drills: [String],
+        nextGoal: String,
+        analyzedAt: Date,
       },
       default: null,
     },
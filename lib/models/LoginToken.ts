@@ -0,0 +1,17 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface ILoginToken extends Document {
+  tokenHash: string; // SHA-256 of the token in the emailed link
+  email: string;
+  expiresAt: Date;
+}
+
+const LoginTokenSchema = new Schema<ILoginToken>({
+  tokenHash: { type: String, required: true, unique: true },
+  email: { type: String, required: true, lowercase: true, trim: true },
+  // Unused magic links are removed once they expire
+  expiresAt: { type: Date, required: true, index: { expires: 0 } },
+});
+
+export default mongoose.models.LoginToken ||
+  mongoose.model<ILoginToken>("LoginToken", LoginTokenSchema);
@@ -0,0 +1,21 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IRateLimitBucket extends Document {
+  key: string; // "<route>:<visitorId>"
+  tokens: number;
+  updatedAtMs: number;
+  allowed: boolean; // Outcome of the most recent take
+  expiresAt: Date;
+}
+
+const RateLimitBucketSchema = new Schema<IRateLimitBucket>({
+  key: { type: String, required: true, unique: true },
+  tokens: { type: Number, required: true },
+  updatedAtMs: { type: Number, required: true },
+  allowed: { type: Boolean, default: true },
+  // Idle buckets are removed once they would have refilled completely
+  expiresAt: { type: Date, required: true, index: { expires: 0 } },
+});
+
+export default mongoose.models.RateLimitBucket ||
+  mongoose.model<IRateLimitBucket>("RateLimitBucket", RateLimitBucketSchema);
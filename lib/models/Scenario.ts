@@ -0,0 +1,117 @@
+import mongoose, { Schema, Document } from "mongoose";
+import {
+  CONVERSATION_EVENT_TYPES,
+  SCENARIO_CATEGORIES,
+  TEMPLATE_VARIABLE_NAMES,
+  VOICE_TYPES,
+  ScenarioCategory,
+  ScenarioDifficulty,
+  ScenarioEvent,
+  ScenarioObjective,
+  ScenarioPersona,
+  ScenarioStage,
+  ScenarioVariable,
+  ScenarioVoicePersona,
+} from "../scenarios";
+
+export interface IScenario extends Document {
+  scenarioId: string; // Slug used in URLs and Conversation.scenario
+  title: string;
+  description: string;
+  icon: string;
+  category: ScenarioCategory;
+  persona: ScenarioPersona | null;
+  starterMessage: string;
+  systemPrompts: Record<ScenarioDifficulty, string>;
+  goals: string[];
+  objectives: ScenarioObjective[];
+  stages: ScenarioStage[];
+  maxTurns: number | null;
+  variables: ScenarioVariable[];
+  events: ScenarioEvent[];
+  voicePersona: ScenarioVoicePersona | null;
+  hasImage: boolean; // Image bytes live in ScenarioImage
+  imageUpdatedAt: Date | null; // Busts caches of the image URL
+  createdBy: mongoose.Types.ObjectId; // Coach account
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Objectives and stages have their own `id`, so no _id
+const ObjectiveSchema = new Schema({ id: String, description: String }, { _id: false });
+
+const StageSchema = new Schema(
+  {
+    id: String,
+    title: String,
+    partnerPrompt: String,
+    objectives: [String],
+    next: String,
+    branches: { type: [new Schema({ when: String, to: String }, { _id: false })], default: undefined },
+  },
+  { _id: false }
+);
+
+const ScenarioSchema = new Schema<IScenario>(
+  {
+    scenarioId: { type: String, required: true, unique: true },
+    title: { type: String, required: true, trim: true },
+    description: { type: String, required: true, trim: true },
+    icon: { type: String, default: "\u{1F4AC}" },
+    category: { type: String, enum: SCENARIO_CATEGORIES, required: true },
+    persona: {
+      type: { name: String, description: String },
+      default: null,
+    },
+    starterMessage: { type: String, required: true },
+    systemPrompts: {
+      easy: { type: String, required: true },
+      medium: { type: String, required: true },
+      hard: { type: String, required: true },
+    },
+    goals: { type: [String], default: [] },
+    objectives: { type: [ObjectiveSchema], default: [] },
+    stages: { type: [StageSchema], default: [] },
+    maxTurns: { type: Number, default: null },
+    variables: {
+      type: [
+        new Schema(
+          {
+            name: { type: String, enum: TEMPLATE_VARIABLE_NAMES },
+            label: String,
+            default: { type: String },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    events: {
+      type: [
+        new Schema(
+          {
+            type: { type: String, enum: CONVERSATION_EVENT_TYPES },
+            instruction: String,
+            weight: Number,
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    voicePersona: {
+      type: {
+        voiceType: { type: String, enum: VOICE_TYPES },
+        voiceIds: { female: String, male: String, nonbinary: String, unspecified: String },
+      },
+      default: null,
+    },
+    hasImage: { type: Boolean, default: false },
+    imageUpdatedAt: { type: Date, default: null },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  },
+  { timestamps: true }
+);
+
+export default mongoose.models.Scenario ||
+  mongoose.model<IScenario>("Scenario", ScenarioSchema);
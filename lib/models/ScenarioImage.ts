@@ -0,0 +1,21 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IScenarioImage extends Document {
+  scenarioId: string;
+  contentType: string;
+  data: Buffer;
+  updatedAt: Date;
+}
+
+// Kept apart from Scenario so listing scenarios never loads image bytes
+const ScenarioImageSchema = new Schema<IScenarioImage>(
+  {
+    scenarioId: { type: String, required: true, unique: true },
+    contentType: { type: String, required: true },
+    data: { type: Buffer, required: true },
+  },
+  { timestamps: true }
+);
+
+export default mongoose.models.ScenarioImage ||
+  mongoose.model<IScenarioImage>("ScenarioImage", ScenarioImageSchema);
@@ -0,0 +1,20 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface ISession extends Document {
+  tokenHash: string; // SHA-256 of the cookie value; the raw token is never stored
+  userId: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const SessionSchema = new Schema<ISession>(
+  {
+    tokenHash: { type: String, required: true, unique: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    expiresAt: { type: Date, required: true, index: { expires: 0 } },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+export default mongoose.models.Session ||
+  mongoose.model<ISession>("Session", SessionSchema);
@@ -1,7 +1,19 @@
 import mongoose, { Schema, Document } from "mongoose";
+import type { SkillLevels } from "../difficultyEngine";
+import {
+  DEFAULT_TARGET_SUCCESS_RATE,
+  MAX_TARGET_SUCCESS_RATE,
+  MIN_TARGET_SUCCESS_RATE,
+} from "../difficultyController";
 
 export interface IUser extends Document {
   visitorId: string;
+  visitorTokenHash?: string; // Proves an anonymous browser owns this visitorId
+  email?: string; // Set once the visitor signs up for an account
+  passwordHash?: string; // Absent for magic-link-only accounts
+  emailVerified: boolean;
+  claimedVisitorIds: string[]; // Anonymous visitors merged into this account
+  role: "player" | "coach"; // Coaches can author custom scenarios
   level: number;
   xp: number;
   strengths: string[];
@@ -15,6 +27,10 @@ export interface IUser extends Document {
     empathyScore: number;
     initiativeScore: number;
   } | null;
+  difficultyProfile: {
+    targetSuccessRate: number; // Share of turns the difficulty aims to let go well
+    skillLevels: SkillLevels | null; // Per-skill levels where the last conversation ended
+  };
   createdAt: Date;
   updatedAt: Date;
 }
@@ -22,6 +38,12 @@ export interface IUser extends Document {
 const UserSchema = new Schema<IUser>(
   {
     visitorId: { type: String, required: true, unique: true },
+    visitorTokenHash: { type: String, select: false },
+    email: { type: String, unique: true, sparse: true, lowercase: true, trim: true },
+    passwordHash: { type: String, select: false },
+    emailVerified: { type: Boolean, default: false },
+    claimedVisitorIds: { type: [String], default: [] },
+    role: { type: String, enum: ["player", "coach"], default: "player" },
     level: { type: Number, default: 1 },
     xp: { type: Number, default: 0 },
     strengths: { type: [String], default: [] },
@@ -38,8 +60,35 @@ const UserSchema = new Schema<IUser>(
       },
       default: null,
     },
+    difficultyProfile: {
+      targetSuccessRate: {
+        type: Number,
+        default: DEFAULT_TARGET_SUCCESS_RATE,
+        min: MIN_TARGET_SUCCESS_RATE,
+        max: MAX_TARGET_SUCCESS_RATE,
+      },
+      skillLevels: {
+        type: {
+          empathy: Number,
+          initiative: Number,
+          engagement: Number,
+          clarity: Number,
+          confidence: Number,
+        },
+        default: null,
+      },
+    },
   },
-  { timestamps: true }
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret) {
+        delete ret.passwordHash;
+        delete ret.visitorTokenHash;
+        return ret;
+      },
+    },
+  }
 );
 
 export default mongoose.models.User ||
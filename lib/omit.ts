@@ -0,0 +1,11 @@
+/**
+ * Copy of an object without the given keys, for stripping fields before
+ * sending or exporting a document
+ */
+export function omit<T extends object, K extends keyof T>(value: T, ...keys: K[]): Omit<T, K> {
+  const copy: Partial<T> = { ...value };
+  for (const key of keys) {
+    delete copy[key];
+  }
+  return copy as Omit<T, K>;
+}
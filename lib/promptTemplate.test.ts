@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  TEMPLATE_VARIABLES,
+  checkTemplateValue,
+  findTemplateErrors,
+  parseSessionValues,
+  renderTemplate,
+  resolveTemplateValues,
+  sanitizeSessionValues,
+} from "./promptTemplate";
+import { Scenario, scenarios } from "./scenarios";
+
+const base: Scenario = Object.values(scenarios)[0];
+
+// Declares a name (with a default) and where they are, but not a shared interest
+const personalized: Scenario = {
+  ...base,
+  persona: { name: "Jordan" },
+  variables: [{ name: "partnerName", default: "Riley" }, { name: "location" }],
+};
+
+describe("resolveTemplateValues", () => {
+  it("uses the session's value for a declared variable", () => {
+    const values = resolveTemplateValues(personalized, { values: { partnerName: "Sam", location: "a cafe" } });
+    expect(values.partnerName).toBe("Sam");
+    expect(values.location).toBe("a cafe");
+  });
+
+  it("ignores session values for variables the scenario doesn't declare", () => {
+    const values = resolveTemplateValues(personalized, { values: { sharedInterest: "chess" } });
+    expect(values.sharedInterest).toBe(TEMPLATE_VARIABLES.sharedInterest.fallback);
+  });
+
+  it("falls back to the scenario default, then what the app knows, then the generic fallback", () => {
+    expect(resolveTemplateValues(personalized).partnerName).toBe("Riley");
+    expect(resolveTemplateValues({ ...personalized, variables: [] }).partnerName).toBe("Jordan");
+    expect(resolveTemplateValues({ ...personalized, persona: undefined, variables: [] }).partnerName).toBe(
+      TEMPLATE_VARIABLES.partnerName.fallback
+    );
+  });
+
+  it("takes pronouns from the partner's gender and weaknesses from the profile", () => {
+    const values = resolveTemplateValues(base, { gender: "female", weaknesses: ["empathy", "initiative"] });
+    expect(values.pronouns).toBe("she/her");
+    expect(values.weaknesses).toBe("empathy, initiative");
+    expect(resolveTemplateValues(base, { gender: "unspecified" }).pronouns).toBe("they/them");
+  });
+});
+
+describe("renderTemplate", () => {
+  const values = resolveTemplateValues(personalized, {
+    values: { partnerName: "Sam", location: "the park" },
+    gender: "male",
+  });
+
+  it("fills placeholders, case-insensitively and with spaces inside the braces", () => {
+    expect(renderTemplate("Meet {{partnerName}} at {{ LOCATION }}.", values)).toBe("Meet Sam at the park.");
+  });
+
+  it("fills pronoun forms", () => {
+    expect(renderTemplate("{{pronouns.subject}} told me {{pronouns.possessive}} plans", values)).toBe(
+      "he told me his plans"
+    );
+    expect(renderTemplate("{{pronouns}}", values)).toBe("he/him");
+  });
+
+  it("leaves unknown placeholders and forms as written", () => {
+    expect(renderTemplate("{{nickname}} and {{pronouns.plural}}", values)).toBe(
+      "{{nickname}} and {{pronouns.plural}}"
+    );
+  });
+
+  it("keeps the older {{WEAKNESSES}} spelling working", () => {
+    const withWeaknesses = resolveTemplateValues(base, { weaknesses: ["clarity"] });
+    expect(renderTemplate("Practice {{WEAKNESSES}}", withWeaknesses)).toBe("Practice clarity");
+  });
+});
+
+describe("findTemplateErrors", () => {
+  it("reports unknown variables and invalid forms", () => {
+    const errors = findTemplateErrors("{{partnerName}} {{nickname}} {{location.subject}} {{pronouns.plural}}");
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toContain("{{nickname}}");
+    expect(errors[1]).toContain("{{location.subject}}");
+    expect(errors[2]).toContain("{{pronouns.plural}}");
+  });
+
+  it("accepts every valid placeholder", () => {
+    expect(findTemplateErrors("{{userName}} {{pronouns.reflexive}} {{weaknesses}}")).toEqual([]);
+  });
+});
+
+describe("session values", () => {
+  it("trims values and rejects ones too long or of the wrong type", () => {
+    expect(checkTemplateValue("userName", "  Max \n Power ")).toBe("Max Power");
+    expect(checkTemplateValue("userName", "x".repeat(41))).toBeNull();
+    expect(checkTemplateValue("userName", 42)).toBeNull();
+    expect(checkTemplateValue("pronouns", "She/Her")).toBe("she/her");
+    expect(checkTemplateValue("pronouns", "xe/xem")).toBeNull();
+  });
+
+  it("keeps only valid values the home page collects", () => {
+    expect(
+      sanitizeSessionValues({ userName: "Max", pronouns: "it/its", weaknesses: "clarity", extra: "x" })
+    ).toEqual({ userName: "Max" });
+    expect(sanitizeSessionValues("userName=Max")).toEqual({});
+  });
+
+  it("reads the vars search param, ignoring malformed JSON", () => {
+    expect(parseSessionValues('{"location":"the beach"}')).toEqual({ location: "the beach" });
+    expect(parseSessionValues("{not json")).toEqual({});
+    expect(parseSessionValues(null)).toEqual({});
+  });
+});
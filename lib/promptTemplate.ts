@@ -0,0 +1,230 @@
+/**
+ * Prompt Templates
+ * Fills {{placeholders}} in scenario prompts and starter messages with
+ * values chosen for the session, so one scenario can be personalized per
+ * session. Used by the chat routes (system prompts) and the chat pages
+ * (starter message), so it must stay free of server-only imports.
+ *
+ *   {{partnerName}}        -> "Alex"
+ *   {{pronouns}}           -> "they/them"
+ *   {{pronouns.subject}}   -> "they" (also .object, .possessive, .reflexive)
+ *   {{WEAKNESSES}}         -> older spelling of {{weaknesses}}
+ */
+
+import {
+  TEMPLATE_VARIABLE_NAMES,
+  Scenario,
+  ScenarioDifficulty,
+  ScenarioSummary,
+  TemplateVariableName,
+} from "./scenarios";
+import { PartnerGender } from "./toneToVoiceSettings";
+
+export type TemplateVariableType = "text" | "longText" | "pronouns" | "list";
+
+export interface TemplateVariableDefinition {
+  type: TemplateVariableType;
+  label: string;
+  maxLength: number;
+  fallback: string; // When neither the session nor the scenario gives a value
+  collected: boolean; // Asked for on the home page; the rest are filled in by the app
+}
+
+export const TEMPLATE_VARIABLES: Record<TemplateVariableName, TemplateVariableDefinition> = {
+  partnerName: {
+    type: "text",
+    label: "Partner's name",
+    maxLength: 40,
+    fallback: "your character",
+    collected: true,
+  },
+  userName: { type: "text", label: "Your name", maxLength: 40, fallback: "the user", collected: true },
+  sharedInterest: {
+    type: "text",
+    label: "Something you both like",
+    maxLength: 80,
+    fallback: "a hobby you both enjoy",
+    collected: true,
+  },
+  location: {
+    type: "text",
+    label: "Where you are",
+    maxLength: 80,
+    fallback: "somewhere casual",
+    collected: true,
+  },
+  relationshipHistory: {
+    type: "longText",
+    label: "Your history together",
+    maxLength: 300,
+    fallback: "You don't know each other well yet.",
+    collected: true,
+  },
+  pronouns: {
+    type: "pronouns",
+    label: "Partner's pronouns",
+    maxLength: 20,
+    fallback: "they/them",
+    collected: true,
+  },
+  // From the user's profile (the practice_weaknesses scenario)
+  weaknesses: {
+    type: "list",
+    label: "Skills to practice",
+    maxLength: 200,
+    fallback: "clear and confident communication",
+    collected: false,
+  },
+};
+
+export const PRONOUN_FORMS = ["subject", "object", "possessive", "reflexive"] as const;
+export type PronounForm = (typeof PRONOUN_FORMS)[number];
+
+export const PRONOUN_SETS: Record<string, Record<PronounForm, string>> = {
+  "she/her": { subject: "she", object: "her", possessive: "her", reflexive: "herself" },
+  "he/him": { subject: "he", object: "him", possessive: "his", reflexive: "himself" },
+  "they/them": { subject: "they", object: "them", possessive: "their", reflexive: "themselves" },
+};
+
+// Pronouns assumed from the partner's gender when the session doesn't pick
+// any; an unspecified partner gets the they/them fallback
+const GENDER_PRONOUNS: Partial<Record<PartnerGender, string>> = {
+  female: "she/her",
+  male: "he/him",
+  nonbinary: "they/them",
+};
+
+// How the partner's gender is stated in the system prompt
+const GENDER_IDENTITIES: Record<PartnerGender, string> = {
+  female: "You are female.",
+  male: "You are male.",
+  nonbinary: "You are non-binary.",
+  unspecified: "Your gender isn't specified; don't bring it up.",
+};
+
+export type TemplateValues = Record<TemplateVariableName, string>;
+export type SessionTemplateValues = Partial<Record<TemplateVariableName, string>>;
+
+const TOKEN_PATTERN = /\{\{\s*([A-Za-z]+)(?:\.([A-Za-z]+))?\s*\}\}/g;
+
+function toVariableName(token: string): TemplateVariableName | undefined {
+  return TEMPLATE_VARIABLE_NAMES.find((name) => name.toLowerCase() === token.toLowerCase());
+}
+
+/**
+ * Problems with the placeholders in a template, e.g. an unknown variable
+ * or a pronoun form on a variable that isn't pronouns
+ */
+export function findTemplateErrors(text: string): string[] {
+  const errors: string[] = [];
+  for (const [token, name, form] of text.matchAll(TOKEN_PATTERN)) {
+    const variable = toVariableName(name);
+    if (!variable) {
+      errors.push(`${token} is not a known variable (${TEMPLATE_VARIABLE_NAMES.join(", ")})`);
+    } else if (form && (variable !== "pronouns" || !PRONOUN_FORMS.includes(form as PronounForm))) {
+      errors.push(`${token} is not a valid form; pronouns allow ${PRONOUN_FORMS.join(", ")}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * A session or scenario value for a variable, trimmed, or null if it
+ * doesn't fit the variable's type
+ */
+export function checkTemplateValue(name: TemplateVariableName, value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.replace(/\s+/g, " ").trim();
+  if (!trimmed || trimmed.length > TEMPLATE_VARIABLES[name].maxLength) return null;
+  if (TEMPLATE_VARIABLES[name].type === "pronouns" && !PRONOUN_SETS[trimmed.toLowerCase()]) {
+    return null;
+  }
+  return TEMPLATE_VARIABLES[name].type === "pronouns" ? trimmed.toLowerCase() : trimmed;
+}
+
+/**
+ * Keep the valid, collectable values from a request or URL. Anything else
+ * is dropped rather than rejected, so a bad value just falls back.
+ */
+export function sanitizeSessionValues(raw: unknown): SessionTemplateValues {
+  if (!raw || typeof raw !== "object") return {};
+
+  const values: SessionTemplateValues = {};
+  for (const name of TEMPLATE_VARIABLE_NAMES) {
+    if (!TEMPLATE_VARIABLES[name].collected) continue;
+    const value = checkTemplateValue(name, (raw as Record<string, unknown>)[name]);
+    if (value) values[name] = value;
+  }
+  return values;
+}
+
+/**
+ * Read the `vars` search param the home page passes to the chat pages
+ */
+export function parseSessionValues(param: string | null): SessionTemplateValues {
+  if (!param) return {};
+  try {
+    return sanitizeSessionValues(JSON.parse(param));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * The value of every variable for a session: what the user entered for the
+ * variables the scenario declares, else the scenario's default, else what
+ * the app knows (persona name, the partner's gender, the user's weaknesses),
+ * else a generic fallback
+ */
+export function resolveTemplateValues(
+  scenario: ScenarioSummary,
+  context: { values?: SessionTemplateValues; gender?: PartnerGender; weaknesses?: string[] } = {}
+): TemplateValues {
+  const declared = new Map((scenario.variables || []).map((variable) => [variable.name, variable]));
+  const known: SessionTemplateValues = {
+    partnerName: scenario.persona?.name,
+    pronouns: context.gender ? GENDER_PRONOUNS[context.gender] : undefined,
+    weaknesses: context.weaknesses?.length ? context.weaknesses.join(", ") : undefined,
+  };
+
+  const values = {} as TemplateValues;
+  for (const name of TEMPLATE_VARIABLE_NAMES) {
+    values[name] =
+      (declared.has(name) ? context.values?.[name] : undefined) ||
+      declared.get(name)?.default ||
+      known[name] ||
+      TEMPLATE_VARIABLES[name].fallback;
+  }
+  return values;
+}
+
+/**
+ * Replace every placeholder with its value. Unknown placeholders are left
+ * as written (the scenario catalog rejects them on save).
+ */
+export function renderTemplate(text: string, values: TemplateValues): string {
+  return text.replace(TOKEN_PATTERN, (token, name: string, form?: string) => {
+    const variable = toVariableName(name);
+    if (!variable) return token;
+    if (variable === "pronouns" && form) {
+      return PRONOUN_SETS[values.pronouns]?.[form as PronounForm] ?? token;
+    }
+    return values[variable];
+  });
+}
+
+/**
+ * The partner's system prompt for a difficulty, with the session's values
+ * filled in and the partner's gender and pronouns stated
+ */
+export function buildPartnerPrompt(
+  scenario: Scenario,
+  difficulty: ScenarioDifficulty,
+  values: TemplateValues,
+  gender: PartnerGender
+): string {
+  const prompt = renderTemplate(scenario.systemPrompts[difficulty], values);
+  const userName =
+    values.userName !== TEMPLATE_VARIABLES.userName.fallback ? ` The user's name is ${values.userName}.` : "";
+  return `${prompt}\n\n${GENDER_IDENTITIES[gender]} Your pronouns are ${values.pronouns}.${userName}`;
+}
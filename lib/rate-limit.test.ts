@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { checkRateLimit, getQuota, getRateLimitKey } from "./rate-limit";
+
+describe("checkRateLimit (in-memory buckets)", () => {
+  let visitor = 0;
+  let key: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    vi.stubEnv("RATE_LIMIT_STORE", "");
+    vi.stubEnv("RATE_LIMIT_CHAT_PER_MINUTE", "6"); // One token every 10 seconds
+    vi.stubEnv("RATE_LIMIT_CHAT_BURST", "3");
+    // A fresh bucket for every test
+    key = `test-visitor-${++visitor}`;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("reads quotas from the environment", () => {
+    expect(getQuota("chat")).toEqual({ perMinute: 6, burst: 3 });
+    vi.stubEnv("RATE_LIMIT_CHAT_BURST", "0");
+    expect(getQuota("chat").burst).toBe(5); // Below 1 is ignored
+  });
+
+  it("allows a burst, then denies with the time until the next token", async () => {
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await checkRateLimit("chat", key));
+
+    expect(results.map((r) => r.allowed)).toEqual([true, true, true, false]);
+    expect(results.map((r) => r.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3].retryAfterMs).toBe(10_000);
+  });
+
+  it("refills at the per-minute rate", async () => {
+    for (let i = 0; i < 3; i++) await checkRateLimit("chat", key);
+
+    vi.advanceTimersByTime(5_000);
+    const early = await checkRateLimit("chat", key);
+    expect(early.allowed).toBe(false);
+    expect(early.retryAfterMs).toBe(5_000);
+
+    vi.advanceTimersByTime(5_000);
+    expect((await checkRateLimit("chat", key)).allowed).toBe(true);
+    expect((await checkRateLimit("chat", key)).allowed).toBe(false);
+  });
+
+  it("never refills past the burst size", async () => {
+    await checkRateLimit("chat", key);
+    vi.advanceTimersByTime(10 * 60_000);
+
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push((await checkRateLimit("chat", key)).allowed);
+    expect(results).toEqual([true, true, true, false]);
+  });
+
+  it("keeps separate buckets per route and per caller", async () => {
+    for (let i = 0; i < 3; i++) await checkRateLimit("chat", key);
+
+    expect((await checkRateLimit("chat", key)).allowed).toBe(false);
+    expect((await checkRateLimit("tts", key)).allowed).toBe(true);
+    expect((await checkRateLimit("chat", `${key}-other`)).allowed).toBe(true);
+  });
+});
+
+describe("getRateLimitKey", () => {
+  function request(headers: Record<string, string>) {
+    return new NextRequest("http://localhost/api/chat", { headers });
+  }
+
+  it("ignores the client-supplied visitor header", async () => {
+    const key = await getRateLimitKey(
+      request({ "x-visitor-id": "anything", "x-forwarded-for": "203.0.113.7" })
+    );
+    expect(key).toBe("ip:203.0.113.7");
+  });
+
+  it("uses the address the proxy appended, not ones the client sent", async () => {
+    const key = await getRateLimitKey(request({ "x-forwarded-for": "10.0.0.1, 198.51.100.2" }));
+    expect(key).toBe("ip:198.51.100.2");
+  });
+
+  it("keys verified callers by identity", async () => {
+    const req = request({ "x-forwarded-for": "203.0.113.7" });
+    expect(await getRateLimitKey(req, { visitorId: "v-1", account: null })).toBe("visitor:v-1");
+  });
+});
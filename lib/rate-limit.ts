@@ -1,23 +1,214 @@
-// Simple in-memory sliding window rate limiter
-const requests: number[] = [];
+// Token-bucket rate limiter keyed by caller and route
+//
+// Each caller gets one bucket per route: signed-in accounts and visitors by
+// their verified identity, anyone else by IP (see getRateLimitKey). A bucket holds up to `burst` tokens
+// and refills at `perMinute` tokens per minute; each request takes one token.
+//
+// Quotas are configurable per route, e.g. RATE_LIMIT_CHAT_PER_MINUTE=10 and
+// RATE_LIMIT_CHAT_BURST=5. Buckets live in memory by default; set
+// RATE_LIMIT_STORE=mongo to keep them in MongoDB so limits survive restarts
+// and are shared between server instances.
+import { NextRequest } from "next/server";
+import dbConnect from "./mongodb";
+import RateLimitBucket from "./models/RateLimitBucket";
+import { RequestIdentity, getRequestIdentity } from "./identity";
 
-const RPM_LIMIT = 5; // max requests per minute (Gemini free tier is ~15, stay under)
-const WINDOW_MS = 60_000; // 1 minute
+export type RateLimitRoute = "chat" | "analyze" | "tts" | "transcribe";
 
-export function checkRateLimit(): { allowed: boolean; retryAfterMs: number } {
-  const now = Date.now();
+export interface RateLimitQuota {
+  perMinute: number; // Refill rate
+  burst: number; // Bucket capacity
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number;
+  remaining: number;
+}
+
+// Defaults keep LLM routes under the Gemini free tier (~15 RPM)
+const DEFAULT_QUOTAS: Record<RateLimitRoute, RateLimitQuota> = {
+  chat: { perMinute: 10, burst: 5 },
+  analyze: { perMinute: 3, burst: 2 },
+  tts: { perMinute: 20, burst: 10 },
+  transcribe: { perMinute: 20, burst: 10 },
+};
+
+export function getQuota(route: RateLimitRoute): RateLimitQuota {
+  const prefix = `RATE_LIMIT_${route.toUpperCase()}`;
+  const perMinute = parseFloat(process.env[`${prefix}_PER_MINUTE`] || "");
+  const burst = parseFloat(process.env[`${prefix}_BURST`] || "");
+  const defaults = DEFAULT_QUOTAS[route];
+
+  return {
+    perMinute: perMinute > 0 ? perMinute : defaults.perMinute,
+    burst: burst >= 1 ? burst : defaults.burst,
+  };
+}
+
+/**
+ * The client address as our proxy saw it. Each proxy appends the address it
+ * received the request from to X-Forwarded-For, so only the last entry is
+ * out of the client's reach; anything before it may be made up.
+ */
+export function getClientIp(req: NextRequest): string | null {
+  const forwardedFor = req.headers.get("x-forwarded-for");
+  const lastHop = forwardedFor?.split(",").pop()?.trim();
+  return lastHop || req.headers.get("x-real-ip") || null;
+}
+
+/**
+ * Identify the caller for rate limiting: the signed-in account or the
+ * visitor proven by its cookie, else the client IP. Pass the identity when
+ * the route has already looked it up.
+ */
+export async function getRateLimitKey(
+  req: NextRequest,
+  identity?: RequestIdentity | null
+): Promise<string> {
+  const caller = identity === undefined ? await getRequestIdentity(req) : identity;
+  if (caller?.account) return `user:${caller.account._id}`;
+  if (caller) return `visitor:${caller.visitorId}`;
 
-  // Remove entries older than the window
-  while (requests.length > 0 && requests[0] < now - WINDOW_MS) {
-    requests.shift();
+  const ip = getClientIp(req);
+  return ip ? `ip:${ip}` : "anonymous";
+}
+
+function msUntilNextToken(tokens: number, quota: RateLimitQuota): number {
+  return Math.ceil(((1 - tokens) * 60_000) / quota.perMinute);
+}
+
+function msUntilFull(quota: RateLimitQuota): number {
+  return Math.ceil((quota.burst * 60_000) / quota.perMinute);
+}
+
+// --- In-memory store ---
+
+interface MemoryBucket {
+  tokens: number;
+  updatedAtMs: number;
+  expiresAtMs: number; // When the bucket would be full again if left idle
+}
+
+declare global {
+  var rateLimitBuckets: Map<string, MemoryBucket> | undefined;
+}
+
+// Kept on globalThis so buckets survive hot reloads in development
+const memoryBuckets: Map<string, MemoryBucket> =
+  globalThis.rateLimitBuckets ?? new Map();
+
+if (!globalThis.rateLimitBuckets) {
+  globalThis.rateLimitBuckets = memoryBuckets;
+}
+
+function takeFromMemory(key: string, quota: RateLimitQuota, now: number): RateLimitResult {
+  // Drop buckets that have been idle long enough to be full again
+  for (const [bucketKey, bucket] of memoryBuckets) {
+    if (bucket.expiresAtMs < now) {
+      memoryBuckets.delete(bucketKey);
+    }
+  }
+
+  const expiresAtMs = now + msUntilFull(quota);
+  const bucket = memoryBuckets.get(key) ?? { tokens: quota.burst, updatedAtMs: now };
+  const elapsedMs = now - bucket.updatedAtMs;
+  const tokens = Math.min(quota.burst, bucket.tokens + (elapsedMs * quota.perMinute) / 60_000);
+
+  if (tokens < 1) {
+    memoryBuckets.set(key, { tokens, updatedAtMs: now, expiresAtMs });
+    return { allowed: false, retryAfterMs: msUntilNextToken(tokens, quota), remaining: 0 };
+  }
+
+  memoryBuckets.set(key, { tokens: tokens - 1, updatedAtMs: now, expiresAtMs });
+  return { allowed: true, retryAfterMs: 0, remaining: Math.floor(tokens - 1) };
+}
+
+// --- MongoDB store ---
+
+async function takeFromMongo(
+  key: string,
+  quota: RateLimitQuota,
+  now: number
+): Promise<RateLimitResult> {
+  await dbConnect();
+
+  const perMs = quota.perMinute / 60_000;
+
+  // Refill and take in a single atomic update so concurrent requests and
+  // multiple instances cannot overspend a bucket
+  const bucket = await RateLimitBucket.findOneAndUpdate(
+    { key },
+    [
+      {
+        $set: {
+          tokens: {
+            $min: [
+              quota.burst,
+              {
+                $add: [
+                  { $ifNull: ["$tokens", quota.burst] },
+                  {
+                    $multiply: [{ $subtract: [now, { $ifNull: ["$updatedAtMs", now] }] }, perMs],
+                  },
+                ],
+              },
+            ],
+          },
+          updatedAtMs: now,
+          expiresAt: new Date(now + msUntilFull(quota)),
+        },
+      },
+      { $set: { allowed: { $gte: ["$tokens", 1] } } },
+      {
+        $set: {
+          tokens: { $cond: ["$allowed", { $subtract: ["$tokens", 1] }, "$tokens"] },
+        },
+      },
+    ],
+    { upsert: true, returnDocument: "after", updatePipeline: true }
+  );
+
+  if (!bucket.allowed) {
+    return {
+      allowed: false,
+      retryAfterMs: msUntilNextToken(bucket.tokens, quota),
+      remaining: 0,
+    };
   }
+  return { allowed: true, retryAfterMs: 0, remaining: Math.floor(bucket.tokens) };
+}
+
+/**
+ * Take one token from the caller's bucket for a route
+ */
+export async function checkRateLimit(
+  route: RateLimitRoute,
+  visitorKey: string
+): Promise<RateLimitResult> {
+  const quota = getQuota(route);
+  const key = `${route}:${visitorKey}`;
+  const now = Date.now();
 
-  if (requests.length >= RPM_LIMIT) {
-    const oldestInWindow = requests[0];
-    const retryAfterMs = oldestInWindow + WINDOW_MS - now;
-    return { allowed: false, retryAfterMs };
+  if (process.env.RATE_LIMIT_STORE === "mongo") {
+    try {
+      return await takeFromMongo(key, quota, now);
+    } catch (error) {
+      // Don't take the app down with the limiter; fall back to this instance's memory
+      console.error("Rate limit store error, using in-memory buckets:", error);
+    }
   }
 
-  requests.push(now);
-  return { allowed: true, retryAfterMs: 0 };
+  return takeFromMemory(key, quota, now);
+}
+
+/**
+ * Standard 429 response for a denied request
+ */
+export function rateLimitedResponse(retryAfterMs: number): Response {
+  const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+  return Response.json(
+    { error: `Rate limited. Try again in ${retryAfterSeconds} seconds.` },
+    { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+  );
 }
@@ -0,0 +1,72 @@
+/**
+ * Conversation Retention
+ * Practice transcripts can be personal, so they don't have to be kept
+ * forever. With CONVERSATION_RETENTION_DAYS set, a conversation is purged
+ * once it has gone that many days without changing (a new turn, ending it
+ * or re-analyzing it all count). Unset or 0 keeps conversations until their
+ * owner deletes them.
+ *
+ * The app never purges on its own, since a serverless deploy has no process
+ * to schedule it in. Running `npm run purge:conversations` from cron (or the
+ * host's scheduled jobs) is the supported way to apply the policy.
+ */
+
+import dbConnect from "./mongodb";
+import Conversation from "./models/Conversation";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Conversations that last changed before `cutoff`. Those saved before
+ * timestamps were kept have no updatedAt, so they go by when they were
+ * created and their latest message; one with neither is kept.
+ */
+function lastChangedBefore(cutoff: Date) {
+  return {
+    $or: [
+      { updatedAt: { $lt: cutoff } },
+      {
+        updatedAt: null,
+        $or: [{ createdAt: { $lt: cutoff } }, { createdAt: null, "messages.0": { $exists: true } }],
+        messages: { $not: { $elemMatch: { timestamp: { $gte: cutoff.getTime() } } } },
+      },
+    ],
+  };
+}
+
+/**
+ * Days conversations are kept, or null to keep them forever
+ */
+export function getRetentionDays(): number | null {
+  const raw = process.env.CONVERSATION_RETENTION_DAYS;
+  if (!raw) return null;
+
+  const days = Number(raw);
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error(`CONVERSATION_RETENTION_DAYS must be a number of days, got "${raw}"`);
+  }
+  return days > 0 ? days : null;
+}
+
+/**
+ * Delete every conversation past the retention period; with dryRun, only
+ * count them
+ */
+export async function purgeExpiredConversations(
+  options: { dryRun?: boolean; now?: Date } = {}
+): Promise<{ retentionDays: number | null; cutoff: Date | null; deleted: number }> {
+  const retentionDays = getRetentionDays();
+  if (retentionDays === null) {
+    return { retentionDays, cutoff: null, deleted: 0 };
+  }
+
+  const cutoff = new Date((options.now ?? new Date()).getTime() - retentionDays * DAY_MS);
+  const expired = lastChangedBefore(cutoff);
+
+  await dbConnect();
+  const deleted = options.dryRun
+    ? await Conversation.countDocuments(expired)
+    : (await Conversation.deleteMany(expired)).deletedCount;
+
+  return { retentionDays, cutoff, deleted };
+}
@@ -0,0 +1,834 @@
+/**
+ * Scenario Catalog
+ * Merges the built-in scenarios with custom ones that coaches author through
+ * /api/scenarios and validates authoring requests
+ */
+
+import dbConnect from "./mongodb";
+import ScenarioModel, { IScenario } from "./models/Scenario";
+import ScenarioImage from "./models/ScenarioImage";
+import { IUser } from "./models/User";
+import {
+  CONVERSATION_EVENT_TYPES,
+  SCENARIO_CATEGORIES,
+  SCENARIO_DIFFICULTIES,
+  SCENARIO_ENDINGS,
+  TEMPLATE_VARIABLE_NAMES,
+  VOICE_TYPES,
+  Scenario,
+  ScenarioBranch,
+  ScenarioCategory,
+  ConversationEventType,
+  ScenarioEnding,
+  ScenarioEvent,
+  ScenarioObjective,
+  ScenarioPersona,
+  ScenarioStage,
+  ScenarioSummary,
+  ScenarioVariable,
+  ScenarioVoicePersona,
+  TemplateVariableName,
+  VoiceType,
+  scenarios as builtInScenarios,
+} from "./scenarios";
+import { checkTemplateValue, findTemplateErrors } from "./promptTemplate";
+import { PARTNER_GENDERS, PartnerGender } from "./toneToVoiceSettings";
+import { isVoiceReference } from "./voiceCatalog";
+import { omit } from "./omit";
+
+export class ScenarioError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400,
+    public details: string[] = [] // One message per invalid field
+  ) {
+    super(message);
+    this.name = "ScenarioError";
+  }
+}
+
+// Optional fields are null when an update clears them
+export type ScenarioInput = Pick<
+  Scenario,
+  "title" | "description" | "icon" | "category" | "starterMessage" | "systemPrompts"
+> & {
+  persona?: ScenarioPersona | null;
+  goals?: string[];
+  objectives?: ScenarioObjective[];
+  stages?: ScenarioStage[];
+  maxTurns?: number | null;
+  variables?: ScenarioVariable[];
+  events?: ScenarioEvent[];
+  voicePersona?: ScenarioVoicePersona | null;
+};
+
+export const ID_PATTERN = /^[a-z0-9][a-z0-9_-]{2,49}$/;
+
+// Objective and stage IDs, unique within a scenario
+const FLOW_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+
+const MAX_LENGTHS = {
+  title: 80,
+  description: 300,
+  icon: 16,
+  starterMessage: 1000,
+  systemPrompt: 8000,
+  personaName: 40,
+  personaDescription: 300,
+  goal: 200,
+  objective: 200,
+  stageTitle: 80,
+  partnerPrompt: 2000,
+  branchCondition: 200,
+  variableLabel: 40,
+  eventInstruction: 300,
+};
+
+const MAX_GOALS = 10;
+const MAX_OBJECTIVES = 10;
+const MAX_STAGES = 10;
+const MAX_BRANCHES = 5;
+const MAX_TURNS = 100;
+const MAX_EVENT_WEIGHT = 10;
+
+const DEFAULT_ICON = "\u{1F4AC}";
+
+export const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+
+// Leading bytes of the image formats we accept. SVG is excluded because it
+// can carry script.
+const IMAGE_SIGNATURES: { contentType: string; matches: (bytes: Buffer) => boolean }[] = [
+  { contentType: "image/png", matches: (b) => b.subarray(0, 4).toString("hex") === "89504e47" },
+  { contentType: "image/jpeg", matches: (b) => b.subarray(0, 3).toString("hex") === "ffd8ff" },
+  { contentType: "image/gif", matches: (b) => b.subarray(0, 4).toString("latin1") === "GIF8" },
+  {
+    contentType: "image/webp",
+    matches: (b) =>
+      b.subarray(0, 4).toString("latin1") === "RIFF" && b.subarray(8, 12).toString("latin1") === "WEBP",
+  },
+];
+
+export function isCoach(account: IUser | null): boolean {
+  return account?.role === "coach";
+}
+
+export function isBuiltInScenario(id: string): boolean {
+  return Object.prototype.hasOwnProperty.call(builtInScenarios, id);
+}
+
+export function scenarioImageUrl(scenarioId: string, updatedAt: Date | null): string {
+  return `/api/scenarios/${scenarioId}/image?v=${updatedAt?.getTime() ?? 0}`;
+}
+
+function toVoicePersona(stored: ScenarioVoicePersona): ScenarioVoicePersona {
+  const voiceIds: NonNullable<ScenarioVoicePersona["voiceIds"]> = {};
+  for (const gender of PARTNER_GENDERS) {
+    const voiceId = stored.voiceIds?.[gender];
+    if (voiceId) voiceIds[gender] = voiceId;
+  }
+  return {
+    ...(stored.voiceType && { voiceType: stored.voiceType }),
+    ...(Object.keys(voiceIds).length > 0 && { voiceIds }),
+  };
+}
+
+function toStage(stored: ScenarioStage): ScenarioStage {
+  return {
+    id: stored.id,
+    title: stored.title,
+    ...(stored.partnerPrompt && { partnerPrompt: stored.partnerPrompt }),
+    objectives: [...stored.objectives],
+    ...(stored.next && { next: stored.next }),
+    ...(stored.branches?.length && {
+      branches: stored.branches.map(({ when, to }) => ({ when, to })),
+    }),
+  };
+}
+
+function toVariable(stored: ScenarioVariable): ScenarioVariable {
+  return {
+    name: stored.name,
+    ...(stored.label && { label: stored.label }),
+    ...(stored.default && { default: stored.default }),
+  };
+}
+
+function toEvent(stored: ScenarioEvent): ScenarioEvent {
+  return {
+    type: stored.type,
+    ...(stored.instruction && { instruction: stored.instruction }),
+    ...(stored.weight && { weight: stored.weight }),
+  };
+}
+
+function toScenario(doc: IScenario): Scenario {
+  return {
+    id: doc.scenarioId,
+    title: doc.title,
+    description: doc.description,
+    icon: doc.icon || DEFAULT_ICON,
+    ...(doc.hasImage && { imageUrl: scenarioImageUrl(doc.scenarioId, doc.imageUpdatedAt) }),
+    category: doc.category,
+    ...(doc.persona?.name && {
+      persona: {
+        name: doc.persona.name,
+        ...(doc.persona.description && { description: doc.persona.description }),
+      },
+    }),
+    starterMessage: doc.starterMessage,
+    systemPrompts: {
+      easy: doc.systemPrompts.easy,
+      medium: doc.systemPrompts.medium,
+      hard: doc.systemPrompts.hard,
+    },
+    ...(doc.goals?.length && { goals: [...doc.goals] }),
+    ...(doc.objectives?.length && {
+      objectives: doc.objectives.map(({ id, description }) => ({ id, description })),
+    }),
+    ...(doc.stages?.length && { stages: doc.stages.map(toStage) }),
+    ...(doc.maxTurns && { maxTurns: doc.maxTurns }),
+    ...(doc.variables?.length && { variables: doc.variables.map(toVariable) }),
+    ...(doc.events?.length && { events: doc.events.map(toEvent) }),
+    ...(doc.voicePersona && { voicePersona: toVoicePersona(doc.voicePersona) }),
+    custom: true,
+  };
+}
+
+/**
+ * Everything but the system prompts, which only the server and coaches need
+ */
+export function toScenarioSummary(scenario: Scenario): ScenarioSummary {
+  return omit(scenario, "systemPrompts");
+}
+
+/**
+ * Look up a built-in or custom scenario by ID
+ */
+export async function getScenario(id: string): Promise<Scenario | null> {
+  if (isBuiltInScenario(id)) {
+    return builtInScenarios[id];
+  }
+  if (!ID_PATTERN.test(id)) {
+    return null;
+  }
+
+  await dbConnect();
+  const doc = await ScenarioModel.findOne({ scenarioId: id });
+  return doc ? toScenario(doc) : null;
+}
+
+/**
+ * Built-in scenarios first, then custom ones in the order they were created
+ */
+export async function listScenarios(): Promise<Scenario[]> {
+  await dbConnect();
+  const docs: IScenario[] = await ScenarioModel.find().sort({ createdAt: 1 });
+  return [...Object.values(builtInScenarios), ...docs.map(toScenario)];
+}
+
+export function slugifyScenarioId(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 50);
+}
+
+function checkText(
+  errors: string[],
+  field: string,
+  value: unknown,
+  maxLength: number
+): string | undefined {
+  if (typeof value !== "string" || !value.trim()) {
+    errors.push(`${field} is required`);
+    return undefined;
+  }
+  if (value.length > maxLength) {
+    errors.push(`${field} must be at most ${maxLength} characters`);
+    return undefined;
+  }
+  return value.trim();
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function checkPersona(errors: string[], field: string, value: unknown): ScenarioPersona | undefined {
+  if (!isObject(value)) {
+    errors.push(`${field} must be an object with a name`);
+    return undefined;
+  }
+  const name = checkText(errors, `${field}.name`, value.name, MAX_LENGTHS.personaName);
+  const description =
+    value.description === undefined || value.description === null
+      ? undefined
+      : checkText(errors, `${field}.description`, value.description, MAX_LENGTHS.personaDescription);
+  return name ? { name, ...(description && { description }) } : undefined;
+}
+
+function checkGoals(errors: string[], field: string, value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be a list of strings`);
+    return undefined;
+  }
+  if (value.length > MAX_GOALS) {
+    errors.push(`${field} must have at most ${MAX_GOALS} items`);
+    return undefined;
+  }
+  const goals = value.map((goal, i) => checkText(errors, `${field}[${i}]`, goal, MAX_LENGTHS.goal));
+  return goals.every(Boolean) ? (goals as string[]) : undefined;
+}
+
+function checkVoicePersona(
+  errors: string[],
+  field: string,
+  value: unknown
+): ScenarioVoicePersona | undefined {
+  if (!isObject(value)) {
+    errors.push(`${field} must be an object`);
+    return undefined;
+  }
+
+  const result: ScenarioVoicePersona = {};
+  if (value.voiceType !== undefined) {
+    if (VOICE_TYPES.includes(value.voiceType as VoiceType)) {
+      result.voiceType = value.voiceType as VoiceType;
+    } else {
+      errors.push(`${field}.voiceType must be one of: ${VOICE_TYPES.join(", ")}`);
+    }
+  }
+
+  if (value.voiceIds !== undefined) {
+    if (!isObject(value.voiceIds)) {
+      errors.push(`${field}.voiceIds must be an object with a voice per partner gender`);
+    } else {
+      const voiceIds: NonNullable<ScenarioVoicePersona["voiceIds"]> = {};
+      for (const gender of Object.keys(value.voiceIds)) {
+        const voiceId = value.voiceIds[gender];
+        if (!PARTNER_GENDERS.includes(gender as PartnerGender)) {
+          errors.push(`${field}.voiceIds.${gender} is not one of: ${PARTNER_GENDERS.join(", ")}`);
+        } else if (typeof voiceId === "string" && isVoiceReference(voiceId)) {
+          voiceIds[gender as PartnerGender] = voiceId;
+        } else {
+          errors.push(`${field}.voiceIds.${gender} must be a configured voice or an ElevenLabs voice ID`);
+        }
+      }
+      result.voiceIds = voiceIds;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Report unknown {{placeholders}} so a typo doesn't reach the partner
+ * verbatim
+ */
+function checkTemplate(errors: string[], field: string, value: string | undefined): void {
+  if (!value) return;
+  for (const error of findTemplateErrors(value)) {
+    errors.push(`${field}: ${error}`);
+  }
+}
+
+function checkVariables(errors: string[], field: string, value: unknown): ScenarioVariable[] | undefined {
+  if (!Array.isArray(value) || value.length > TEMPLATE_VARIABLE_NAMES.length) {
+    errors.push(
+      `${field} must be a list of at most ${TEMPLATE_VARIABLE_NAMES.length} { name, label?, default? } objects`
+    );
+    return undefined;
+  }
+
+  const seen = new Set<string>();
+  return value.map((variable, i) => {
+    const item = isObject(variable) ? variable : {};
+    const path = `${field}[${i}]`;
+    const name = item.name as TemplateVariableName;
+    if (!TEMPLATE_VARIABLE_NAMES.includes(name)) {
+      errors.push(`${path}.name must be one of: ${TEMPLATE_VARIABLE_NAMES.join(", ")}`);
+    } else if (seen.has(name)) {
+      errors.push(`${path}.name "${name}" is declared more than once`);
+    } else {
+      seen.add(name);
+    }
+
+    const label =
+      item.label === undefined
+        ? undefined
+        : checkText(errors, `${path}.label`, item.label, MAX_LENGTHS.variableLabel);
+    let defaultValue: string | undefined;
+    if (item.default !== undefined && TEMPLATE_VARIABLE_NAMES.includes(name)) {
+      defaultValue = checkTemplateValue(name, item.default) ?? undefined;
+      if (!defaultValue) {
+        errors.push(`${path}.default is not a valid value for ${name}`);
+      }
+    }
+
+    return { name, ...(label && { label }), ...(defaultValue && { default: defaultValue }) };
+  });
+}
+
+function checkEvents(errors: string[], field: string, value: unknown): ScenarioEvent[] | undefined {
+  if (!Array.isArray(value) || value.length > CONVERSATION_EVENT_TYPES.length) {
+    errors.push(
+      `${field} must be a list of at most ${CONVERSATION_EVENT_TYPES.length} { type, instruction?, weight? } objects`
+    );
+    return undefined;
+  }
+
+  const seen = new Set<string>();
+  return value.map((event, i) => {
+    const item = isObject(event) ? event : {};
+    const path = `${field}[${i}]`;
+    const type = item.type as ConversationEventType;
+    if (!CONVERSATION_EVENT_TYPES.includes(type)) {
+      errors.push(`${path}.type must be one of: ${CONVERSATION_EVENT_TYPES.join(", ")}`);
+    } else if (seen.has(type)) {
+      errors.push(`${path}.type "${type}" is listed more than once`);
+    } else {
+      seen.add(type);
+    }
+
+    const instruction =
+      item.instruction === undefined
+        ? undefined
+        : checkText(errors, `${path}.instruction`, item.instruction, MAX_LENGTHS.eventInstruction);
+    checkTemplate(errors, `${path}.instruction`, instruction);
+
+    const weight = item.weight as number;
+    if (item.weight !== undefined && !(typeof weight === "number" && weight > 0 && weight <= MAX_EVENT_WEIGHT)) {
+      errors.push(`${path}.weight must be a number above 0 and at most ${MAX_EVENT_WEIGHT}`);
+    }
+
+    return {
+      type,
+      ...(instruction && { instruction }),
+      ...(item.weight !== undefined && { weight }),
+    };
+  });
+}
+
+function checkFlowId(errors: string[], field: string, value: unknown, seen: Set<string>): string {
+  if (typeof value !== "string" || !FLOW_ID_PATTERN.test(value)) {
+    errors.push(`${field} must be 1-40 lowercase letters, digits, '-' or '_'`);
+  } else if (seen.has(value)) {
+    errors.push(`${field} "${value}" is used more than once`);
+  } else {
+    seen.add(value);
+  }
+  return value as string;
+}
+
+function checkObjectives(
+  errors: string[],
+  field: string,
+  value: unknown
+): ScenarioObjective[] | undefined {
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be a list of { id, description } objects`);
+    return undefined;
+  }
+  if (value.length > MAX_OBJECTIVES) {
+    errors.push(`${field} must have at most ${MAX_OBJECTIVES} items`);
+    return undefined;
+  }
+
+  const seen = new Set<string>();
+  return value.map((objective, i) => {
+    const item = isObject(objective) ? objective : {};
+    return {
+      id: checkFlowId(errors, `${field}[${i}].id`, item.id, seen),
+      description: checkText(
+        errors,
+        `${field}[${i}].description`,
+        item.description,
+        MAX_LENGTHS.objective
+      ) as string,
+    };
+  });
+}
+
+function checkBranches(errors: string[], field: string, value: unknown): ScenarioBranch[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.length > MAX_BRANCHES) {
+    errors.push(`${field} must be a list of at most ${MAX_BRANCHES} { when, to } objects`);
+    return undefined;
+  }
+
+  return value.map((branch, i) => {
+    const item = isObject(branch) ? branch : {};
+    if (typeof item.to !== "string" || !item.to) {
+      errors.push(`${field}[${i}].to must be a stage ID or one of: ${SCENARIO_ENDINGS.join(", ")}`);
+    }
+    return {
+      when: checkText(errors, `${field}[${i}].when`, item.when, MAX_LENGTHS.branchCondition) as string,
+      to: item.to as string,
+    };
+  });
+}
+
+function checkStages(errors: string[], field: string, value: unknown): ScenarioStage[] | undefined {
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be a list of stage objects`);
+    return undefined;
+  }
+  if (value.length > MAX_STAGES) {
+    errors.push(`${field} must have at most ${MAX_STAGES} items`);
+    return undefined;
+  }
+
+  const seen = new Set<string>();
+  return value.map((stage, i) => {
+    const item = isObject(stage) ? stage : {};
+    const path = `${field}[${i}]`;
+    if (SCENARIO_ENDINGS.includes(item.id as ScenarioEnding)) {
+      errors.push(`${path}.id can't be "${item.id}", which is reserved for an ending`);
+    }
+    const partnerPrompt =
+      item.partnerPrompt === undefined
+        ? undefined
+        : checkText(errors, `${path}.partnerPrompt`, item.partnerPrompt, MAX_LENGTHS.partnerPrompt);
+
+    if (
+      !Array.isArray(item.objectives) ||
+      item.objectives.length === 0 ||
+      !item.objectives.every((id) => typeof id === "string")
+    ) {
+      errors.push(`${path}.objectives must be a non-empty list of objective IDs`);
+    }
+    if (item.next !== undefined && (typeof item.next !== "string" || !item.next)) {
+      errors.push(`${path}.next must be a stage ID or one of: ${SCENARIO_ENDINGS.join(", ")}`);
+    }
+    const branches = checkBranches(errors, `${path}.branches`, item.branches);
+
+    return {
+      id: checkFlowId(errors, `${path}.id`, item.id, seen),
+      title: checkText(errors, `${path}.title`, item.title, MAX_LENGTHS.stageTitle) as string,
+      ...(partnerPrompt && { partnerPrompt }),
+      objectives: item.objectives as string[],
+      ...(item.next !== undefined && { next: item.next as string }),
+      ...(branches && { branches }),
+    };
+  });
+}
+
+/**
+ * Check that stages only mention declared objectives and lead to declared
+ * stages or endings, and that every objective belongs to some stage
+ */
+function checkStageReferences(
+  errors: string[],
+  path: string,
+  objectives: ScenarioObjective[],
+  stages: ScenarioStage[]
+): void {
+  if (stages.length === 0) return;
+  if (objectives.length === 0) {
+    errors.push(`${path}stages need objectives to complete`);
+    return;
+  }
+
+  const objectiveIds = new Set(objectives.map((objective) => objective.id));
+  const targets = new Set<string>([...SCENARIO_ENDINGS, ...stages.map((stage) => stage.id)]);
+  const staged = new Set<string>();
+
+  stages.forEach((stage, i) => {
+    for (const id of stage.objectives) {
+      if (!objectiveIds.has(id)) {
+        errors.push(`${path}stages[${i}].objectives: "${id}" is not a declared objective`);
+      }
+      staged.add(id);
+    }
+    if (stage.next !== undefined && !targets.has(stage.next)) {
+      errors.push(`${path}stages[${i}].next: "${stage.next}" is not a stage or ending`);
+    }
+    stage.branches?.forEach((branch, j) => {
+      if (!targets.has(branch.to)) {
+        errors.push(`${path}stages[${i}].branches[${j}].to: "${branch.to}" is not a stage or ending`);
+      }
+    });
+  });
+
+  for (const id of objectiveIds) {
+    if (!staged.has(id)) {
+      errors.push(`${path}objectives: "${id}" isn't part of any stage`);
+    }
+  }
+}
+
+/**
+ * Validate a create (every required field) or update (only the fields sent;
+ * systemPrompts may update individual difficulties) request body. On
+ * update, null clears persona, goals, variables, events or voicePersona. `path` prefixes the
+ * field names in error details, e.g. "scenarios[2]." for a scenario pack.
+ */
+export function validateScenarioInput(
+  input: unknown,
+  options: { partial?: boolean; path?: string } = {}
+): Partial<ScenarioInput> {
+  if (!isObject(input)) {
+    throw new ScenarioError("Expected a JSON object");
+  }
+
+  const body = input;
+  const path = options.path || "";
+  const errors: string[] = [];
+  const result: Partial<ScenarioInput> = {};
+  const wants = (field: string) => !options.partial || body[field] !== undefined;
+
+  if (wants("title")) {
+    result.title = checkText(errors, `${path}title`, body.title, MAX_LENGTHS.title);
+  }
+  if (wants("description")) {
+    result.description = checkText(
+      errors,
+      `${path}description`,
+      body.description,
+      MAX_LENGTHS.description
+    );
+  }
+  if (wants("starterMessage")) {
+    result.starterMessage = checkText(
+      errors,
+      `${path}starterMessage`,
+      body.starterMessage,
+      MAX_LENGTHS.starterMessage
+    );
+    checkTemplate(errors, `${path}starterMessage`, result.starterMessage);
+  }
+
+  if (body.icon !== undefined) {
+    result.icon = checkText(errors, `${path}icon`, body.icon, MAX_LENGTHS.icon);
+  } else if (!options.partial) {
+    result.icon = DEFAULT_ICON;
+  }
+
+  if (wants("category")) {
+    if (SCENARIO_CATEGORIES.includes(body.category as ScenarioCategory)) {
+      result.category = body.category as ScenarioCategory;
+    } else {
+      errors.push(`${path}category must be one of: ${SCENARIO_CATEGORIES.join(", ")}`);
+    }
+  }
+
+  if (wants("systemPrompts")) {
+    const prompts = body.systemPrompts;
+    if (!isObject(prompts)) {
+      errors.push(
+        `${path}systemPrompts must have a prompt for each of: ${SCENARIO_DIFFICULTIES.join(", ")}`
+      );
+    } else {
+      const validated: Partial<ScenarioInput["systemPrompts"]> = {};
+      for (const difficulty of SCENARIO_DIFFICULTIES) {
+        const prompt = prompts[difficulty];
+        if (options.partial && prompt === undefined) continue;
+        const value = checkText(
+          errors,
+          `${path}systemPrompts.${difficulty}`,
+          prompt,
+          MAX_LENGTHS.systemPrompt
+        );
+        checkTemplate(errors, `${path}systemPrompts.${difficulty}`, value);
+        if (value) validated[difficulty] = value;
+      }
+      result.systemPrompts = validated as ScenarioInput["systemPrompts"];
+    }
+  }
+
+  if (body.persona === null) {
+    if (options.partial) result.persona = null;
+  } else if (body.persona !== undefined) {
+    result.persona = checkPersona(errors, `${path}persona`, body.persona);
+  }
+
+  if (body.goals === null) {
+    if (options.partial) result.goals = [];
+  } else if (body.goals !== undefined) {
+    result.goals = checkGoals(errors, `${path}goals`, body.goals);
+  }
+
+  if (body.objectives === null) {
+    if (options.partial) result.objectives = [];
+  } else if (body.objectives !== undefined) {
+    result.objectives = checkObjectives(errors, `${path}objectives`, body.objectives);
+  }
+
+  if (body.stages === null) {
+    if (options.partial) result.stages = [];
+  } else if (body.stages !== undefined) {
+    result.stages = checkStages(errors, `${path}stages`, body.stages);
+  }
+
+  if (body.maxTurns === null) {
+    if (options.partial) result.maxTurns = null;
+  } else if (body.maxTurns !== undefined) {
+    const maxTurns = body.maxTurns as number;
+    if (Number.isInteger(maxTurns) && maxTurns >= 1 && maxTurns <= MAX_TURNS) {
+      result.maxTurns = maxTurns;
+    } else {
+      errors.push(`${path}maxTurns must be a whole number from 1 to ${MAX_TURNS}`);
+    }
+  }
+
+  // An update that sends only one of the two is checked against the stored
+  // scenario by updateScenario
+  if (
+    errors.length === 0 &&
+    (!options.partial || (result.objectives !== undefined && result.stages !== undefined))
+  ) {
+    checkStageReferences(errors, path, result.objectives || [], result.stages || []);
+  }
+
+  if (body.variables === null) {
+    if (options.partial) result.variables = [];
+  } else if (body.variables !== undefined) {
+    result.variables = checkVariables(errors, `${path}variables`, body.variables);
+  }
+
+  if (body.events === null) {
+    if (options.partial) result.events = [];
+  } else if (body.events !== undefined) {
+    result.events = checkEvents(errors, `${path}events`, body.events);
+  }
+
+  if (body.voicePersona === null) {
+    if (options.partial) result.voicePersona = null;
+  } else if (body.voicePersona !== undefined) {
+    result.voicePersona = checkVoicePersona(errors, `${path}voicePersona`, body.voicePersona);
+  }
+
+  if (errors.length > 0) {
+    throw new ScenarioError("Invalid scenario", 400, errors);
+  }
+  return result;
+}
+
+/**
+ * Create a custom scenario. The ID defaults to a slug of the title and may
+ * not collide with a built-in or existing scenario.
+ */
+export async function createScenario(
+  input: unknown,
+  account: IUser
+): Promise<Scenario> {
+  const fields = validateScenarioInput(input, { partial: false }) as ScenarioInput;
+  const requestedId = (input as { id?: unknown }).id;
+  const scenarioId =
+    typeof requestedId === "string" && requestedId ? requestedId : slugifyScenarioId(fields.title);
+
+  if (!ID_PATTERN.test(scenarioId)) {
+    throw new ScenarioError(
+      "Invalid scenario",
+      400,
+      ["id must be 3-50 lowercase letters, digits, '-' or '_'"]
+    );
+  }
+
+  await dbConnect();
+  if (isBuiltInScenario(scenarioId) || (await ScenarioModel.exists({ scenarioId }))) {
+    throw new ScenarioError(`A scenario with id "${scenarioId}" already exists`, 409);
+  }
+
+  const doc = await ScenarioModel.create({ ...fields, scenarioId, createdBy: account._id });
+  return toScenario(doc);
+}
+
+async function findCustomScenario(id: string): Promise<IScenario> {
+  if (isBuiltInScenario(id)) {
+    throw new ScenarioError("Built-in scenarios can't be changed", 403);
+  }
+
+  await dbConnect();
+  const doc = await ScenarioModel.findOne({ scenarioId: id });
+  if (!doc) {
+    throw new ScenarioError("Scenario not found", 404);
+  }
+  return doc;
+}
+
+export async function updateScenario(id: string, input: unknown): Promise<Scenario> {
+  const doc = await findCustomScenario(id);
+  const { systemPrompts, ...fields } = validateScenarioInput(input, { partial: true });
+
+  doc.set(fields);
+  for (const [difficulty, prompt] of Object.entries(systemPrompts || {})) {
+    doc.set(`systemPrompts.${difficulty}`, prompt);
+  }
+
+  const scenario = toScenario(doc);
+  if (fields.objectives !== undefined || fields.stages !== undefined) {
+    const errors: string[] = [];
+    checkStageReferences(errors, "", scenario.objectives || [], scenario.stages || []);
+    if (errors.length > 0) {
+      throw new ScenarioError("Invalid scenario", 400, errors);
+    }
+  }
+
+  await doc.save();
+  return scenario;
+}
+
+export async function deleteScenario(id: string): Promise<void> {
+  const doc = await findCustomScenario(id);
+  // Conversations keep the ID and fall back to showing it as the title
+  await ScenarioImage.deleteOne({ scenarioId: id });
+  await doc.deleteOne();
+}
+
+/**
+ * Check an uploaded image's size and real format (not the declared type)
+ */
+export function validateScenarioImage(bytes: Buffer): { contentType: string } {
+  if (bytes.length === 0) {
+    throw new ScenarioError("Image is empty");
+  }
+  if (bytes.length > MAX_IMAGE_BYTES) {
+    throw new ScenarioError(`Image must be at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB`, 413);
+  }
+
+  const format = IMAGE_SIGNATURES.find((signature) => signature.matches(bytes));
+  if (!format) {
+    throw new ScenarioError("Image must be a PNG, JPEG, GIF or WebP file", 415);
+  }
+  return { contentType: format.contentType };
+}
+
+/**
+ * Store (or replace) a custom scenario's image
+ */
+export async function setScenarioImage(id: string, bytes: Buffer): Promise<Scenario> {
+  const doc = await findCustomScenario(id);
+  const { contentType } = validateScenarioImage(bytes);
+
+  await ScenarioImage.findOneAndUpdate(
+    { scenarioId: id },
+    { $set: { contentType, data: bytes } },
+    { upsert: true }
+  );
+  doc.hasImage = true;
+  doc.imageUpdatedAt = new Date();
+  await doc.save();
+  return toScenario(doc);
+}
+
+export async function removeScenarioImage(id: string): Promise<Scenario> {
+  const doc = await findCustomScenario(id);
+  await ScenarioImage.deleteOne({ scenarioId: id });
+  doc.hasImage = false;
+  doc.imageUpdatedAt = null;
+  await doc.save();
+  return toScenario(doc);
+}
+
+export function scenarioErrorResponse(error: unknown, fallback: string): Response {
+  if (error instanceof ScenarioError) {
+    return Response.json(
+      { error: error.message, ...(error.details.length > 0 && { details: error.details }) },
+      { status: error.status }
+    );
+  }
+  console.error(`${fallback}:`, error);
+  return Response.json({ error: fallback }, { status: 500 });
+}
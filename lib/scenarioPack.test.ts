@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  SCENARIO_PACK_FORMAT,
+  SCENARIO_PACK_VERSION,
+  parseScenarioPack,
+  serializeScenarioPack,
+  validateScenarioPack,
+} from "./scenarioPack";
+import { ScenarioError } from "./scenarioCatalog";
+import { scenarios } from "./scenarios";
+import { omit } from "./omit";
+
+const builtIns = Object.values(scenarios).map((scenario) => omit(scenario, "imageUrl", "custom"));
+
+function pack(entries: unknown[], overrides: Record<string, unknown> = {}) {
+  return { format: SCENARIO_PACK_FORMAT, version: SCENARIO_PACK_VERSION, scenarios: entries, ...overrides };
+}
+
+function entry(id: string) {
+  return { ...builtIns[0], id };
+}
+
+/**
+ * The ScenarioError `run` throws
+ */
+function errorFrom(run: () => unknown): ScenarioError {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof ScenarioError) return error;
+    throw error;
+  }
+  throw new Error("Expected a ScenarioError");
+}
+
+describe("parseScenarioPack", () => {
+  it("reads JSON and YAML", () => {
+    expect(parseScenarioPack('{"version": 1}')).toEqual({ version: 1 });
+    expect(parseScenarioPack("version: 1\nname: Basics\n")).toEqual({ version: 1, name: "Basics" });
+  });
+
+  it("rejects empty and unparseable text", () => {
+    expect(errorFrom(() => parseScenarioPack("  \n")).message).toBe("Scenario pack is empty");
+
+    const error = errorFrom(() => parseScenarioPack("scenarios: [\n  - : :"));
+    expect(error.message).toBe("Scenario pack is not valid JSON or YAML");
+    expect(error.details).toHaveLength(1);
+  });
+});
+
+describe("validateScenarioPack", () => {
+  it("accepts every built-in scenario and round-trips through both formats", () => {
+    const validated = validateScenarioPack(pack(builtIns, { name: "  Basics  " }));
+    expect(validated.name).toBe("Basics");
+    expect(validated.scenarios.map((s) => s.id)).toEqual(builtIns.map((s) => s.id));
+
+    for (const format of ["json", "yaml"] as const) {
+      const reparsed = validateScenarioPack(parseScenarioPack(serializeScenarioPack(validated, format)));
+      expect(reparsed).toEqual(validated);
+    }
+  });
+
+  it("checks the format, version and scenario list", () => {
+    expect(errorFrom(() => validateScenarioPack([])).message).toBe("Scenario pack must be an object");
+    expect(errorFrom(() => validateScenarioPack(pack([entry("one")], { format: "other" }))).message).toContain(
+      "format"
+    );
+    expect(errorFrom(() => validateScenarioPack(pack([entry("one")], { version: 1.5 }))).message).toContain(
+      "positive integer"
+    );
+    expect(
+      errorFrom(() => validateScenarioPack(pack([entry("one")], { version: SCENARIO_PACK_VERSION + 1 }))).message
+    ).toContain("newer than this app supports");
+    expect(errorFrom(() => validateScenarioPack(pack([]))).message).toContain("non-empty");
+    expect(
+      errorFrom(() => validateScenarioPack(pack(Array.from({ length: 101 }, (_, i) => entry(`s${i}xx`)))))
+        .message
+    ).toContain("at most 100");
+  });
+
+  it("reports every invalid field of every scenario, prefixed with its position", () => {
+    const error = errorFrom(() =>
+      validateScenarioPack(
+        pack([
+          entry("fine_one"),
+          { ...entry("No Caps"), title: "" },
+          entry("fine_one"),
+          { ...entry("missing_hard"), systemPrompts: { easy: "a", medium: "b" } },
+          "not a scenario",
+        ])
+      )
+    );
+
+    expect(error.message).toBe("Invalid scenario pack");
+    expect(error.status).toBe(400);
+    expect(error.details).toEqual(
+      expect.arrayContaining([
+        "scenarios[1].id must be 3-50 lowercase letters, digits, '-' or '_'",
+        expect.stringMatching(/^scenarios\[1\]\.title/),
+        'scenarios[2].id "fine_one" appears more than once in the pack',
+        expect.stringMatching(/^scenarios\[3\]\.systemPrompts\.hard/),
+        expect.stringMatching(/^scenarios\[4\]/),
+      ])
+    );
+    expect(error.details.some((detail) => detail.startsWith("scenarios[0]"))).toBe(false);
+  });
+});
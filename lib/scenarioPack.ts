@@ -0,0 +1,320 @@
+/**
+ * Scenario Packs
+ * A versioned JSON/YAML file of scenarios that can be exported from one
+ * deployment and imported into another. Each entry mirrors the Scenario
+ * interface minus the fields that only make sense locally (imageUrl, custom).
+ *
+ *   format: cuepid.scenario-pack
+ *   version: 1
+ *   name: Workplace basics          # optional
+ *   scenarios:
+ *     - id: salary_talk
+ *       title: Salary Talk
+ *       ...
+ */
+
+import type { AnyBulkWriteOperation } from "mongoose";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import dbConnect from "./mongodb";
+import ScenarioModel from "./models/Scenario";
+import { IUser } from "./models/User";
+import { Scenario, scenarios as builtInScenarios } from "./scenarios";
+import {
+  ID_PATTERN,
+  ScenarioError,
+  ScenarioInput,
+  getScenario,
+  isBuiltInScenario,
+  listScenarios,
+  validateScenarioInput,
+} from "./scenarioCatalog";
+import { omit } from "./omit";
+
+export const SCENARIO_PACK_FORMAT = "cuepid.scenario-pack";
+export const SCENARIO_PACK_VERSION = 1;
+
+const MAX_PACK_SCENARIOS = 100;
+
+export type PackScenario = Omit<Scenario, "imageUrl" | "custom">;
+
+export interface ScenarioPack {
+  format: typeof SCENARIO_PACK_FORMAT;
+  version: number;
+  name?: string;
+  exportedAt?: string;
+  scenarios: PackScenario[];
+}
+
+export type PackFormat = "json" | "yaml";
+
+// What to do when an imported ID already exists
+export const CONFLICT_STRATEGIES = ["error", "skip", "replace", "rename"] as const;
+export type ConflictStrategy = (typeof CONFLICT_STRATEGIES)[number];
+
+export interface ImportResult {
+  created: string[];
+  replaced: string[];
+  skipped: string[];
+  renamed: { from: string; to: string }[];
+}
+
+/**
+ * Parse a pack from JSON or YAML text. YAML is a superset of JSON, but JSON
+ * is tried first for its clearer error messages.
+ */
+export function parseScenarioPack(text: string): unknown {
+  if (!text.trim()) {
+    throw new ScenarioError("Scenario pack is empty");
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Not JSON; fall through to YAML
+  }
+
+  try {
+    return parseYaml(text);
+  } catch (error) {
+    throw new ScenarioError("Scenario pack is not valid JSON or YAML", 400, [
+      error instanceof Error ? error.message : String(error),
+    ]);
+  }
+}
+
+/**
+ * Check a parsed pack against the format. Every invalid field of every
+ * scenario is reported, prefixed with its position, e.g.
+ * "scenarios[1].systemPrompts.hard is required".
+ */
+export function validateScenarioPack(input: unknown): ScenarioPack {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new ScenarioError("Scenario pack must be an object");
+  }
+
+  const pack = input as Record<string, unknown>;
+  if (pack.format !== SCENARIO_PACK_FORMAT) {
+    throw new ScenarioError(`Scenario pack format must be "${SCENARIO_PACK_FORMAT}"`);
+  }
+  if (typeof pack.version !== "number" || !Number.isInteger(pack.version) || pack.version < 1) {
+    throw new ScenarioError("Scenario pack version must be a positive integer");
+  }
+  if (pack.version > SCENARIO_PACK_VERSION) {
+    throw new ScenarioError(
+      `Scenario pack version ${pack.version} is newer than this app supports (${SCENARIO_PACK_VERSION})`
+    );
+  }
+  if (!Array.isArray(pack.scenarios) || pack.scenarios.length === 0) {
+    throw new ScenarioError("Scenario pack must have a non-empty scenarios list");
+  }
+  if (pack.scenarios.length > MAX_PACK_SCENARIOS) {
+    throw new ScenarioError(`Scenario pack can have at most ${MAX_PACK_SCENARIOS} scenarios`);
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const scenarios: PackScenario[] = [];
+
+  pack.scenarios.forEach((entry, i) => {
+    const path = `scenarios[${i}].`;
+    const id = (entry as { id?: unknown } | null)?.id;
+
+    if (typeof id !== "string" || !ID_PATTERN.test(id)) {
+      errors.push(`${path}id must be 3-50 lowercase letters, digits, '-' or '_'`);
+    } else if (seen.has(id)) {
+      errors.push(`${path}id "${id}" appears more than once in the pack`);
+    } else {
+      seen.add(id);
+    }
+
+    try {
+      const fields = validateScenarioInput(entry, { path }) as ScenarioInput;
+      scenarios.push({
+        id: id as string,
+        ...fields,
+        persona: fields.persona || undefined,
+        maxTurns: fields.maxTurns || undefined,
+        voicePersona: fields.voicePersona || undefined,
+      });
+    } catch (error) {
+      if (!(error instanceof ScenarioError)) throw error;
+      errors.push(...(error.details.length > 0 ? error.details : [`scenarios[${i}] must be an object`]));
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new ScenarioError("Invalid scenario pack", 400, errors);
+  }
+
+  return {
+    format: SCENARIO_PACK_FORMAT,
+    version: pack.version,
+    ...(typeof pack.name === "string" && pack.name.trim() && { name: pack.name.trim() }),
+    scenarios,
+  };
+}
+
+function toPackScenario(scenario: Scenario): PackScenario {
+  return omit(scenario, "imageUrl", "custom");
+}
+
+/**
+ * Build a pack of the given scenarios (built-in or custom), or of every
+ * scenario when no IDs are given
+ */
+export async function exportScenarioPack(ids?: string[]): Promise<ScenarioPack> {
+  let scenarios: Scenario[];
+  if (ids?.length) {
+    const found = await Promise.all(ids.map((id) => getScenario(id)));
+    const missing = ids.filter((_, i) => !found[i]);
+    if (missing.length > 0) {
+      throw new ScenarioError("Scenario not found", 404, missing);
+    }
+    scenarios = found as Scenario[];
+  } else {
+    scenarios = await listScenarios();
+  }
+
+  return {
+    format: SCENARIO_PACK_FORMAT,
+    version: SCENARIO_PACK_VERSION,
+    exportedAt: new Date().toISOString(),
+    scenarios: scenarios.map(toPackScenario),
+  };
+}
+
+export function serializeScenarioPack(pack: ScenarioPack, format: PackFormat): string {
+  return format === "yaml"
+    ? stringifyYaml(pack, { lineWidth: 0 })
+    : `${JSON.stringify(pack, null, 2)}\n`;
+}
+
+/**
+ * The first free "<id>_2", "<id>_3", ... that fits the ID pattern
+ */
+function nextFreeId(id: string, taken: Set<string>): string {
+  for (let n = 2; ; n++) {
+    const suffix = `_${n}`;
+    const candidate = `${id.slice(0, 50 - suffix.length)}${suffix}`;
+    if (!taken.has(candidate)) return candidate;
+  }
+}
+
+/**
+ * Whether the database can run multi-document transactions (a replica set
+ * or sharded cluster, as on Atlas; not a standalone mongod)
+ */
+async function supportsTransactions(): Promise<boolean> {
+  const db = ScenarioModel.db.db;
+  if (!db) return false;
+  const hello = await db.admin().command({ hello: 1 });
+  return Boolean(hello.setName) || hello.msg === "isdbgrid";
+}
+
+/**
+ * Run the import's writes as one bulk write, inside a transaction where the
+ * database supports them so a failure partway rolls back the earlier writes
+ */
+async function writeImport(operations: AnyBulkWriteOperation[]) {
+  if (operations.length === 0) return;
+  if (await supportsTransactions()) {
+    await ScenarioModel.db.transaction((session) =>
+      ScenarioModel.bulkWrite(operations, { session })
+    );
+  } else {
+    await ScenarioModel.bulkWrite(operations);
+  }
+}
+
+/**
+ * Import a validated pack as custom scenarios. IDs that already exist are
+ * handled by the conflict strategy:
+ *   error   - import nothing and report the conflicting IDs (409)
+ *   skip    - keep the existing scenario
+ *   replace - overwrite an existing custom scenario (built-ins can't be replaced)
+ *   rename  - import under the next free "<id>_2", "<id>_3", ...
+ *
+ * Every scenario is checked against the schema before anything is written,
+ * and the writes go out together, so an import either succeeds as a whole
+ * or changes nothing. (On a standalone mongod, which has no transactions, a
+ * database error partway through can still leave the earlier writes.)
+ */
+export async function importScenarioPack(
+  pack: ScenarioPack,
+  account: IUser,
+  options: { onConflict?: ConflictStrategy } = {}
+): Promise<ImportResult> {
+  const { onConflict = "error" } = options;
+
+  await dbConnect();
+  const existing = await ScenarioModel.find({}, { scenarioId: 1 });
+  const taken = new Set<string>([
+    ...Object.keys(builtInScenarios),
+    ...existing.map((doc: { scenarioId: string }) => doc.scenarioId),
+  ]);
+  const conflicts = pack.scenarios.map((scenario) => scenario.id).filter((id) => taken.has(id));
+
+  if (conflicts.length > 0 && onConflict === "error") {
+    throw new ScenarioError("Some scenario IDs already exist", 409, conflicts);
+  }
+  if (onConflict === "replace") {
+    const builtIns = conflicts.filter(isBuiltInScenario);
+    if (builtIns.length > 0) {
+      throw new ScenarioError("Built-in scenarios can't be replaced", 403, builtIns);
+    }
+  }
+
+  const result: ImportResult = { created: [], replaced: [], skipped: [], renamed: [] };
+  const operations: AnyBulkWriteOperation[] = [];
+  const errors: string[] = [];
+
+  for (const { id, ...fields } of pack.scenarios) {
+    const document = {
+      ...fields,
+      persona: fields.persona || null,
+      goals: fields.goals || [],
+      objectives: fields.objectives || [],
+      stages: fields.stages || [],
+      maxTurns: fields.maxTurns || null,
+      variables: fields.variables || [],
+      events: fields.events || [],
+      voicePersona: fields.voicePersona || null,
+    };
+
+    let scenarioId = id;
+    if (!conflicts.includes(id)) {
+      result.created.push(id);
+    } else if (onConflict === "skip") {
+      result.skipped.push(id);
+      continue;
+    } else if (onConflict === "replace") {
+      result.replaced.push(id);
+    } else {
+      scenarioId = nextFreeId(id, taken);
+      result.renamed.push({ from: id, to: scenarioId });
+    }
+    taken.add(scenarioId);
+
+    const scenario = new ScenarioModel({ ...document, scenarioId, createdBy: account._id });
+    try {
+      await scenario.validate();
+    } catch (error) {
+      errors.push(`${id}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    operations.push(
+      onConflict === "replace" && conflicts.includes(id)
+        ? // The image stays; packs don't carry images
+          { updateOne: { filter: { scenarioId: id }, update: { $set: document } } }
+        : { insertOne: { document: scenario.toObject() } }
+    );
+  }
+
+  if (errors.length > 0) {
+    throw new ScenarioError("Invalid scenario pack", 400, errors);
+  }
+
+  await writeImport(operations);
+  return result;
+}
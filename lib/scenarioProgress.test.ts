@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import {
+  ScenarioProgress,
+  advanceProgress,
+  createProgress,
+  restoreProgress,
+  toProgressView,
+} from "./scenarioProgress";
+import { Scenario, scenarios } from "./scenarios";
+
+// Open up, then either patch things up or have it escalate into a last chance
+const staged: Scenario = {
+  ...Object.values(scenarios)[0],
+  objectives: [
+    { id: "listen", description: "Hear them out" },
+    { id: "own_it", description: "Own your part" },
+    { id: "plan", description: "Agree on what changes" },
+    { id: "repair", description: "Win back their trust" },
+  ],
+  stages: [
+    {
+      id: "opening",
+      title: "Opening up",
+      objectives: ["listen", "own_it"],
+      branches: [{ when: "The user gets defensive", to: "escalated" }],
+    },
+    { id: "resolving", title: "Resolving", objectives: ["plan"], next: "win" },
+    {
+      id: "escalated",
+      title: "Last chance",
+      objectives: ["repair"],
+      next: "resolving",
+      branches: [{ when: "The user stays defensive", to: "lose" }],
+    },
+  ],
+  maxTurns: 6,
+};
+
+function progress(overrides: Partial<ScenarioProgress> = {}): ScenarioProgress {
+  return { ...createProgress(staged), ...overrides };
+}
+
+describe("advanceProgress", () => {
+  it("stays in the stage until all its objectives are done", () => {
+    const next = advanceProgress(staged, progress(), { completedObjectives: ["listen"], branch: null });
+    expect(next).toEqual({
+      stageId: "opening",
+      completedObjectives: ["listen"],
+      outcome: "in_progress",
+      turns: 1,
+    });
+  });
+
+  it("moves to the following stage once they are", () => {
+    const next = advanceProgress(staged, progress({ completedObjectives: ["listen"] }), {
+      completedObjectives: ["own_it"],
+      branch: null,
+    });
+    expect(next.stageId).toBe("resolving");
+    expect(next.outcome).toBe("in_progress");
+  });
+
+  it("wins after the last stage", () => {
+    const next = advanceProgress(staged, progress({ stageId: "resolving" }), {
+      completedObjectives: ["plan"],
+      branch: null,
+    });
+    expect(next.outcome).toBe("won");
+  });
+
+  it("takes a branch even with objectives still open", () => {
+    const next = advanceProgress(staged, progress(), { completedObjectives: [], branch: 0 });
+    expect(next.stageId).toBe("escalated");
+    expect(next.outcome).toBe("in_progress");
+
+    const lost = advanceProgress(staged, next, { completedObjectives: [], branch: 0 });
+    expect(lost.outcome).toBe("lost");
+  });
+
+  it("ignores a branch the stage doesn't have", () => {
+    const next = advanceProgress(staged, progress({ stageId: "resolving" }), {
+      completedObjectives: [],
+      branch: 0,
+    });
+    expect(next.stageId).toBe("resolving");
+  });
+
+  it("passes straight through a stage whose objectives are already done", () => {
+    // Repairing leads back to resolving, and the plan was agreed earlier
+    const next = advanceProgress(staged, progress({ stageId: "escalated", completedObjectives: ["plan"] }), {
+      completedObjectives: ["repair"],
+      branch: null,
+    });
+    expect(next.outcome).toBe("won");
+  });
+
+  it("stops following a cycle of completed stages", () => {
+    const cyclic: Scenario = {
+      ...staged,
+      stages: [
+        { id: "a", title: "A", objectives: ["listen"], next: "b" },
+        { id: "b", title: "B", objectives: ["own_it"], next: "a" },
+      ],
+    };
+    const next = advanceProgress(cyclic, progress({ stageId: "a", completedObjectives: ["own_it"] }), {
+      completedObjectives: ["listen"],
+      branch: null,
+    });
+    expect(next.outcome).toBe("in_progress");
+    expect(["a", "b"]).toContain(next.stageId);
+  });
+
+  it("loses when the turns run out before winning", () => {
+    const next = advanceProgress(staged, progress({ turns: 5 }), { completedObjectives: [], branch: null });
+    expect(next.turns).toBe(6);
+    expect(next.outcome).toBe("lost");
+  });
+
+  it("wins on the last turn rather than losing", () => {
+    const next = advanceProgress(staged, progress({ stageId: "resolving", turns: 5 }), {
+      completedObjectives: ["plan"],
+      branch: null,
+    });
+    expect(next.outcome).toBe("won");
+  });
+
+  it("leaves a finished scenario alone", () => {
+    const won = progress({ outcome: "won", turns: 3 });
+    expect(advanceProgress(staged, won, { completedObjectives: ["plan"], branch: 0 })).toBe(won);
+  });
+
+  it("treats objectives without stages as a single stage", () => {
+    const flat: Scenario = { ...staged, stages: undefined, maxTurns: undefined };
+    const start = createProgress(flat);
+    const next = advanceProgress(flat, start, {
+      completedObjectives: ["listen", "own_it", "plan", "repair"],
+      branch: null,
+    });
+    expect(next.outcome).toBe("won");
+  });
+});
+
+describe("restoreProgress", () => {
+  it("starts over for missing or unknown progress", () => {
+    expect(restoreProgress(staged, null)).toEqual(createProgress(staged));
+    expect(restoreProgress(staged, { stageId: "gone", turns: 4 })).toEqual(createProgress(staged));
+  });
+
+  it("drops objectives that aren't the scenario's and repeated ones", () => {
+    const restored = restoreProgress(staged, {
+      stageId: "resolving",
+      completedObjectives: ["listen", "listen", "bogus", 3],
+      outcome: "won",
+      turns: 2,
+    });
+    expect(restored).toEqual({
+      stageId: "resolving",
+      completedObjectives: ["listen"],
+      outcome: "won",
+      turns: 2,
+    });
+  });
+
+  it("repairs a malformed outcome and turn count", () => {
+    const restored = restoreProgress(staged, { stageId: "opening", outcome: "tied", turns: -1.5 });
+    expect(restored.outcome).toBe("in_progress");
+    expect(restored.turns).toBe(0);
+    expect(restored.completedObjectives).toEqual([]);
+  });
+});
+
+describe("toProgressView", () => {
+  it("lists every objective with whether it's done", () => {
+    const view = toProgressView(staged, progress({ completedObjectives: ["listen"] }));
+    expect(view.stageTitle).toBe("Opening up");
+    expect(view.maxTurns).toBe(6);
+    expect(view.objectives.filter((o) => o.completed).map((o) => o.id)).toEqual(["listen"]);
+    expect(view.objectives).toHaveLength(4);
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * Scenario Progress
+ * The state machine behind scenarios with objectives. Each user turn the
+ * analysis model judges which of the current stage's objectives the user
+ * has achieved and whether one of its branches applies; the machine then
+ * moves between stages until the scenario is won or lost.
+ *
+ * The progress is stored on the conversation along with its history, and
+ * the chat routes pick it up from there each turn.
+ */
+
+import { AnalysisModel, LLMMessage } from "./llm";
+import { ValidationResult, generateValidatedAnalysis } from "./analysisValidation";
+import {
+  SCENARIO_ENDINGS,
+  SCENARIO_OUTCOMES,
+  Scenario,
+  ScenarioEnding,
+  ScenarioOutcome,
+  ScenarioStage,
+} from "./scenarios";
+
+export interface ScenarioProgress {
+  stageId: string;
+  completedObjectives: string[];
+  outcome: ScenarioOutcome;
+  turns: number; // User messages judged so far
+}
+
+export interface ObjectiveStatus {
+  id: string;
+  description: string;
+  completed: boolean;
+}
+
+// What the chat routes return: the progress plus what the UI needs to show it
+export interface ScenarioProgressView extends ScenarioProgress {
+  stageTitle: string;
+  objectives: ObjectiveStatus[];
+  maxTurns?: number;
+}
+
+export interface ObjectiveJudgement {
+  completedObjectives: string[]; // Newly completed objectives of the current stage
+  branch: number | null; // Index into the current stage's branches
+}
+
+// Stage used when a scenario has objectives but no stages
+const SINGLE_STAGE_ID = "conversation";
+
+// Enough of the recent conversation for the judge to follow along
+const JUDGE_HISTORY_MESSAGES = 8;
+
+const NO_PROGRESS: ObjectiveJudgement = { completedObjectives: [], branch: null };
+
+export function hasObjectives(scenario: Scenario): boolean {
+  return (scenario.objectives?.length ?? 0) > 0;
+}
+
+export function getStages(scenario: Scenario): ScenarioStage[] {
+  if (scenario.stages?.length) return scenario.stages;
+  return [
+    {
+      id: SINGLE_STAGE_ID,
+      title: "Conversation",
+      objectives: (scenario.objectives || []).map((objective) => objective.id),
+    },
+  ];
+}
+
+function findStage(scenario: Scenario, stageId: string): ScenarioStage {
+  const stages = getStages(scenario);
+  return stages.find((stage) => stage.id === stageId) || stages[0];
+}
+
+function isEnding(target: string): target is ScenarioEnding {
+  return SCENARIO_ENDINGS.includes(target as ScenarioEnding);
+}
+
+export function createProgress(scenario: Scenario): ScenarioProgress {
+  return {
+    stageId: getStages(scenario)[0].id,
+    completedObjectives: [],
+    outcome: "in_progress",
+    turns: 0,
+  };
+}
+
+/**
+ * Rebuild stored progress, dropping anything that doesn't belong to this
+ * scenario. Missing or malformed progress starts over.
+ */
+export function restoreProgress(scenario: Scenario, raw: unknown): ScenarioProgress {
+  if (!raw || typeof raw !== "object") {
+    return createProgress(scenario);
+  }
+
+  const data = raw as Record<string, unknown>;
+  const stages = getStages(scenario);
+  const objectiveIds = new Set((scenario.objectives || []).map((objective) => objective.id));
+  const stage = stages.find((s) => s.id === data.stageId);
+  if (!stage) {
+    return createProgress(scenario);
+  }
+
+  return {
+    stageId: stage.id,
+    completedObjectives: Array.isArray(data.completedObjectives)
+      ? data.completedObjectives.filter(
+          (id, i, all): id is string =>
+            typeof id === "string" && objectiveIds.has(id) && all.indexOf(id) === i
+        )
+      : [],
+    outcome: SCENARIO_OUTCOMES.includes(data.outcome as ScenarioOutcome)
+      ? (data.outcome as ScenarioOutcome)
+      : "in_progress",
+    turns:
+      typeof data.turns === "number" && Number.isInteger(data.turns) && data.turns > 0
+        ? data.turns
+        : 0,
+  };
+}
+
+/**
+ * Where a stage leads once its objectives are done: its `next`, else the
+ * following stage, else a win
+ */
+function nextTarget(stages: ScenarioStage[], stage: ScenarioStage): string {
+  if (stage.next) return stage.next;
+  const index = stages.findIndex((s) => s.id === stage.id);
+  return stages[index + 1]?.id || "win";
+}
+
+/**
+ * Apply one judged turn. Entering a stage whose objectives are already done
+ * moves straight on; running out of turns before winning loses.
+ */
+export function advanceProgress(
+  scenario: Scenario,
+  progress: ScenarioProgress,
+  judgement: ObjectiveJudgement
+): ScenarioProgress {
+  if (progress.outcome !== "in_progress") return progress;
+
+  const stages = getStages(scenario);
+  const completed = new Set([...progress.completedObjectives, ...judgement.completedObjectives]);
+  const isDone = (stage: ScenarioStage) => stage.objectives.every((id) => completed.has(id));
+
+  let stage = findStage(scenario, progress.stageId);
+  let outcome: ScenarioOutcome = "in_progress";
+  const branch = judgement.branch !== null ? stage.branches?.[judgement.branch] : undefined;
+  let target: string | null = branch ? branch.to : isDone(stage) ? nextTarget(stages, stage) : null;
+
+  // Bounded so a cycle of completed stages can't loop forever
+  for (let hops = 0; target !== null && hops <= stages.length; hops++) {
+    if (isEnding(target)) {
+      outcome = target === "win" ? "won" : "lost";
+      break;
+    }
+    stage = findStage(scenario, target);
+    target = isDone(stage) ? nextTarget(stages, stage) : null;
+  }
+
+  const turns = progress.turns + 1;
+  if (outcome === "in_progress" && scenario.maxTurns && turns >= scenario.maxTurns) {
+    outcome = "lost";
+  }
+
+  return { stageId: stage.id, completedObjectives: [...completed], outcome, turns };
+}
+
+export function toProgressView(scenario: Scenario, progress: ScenarioProgress): ScenarioProgressView {
+  return {
+    ...progress,
+    stageTitle: findStage(scenario, progress.stageId).title,
+    objectives: (scenario.objectives || []).map((objective) => ({
+      id: objective.id,
+      description: objective.description,
+      completed: progress.completedObjectives.includes(objective.id),
+    })),
+    ...(scenario.maxTurns && { maxTurns: scenario.maxTurns }),
+  };
+}
+
+function validateObjectiveJudgement(
+  stage: ScenarioStage,
+  openObjectives: string[]
+): (raw: unknown) => ValidationResult<ObjectiveJudgement> {
+  return (raw) => {
+    const data = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+    const defaultedFields: string[] = [];
+
+    let completedObjectives: string[] = [];
+    if (Array.isArray(data.completedObjectives)) {
+      completedObjectives = data.completedObjectives.filter(
+        (id): id is string => typeof id === "string" && openObjectives.includes(id)
+      );
+    } else {
+      defaultedFields.push("completedObjectives");
+    }
+
+    // Branches are numbered from 1 in the prompt
+    const number = typeof data.branch === "string" ? parseInt(data.branch) : data.branch;
+    let branch: number | null = null;
+    if (typeof number === "number" && Number.isInteger(number)) {
+      if (number >= 1 && number <= (stage.branches?.length ?? 0)) {
+        branch = number - 1;
+      }
+    } else if (data.branch !== null) {
+      defaultedFields.push("branch");
+    }
+
+    return { value: { completedObjectives, branch }, defaultedFields };
+  };
+}
+
+function buildJudgePrompt(
+  scenario: Scenario,
+  stage: ScenarioStage,
+  openObjectives: string[],
+  history: LLMMessage[],
+  userMessage: string
+): string {
+  const partner = scenario.persona?.name || "Partner";
+  const objectives = (scenario.objectives || [])
+    .filter((objective) => openObjectives.includes(objective.id))
+    .map((objective) => `- ${objective.id}: ${objective.description}`)
+    .join("\n");
+  const branches = (stage.branches || [])
+    .map((branch, i) => `${i + 1}. ${branch.when}`)
+    .join("\n");
+  const transcript = history
+    .slice(-JUDGE_HISTORY_MESSAGES)
+    .map((m) => `${m.role === "user" ? "User" : partner}: ${m.content}`)
+    .join("\n");
+
+  return `You are judging a role-play conversation the user is practicing: "${scenario.title}". ${partner} is played by an AI.
+
+Current stage: ${stage.title}
+
+Open objectives for the user:
+${objectives || "(none)"}
+
+Turns of events that change the course of the conversation:
+${branches || "(none)"}
+
+Recent conversation:
+${transcript || "(none)"}
+
+The user just said: "${userMessage}"
+
+Decide which open objectives the user has achieved so far, mostly based on their latest message, and whether one of the turns of events has just happened. Be strict: an objective counts only if the user clearly did it.
+
+Return JSON with exactly this structure:
+{
+  "completedObjectives": [<IDs of the open objectives the user has achieved, or an empty list>],
+  "branch": <number of the turn of events that happened, or null>
+}`;
+}
+
+/**
+ * Ask the analysis model how the user's latest message moves the scenario.
+ * Never throws: if judging fails, the turn simply makes no progress.
+ */
+export async function judgeTurn(
+  model: AnalysisModel,
+  scenario: Scenario,
+  progress: ScenarioProgress,
+  history: LLMMessage[],
+  userMessage: string
+): Promise<ObjectiveJudgement> {
+  if (progress.outcome !== "in_progress") return NO_PROGRESS;
+
+  const stage = findStage(scenario, progress.stageId);
+  const openObjectives = stage.objectives.filter((id) => !progress.completedObjectives.includes(id));
+  if (openObjectives.length === 0 && !stage.branches?.length) return NO_PROGRESS;
+
+  try {
+    const { value } = await generateValidatedAnalysis(
+      model,
+      buildJudgePrompt(scenario, stage, openObjectives, history, userMessage),
+      validateObjectiveJudgement(stage, openObjectives)
+    );
+    return value;
+  } catch (error) {
+    console.warn("Objective judging failed, counting no progress:", error);
+    return NO_PROGRESS;
+  }
+}
+
+/**
+ * Judge the user's latest message and apply it, for scenarios with
+ * objectives. Returns null for open-ended scenarios.
+ */
+export async function progressScenario(
+  model: AnalysisModel,
+  scenario: Scenario,
+  rawProgress: unknown,
+  history: LLMMessage[],
+  userMessage: string
+): Promise<ScenarioProgress | null> {
+  if (!hasObjectives(scenario)) return null;
+
+  const progress = restoreProgress(scenario, rawProgress);
+  const judgement = await judgeTurn(model, scenario, progress, history, userMessage);
+  return advanceProgress(scenario, progress, judgement);
+}
+
+/**
+ * System prompt section that keeps the partner in step with the stage, or
+ * winds the conversation down once it has ended
+ */
+export function formatStageForPartner(scenario: Scenario, progress: ScenarioProgress | null): string {
+  if (!progress) return "";
+
+  if (progress.outcome === "won") {
+    return "\n\nThe user has handled this conversation well and you're happy with how it went. Respond warmly and let the conversation come to a natural close.";
+  }
+  if (progress.outcome === "lost") {
+    return "\n\nThis conversation hasn't gone the way you hoped. Respond in character, without warming up, and let it come to a close.";
+  }
+
+  const stage = findStage(scenario, progress.stageId);
+  return stage.partnerPrompt ? `\n\nWhere the conversation is now (${stage.title}): ${stage.partnerPrompt}` : "";
+}
@@ -0,0 +1,117 @@
+/**
+ * Text Performance Analytics
+ * Per-turn metrics for text chat, the counterpart of the voice metrics:
+ * the content scores come from the typed message, and how long the user
+ * took to reply stands in for the pauses and hesitation of speech.
+ */
+
+import {
+  calculateClarityScore,
+  calculateEmpathyScore,
+  calculateEngagementScore,
+  calculateFillerFrequency,
+  calculateInitiativeScore,
+} from "./voiceAnalytics";
+import { PerformanceIndicators } from "./difficultyEngine";
+
+export interface TextMetrics {
+  wordCount: number;
+  replyLatencyMs: number | null; // From the partner's last reply to sending; null if unknown
+  fillerFrequency: number; // Filler words per 100 words
+  confidenceScore: number; // 0-100: Hedging and long hesitation lower it
+  empathyScore: number; // 0-100: Reflective statements, validation
+  initiativeScore: number; // 0-100: Questions, topic expansion
+  engagementScore: number; // 0-100: Length, elaboration, replying promptly
+  clarityScore: number; // 0-100: Sentence structure, repetition
+}
+
+// Longer than this is treated as the user stepping away, not hesitating
+const MAX_REPLY_LATENCY_MS = 10 * 60 * 1000;
+
+// Hedges that undercut a typed message
+const HEDGES = [
+  /\bmaybe\b/i,
+  /\bi guess\b/i,
+  /\bi think\b/i,
+  /\bsort of\b/i,
+  /\bkind of\b/i,
+  /\bnot sure\b/i,
+  /\bidk\b/i,
+];
+
+/**
+ * A measured latency: a non-negative number of milliseconds up to
+ * MAX_REPLY_LATENCY_MS, else unknown
+ */
+export function sanitizeReplyLatency(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) return null;
+  return value > MAX_REPLY_LATENCY_MS ? null : Math.round(value);
+}
+
+/**
+ * Quick replies read as engaged, long waits as disengaged. Judged relative
+ * to the message's length, since a long message takes a while to type.
+ */
+function latencyAdjustment(latencyMs: number | null, wordCount: number): number {
+  if (latencyMs === null) return 0;
+  // About 40 words per minute of typing, plus time to read and think
+  const expectedMs = 15000 + (wordCount / 40) * 60000;
+  if (latencyMs <= expectedMs) return 5;
+  if (latencyMs > expectedMs * 4) return -15;
+  if (latencyMs > expectedMs * 2) return -8;
+  return 0;
+}
+
+function calculateTextConfidence(message: string, latencyMs: number | null, wordCount: number): number {
+  let score = 70;
+
+  const hedges = HEDGES.filter((hedge) => hedge.test(message)).length;
+  score -= Math.min(30, hedges * 8);
+
+  // Very short, trailing-off replies
+  if (wordCount <= 2) {
+    score -= 15;
+  }
+  if (/\.\.\.\s*$/.test(message)) {
+    score -= 5;
+  }
+
+  return Math.max(0, Math.min(100, Math.round(score + latencyAdjustment(latencyMs, wordCount))));
+}
+
+/**
+ * Compute the metrics for one typed message
+ */
+export function analyzeTextMessage(input: { message: string; replyLatencyMs?: unknown }): TextMetrics {
+  const { message } = input;
+  const replyLatencyMs = sanitizeReplyLatency(input.replyLatencyMs);
+  const wordCount = message.split(/\s+/).filter((w) => w.length > 0).length;
+
+  return {
+    wordCount,
+    replyLatencyMs,
+    fillerFrequency: calculateFillerFrequency(message),
+    confidenceScore: calculateTextConfidence(message, replyLatencyMs, wordCount),
+    empathyScore: calculateEmpathyScore(message),
+    initiativeScore: calculateInitiativeScore(message),
+    engagementScore: Math.max(
+      0,
+      Math.min(100, calculateEngagementScore(message) + latencyAdjustment(replyLatencyMs, wordCount))
+    ),
+    clarityScore: calculateClarityScore(message),
+  };
+}
+
+/**
+ * What the difficulty engine needs from a text turn
+ */
+export function toPerformanceIndicators(metrics: TextMetrics): PerformanceIndicators {
+  return {
+    engagementScore: metrics.engagementScore,
+    empathyScore: metrics.empathyScore,
+    fillerFrequency: metrics.fillerFrequency,
+    initiativeScore: metrics.initiativeScore,
+    clarityScore: metrics.clarityScore,
+    confidenceScore: metrics.confidenceScore,
+  };
+}
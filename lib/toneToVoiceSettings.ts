@@ -288,10 +288,20 @@ export interface VoicePersona {
   description: string;
 }
 
-export type PartnerGender = "female" | "male";
+/**
+ * Who the partner is. Non-binary partners use they/them; an unspecified
+ * partner's gender is never stated.
+ */
+export const PARTNER_GENDERS = ["female", "male", "nonbinary", "unspecified"] as const;
+export type PartnerGender = (typeof PARTNER_GENDERS)[number];
+
+export function parsePartnerGender(value: unknown): PartnerGender {
+  return PARTNER_GENDERS.includes(value as PartnerGender) ? (value as PartnerGender) : "female";
+}
 
 /**
- * ElevenLabs Voice IDs by gender
+ * Built-in ElevenLabs Voice IDs by gender (more voices can be configured,
+ * see lib/voiceCatalog.ts)
  * Female voices: Sarah (warm), Rachel (neutral), Demi (professional)
  * Male voices: Adam (friendly), Josh (warm), Arnold (deep)
  */
@@ -359,7 +369,7 @@ export const VOICE_PERSONAS: Record<string, VoicePersona> = {
  * Get voice ID based on gender and scenario category
  */
 export function getVoiceIdForGender(
-  gender: PartnerGender,
+  gender: keyof typeof VOICE_IDS,
   category: "romantic" | "social" | "conflict" | "professional"
 ): string {
   const voiceType = category === "romantic" ? "warm" 
@@ -373,7 +383,7 @@ export function getVoiceIdForGender(
  */
 export function getPersonaForScenario(
   category: "romantic" | "social" | "conflict" | "professional",
-  gender?: PartnerGender
+  gender?: keyof typeof VOICE_IDS
 ): VoicePersona {
   let persona: VoicePersona;
   switch (category) {
@@ -0,0 +1,65 @@
+/**
+ * Server-side conversation sessions for the chat pages
+ * Creates the conversation once the partner's first message is showing and
+ * marks it ended when the user asks for the analysis. In between, the chat
+ * routes append each turn themselves, so the page only sends the
+ * conversation's ID with each new message.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ConversationSetup } from "./conversationSession";
+
+export function useConversationSession(options: {
+  scenarioId: string;
+  mode: "text" | "voice";
+  difficulty: number; // The level it starts at
+  resumeId: string | null; // Resuming: the page loads it and calls resumeSession
+  ready: boolean; // The partner's first message is showing
+  getSetup: () => ConversationSetup; // Called once, when the conversation is created
+}) {
+  const { scenarioId, mode, difficulty, resumeId, ready, getSetup } = options;
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (!ready || resumeId || startedRef.current) return;
+    startedRef.current = true;
+
+    fetch("/api/conversations", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ scenario: scenarioId, mode, difficulty, setup: getSetup() }),
+    })
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then(({ conversation }) => setConversationId(conversation._id))
+      .catch((error) => {
+        console.error("Failed to start conversation:", error);
+        setFailed(true);
+      });
+  }, [ready, resumeId, scenarioId, mode, difficulty, getSetup]);
+
+  /**
+   * Pick up a conversation the page has loaded
+   */
+  const resumeSession = useCallback((id: string) => setConversationId(id), []);
+
+  /**
+   * End the conversation; resolves to its ID for the dashboard
+   */
+  const endSession = useCallback(async (): Promise<string> => {
+    if (!conversationId) throw new Error("Conversation was never started");
+
+    const res = await fetch(`/api/conversations/${conversationId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ status: "ended" }),
+    });
+    if (!res.ok) throw new Error(`Failed to end conversation: HTTP ${res.status}`);
+    return conversationId;
+  }, [conversationId]);
+
+  return { conversationId, failed, resumeSession, endSession };
+}
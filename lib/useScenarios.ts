@@ -0,0 +1,70 @@
+/**
+ * Client-side scenario catalog
+ * Built-in scenarios are available immediately; custom scenarios are merged
+ * in once /api/scenarios responds
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { ScenarioSummary, scenarios as builtInScenarios } from "./scenarios";
+
+export function useScenarios(): {
+  scenarios: Record<string, ScenarioSummary>;
+  loading: boolean;
+} {
+  const [scenarios, setScenarios] = useState<Record<string, ScenarioSummary>>(builtInScenarios);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/scenarios")
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then((data: { scenarios: ScenarioSummary[] }) => {
+        if (cancelled) return;
+        setScenarios(Object.fromEntries(data.scenarios.map((s) => [s.id, s])));
+      })
+      .catch((error) => {
+        // Built-in scenarios still work without the database
+        console.error("Failed to load scenarios:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { scenarios, loading };
+}
+
+/**
+ * A single scenario; `scenario` is null once loading finishes without a match
+ */
+export function useScenario(id: string): { scenario: ScenarioSummary | null; loading: boolean } {
+  const { scenarios, loading } = useScenarios();
+  const scenario = scenarios[id] || null;
+  return { scenario, loading: loading && !scenario };
+}
+
+/**
+ * Fetch one scenario outside of a component render (e.g. inside an effect)
+ */
+export async function fetchScenario(id: string): Promise<ScenarioSummary | null> {
+  if (builtInScenarios[id]) {
+    return builtInScenarios[id];
+  }
+
+  try {
+    const res = await fetch(`/api/scenarios/${encodeURIComponent(id)}`);
+    if (!res.ok) return null;
+    const data: { scenario: ScenarioSummary } = await res.json();
+    return data.scenario;
+  } catch (error) {
+    console.error("Failed to load scenario:", error);
+    return null;
+  }
+}
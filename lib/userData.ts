@@ -0,0 +1,128 @@
+/**
+ * User Data
+ * Everything stored about a visitor or account: the User document and the
+ * Conversations it owns. Gathered here for "download my data" (as JSON, or
+ * as transcripts a person can read) and deleted here when the user deletes
+ * their account, together with the account's sessions and any magic links
+ * still waiting to be used.
+ *
+ * Scenarios a coach authored are shared with every player, so deleting the
+ * coach's account leaves them in place.
+ */
+
+import dbConnect from "./mongodb";
+import User, { IUser } from "./models/User";
+import Conversation, { IConversation } from "./models/Conversation";
+import Session from "./models/Session";
+import LoginToken from "./models/LoginToken";
+import type { RequestIdentity } from "./identity";
+import { getScenario } from "./scenarioCatalog";
+import { getDifficultyLabel, parseDifficultyLevel } from "./difficultyEngine";
+
+export interface UserDataExport {
+  exportedAt: string;
+  user: Record<string, unknown> | null;
+  conversations: Record<string, unknown>[];
+}
+
+async function loadUserData(identity: RequestIdentity) {
+  await dbConnect();
+  const [user, conversations]: [IUser | null, IConversation[]] = await Promise.all([
+    identity.account ?? User.findOne({ visitorId: identity.visitorId }),
+    Conversation.find({ userId: identity.visitorId }).sort({ createdAt: 1 }),
+  ]);
+  return { user, conversations };
+}
+
+/**
+ * The caller's User document and every conversation, as stored (secrets
+ * such as password hashes are left out)
+ */
+export async function exportUserData(identity: RequestIdentity): Promise<UserDataExport> {
+  const { user, conversations } = await loadUserData(identity);
+  return {
+    exportedAt: new Date().toISOString(),
+    user: user ? user.toJSON() : null,
+    conversations: conversations.map((conversation) => conversation.toJSON()),
+  };
+}
+
+function formatTime(time: Date | number): string {
+  return `${new Date(time).toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+/**
+ * The same data as plain text: the profile, then each conversation's
+ * messages and analysis
+ */
+export async function exportUserTranscript(identity: RequestIdentity): Promise<string> {
+  const { user, conversations } = await loadUserData(identity);
+
+  // Custom scenarios may have been deleted since; fall back to their IDs
+  const titles = new Map<string, string>();
+  for (const id of new Set(conversations.map((c) => c.scenario))) {
+    titles.set(id, (await getScenario(id))?.title ?? id);
+  }
+
+  const lines = ["Cuepid data export", `Exported ${formatTime(Date.now())}`, ""];
+  if (user) {
+    lines.push(
+      user.email ? `Account: ${user.email}` : `Guest visitor: ${user.visitorId}`,
+      `Level ${user.level} (${user.xp} XP), ${user.conversationCount} conversations analyzed`
+    );
+    if (user.strengths.length) lines.push(`Strengths: ${user.strengths.join(", ")}`);
+    if (user.weaknesses.length) lines.push(`Working on: ${user.weaknesses.join(", ")}`);
+  }
+  lines.push("", `${conversations.length} saved conversations`);
+
+  for (const conversation of conversations) {
+    const difficulty = getDifficultyLabel(parseDifficultyLevel(conversation.difficulty));
+    lines.push(
+      "",
+      "=".repeat(60),
+      `${titles.get(conversation.scenario)} (${conversation.mode}, ${difficulty})`,
+      `Started ${formatTime(conversation.createdAt)} · ${conversation.status}`,
+      "=".repeat(60),
+      ""
+    );
+    for (const message of conversation.messages) {
+      const speaker = message.role === "user" ? "You" : "Partner";
+      lines.push(`[${formatTime(message.timestamp)}] ${speaker}: ${message.content}`);
+    }
+
+    const analytics = conversation.analytics;
+    if (analytics) {
+      lines.push("", `Analysis: ${analytics.summary}`);
+      for (const suggestion of analytics.suggestions) {
+        lines.push(`  - ${suggestion}`);
+      }
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Delete the caller's conversations, sessions, pending magic links and
+ * User document. Returns how many conversations went with them.
+ */
+export async function deleteUserData(identity: RequestIdentity): Promise<{ conversations: number }> {
+  await dbConnect();
+  const user: IUser | null =
+    identity.account ?? (await User.findOne({ visitorId: identity.visitorId }));
+
+  // Conversations of claimed visitors were moved onto the account's visitorId,
+  // but cover them too in case a claim was interrupted partway
+  const visitorIds = [identity.visitorId, ...(user?.claimedVisitorIds ?? [])];
+  const { deletedCount } = await Conversation.deleteMany({ userId: { $in: visitorIds } });
+
+  if (user) {
+    await Session.deleteMany({ userId: user._id });
+    if (user.email) {
+      await LoginToken.deleteMany({ email: user.email });
+    }
+    await User.deleteOne({ _id: user._id });
+  }
+
+  return { conversations: deletedCount };
+}
@@ -0,0 +1,142 @@
+/**
+ * File-backed Vector Index
+ * Stores embedded knowledge chunks in a JSON file (data/vectors/books/index.json
+ * by default) and answers cosine-similarity queries against it in memory
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+export const DEFAULT_INDEX_PATH = path.join(process.cwd(), "data", "vectors", "books", "index.json");
+
+export interface VectorItemMetadata {
+  text: string;
+  source: string; // Path relative to the ingested root, e.g. "confidence.md"
+  title: string;
+  chunk: number; // Position of the chunk within its source
+  page?: number; // PDF page the chunk starts on
+  tags: string[]; // Folder names under the ingested root, e.g. ["romantic"]
+}
+
+export interface VectorItem {
+  id: string; // "<source>#<chunk>"
+  vector: number[]; // Unit length, so cosine similarity is a dot product
+  metadata: VectorItemMetadata;
+}
+
+export interface VectorIndex {
+  version: 1;
+  embedder: string | null; // Name of the embedder that built the vectors
+  updatedAt: string | null;
+  items: VectorItem[];
+}
+
+export interface VectorQueryResult {
+  item: VectorItem;
+  score: number; // Cosine similarity, -1 to 1
+}
+
+export interface VectorQueryOptions {
+  topK?: number;
+  minScore?: number;
+  filter?: (metadata: VectorItemMetadata) => boolean;
+}
+
+// Loaded indexes, reloaded when the file changes on disk
+const indexCache = new Map<string, { mtimeMs: number; index: VectorIndex }>();
+
+export function createEmptyIndex(): VectorIndex {
+  return { version: 1, embedder: null, updatedAt: null, items: [] };
+}
+
+/**
+ * Load an index, returning an empty one if the file does not exist yet
+ */
+export async function loadIndex(indexPath: string = DEFAULT_INDEX_PATH): Promise<VectorIndex> {
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.stat(indexPath)).mtimeMs;
+  } catch {
+    return createEmptyIndex();
+  }
+
+  const cached = indexCache.get(indexPath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.index;
+  }
+
+  const raw = JSON.parse(await fs.readFile(indexPath, "utf8"));
+  // Files from the old Vectra layout have no embedder and are treated as empty
+  const index: VectorIndex = {
+    ...createEmptyIndex(),
+    embedder: typeof raw.embedder === "string" ? raw.embedder : null,
+    updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : null,
+    items: typeof raw.embedder === "string" && Array.isArray(raw.items) ? raw.items : [],
+  };
+
+  indexCache.set(indexPath, { mtimeMs, index });
+  return index;
+}
+
+export async function saveIndex(
+  index: VectorIndex,
+  indexPath: string = DEFAULT_INDEX_PATH
+): Promise<void> {
+  await fs.mkdir(path.dirname(indexPath), { recursive: true });
+  const saved: VectorIndex = { ...index, updatedAt: new Date().toISOString() };
+  // Six decimal places is far more precision than similarity ranking needs
+  await fs.writeFile(
+    indexPath,
+    JSON.stringify(saved, (key, value) =>
+      typeof value === "number" && !Number.isInteger(value) ? Number(value.toFixed(6)) : value
+    )
+  );
+  indexCache.delete(indexPath);
+}
+
+/**
+ * Replace every chunk of one source with a freshly embedded set
+ */
+export function replaceSourceItems(index: VectorIndex, source: string, items: VectorItem[]): VectorIndex {
+  return {
+    ...index,
+    items: [...index.items.filter((item) => item.metadata.source !== source), ...items],
+  };
+}
+
+/**
+ * Drop sources that are no longer present in the ingested folder
+ */
+export function retainSources(index: VectorIndex, sources: Set<string>): VectorIndex {
+  return {
+    ...index,
+    items: index.items.filter((item) => sources.has(item.metadata.source)),
+  };
+}
+
+function dot(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Find the items most similar to a (unit length) query vector
+ */
+export function queryIndex(
+  index: VectorIndex,
+  vector: number[],
+  options: VectorQueryOptions = {}
+): VectorQueryResult[] {
+  const { topK = 5, minScore = 0, filter } = options;
+
+  return index.items
+    .filter((item) => !filter || filter(item.metadata))
+    .map((item) => ({ item, score: dot(item.vector, vector) }))
+    .filter((result) => result.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
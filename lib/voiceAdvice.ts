@@ -1,8 +1,11 @@
 /**
  * RAG-based Voice Advice System
- * Provides personalized communication advice based on user weaknesses
+ * Provides personalized communication advice based on user weaknesses,
+ * retrieved from the knowledge index (see lib/bookRAG.ts)
  */
 
+import { Passage, retrievePassages } from "./bookRAG";
+
 export interface AdviceCategory {
   topic: string;
   sources: string[];
@@ -11,8 +14,8 @@ export interface AdviceCategory {
 }
 
 /**
- * Knowledge base for communication advice
- * In production, this would be retrieved from a vector database
+ * Built-in communication advice, used when the knowledge index has nothing
+ * relevant (e.g. before `npm run ingest`). Exercises always come from here.
  */
 const COMMUNICATION_KNOWLEDGE_BASE: Record<string, AdviceCategory> = {
   confidence: {
@@ -143,49 +146,91 @@ const COMMUNICATION_KNOWLEDGE_BASE: Record<string, AdviceCategory> = {
   },
 };
 
+// Map weakness names to knowledge base keys
+const WEAKNESS_MAPPING: Record<string, string> = {
+  Confidence: "confidence",
+  "Speech Smoothness": "confidence",
+  Empathy: "empathy",
+  Initiative: "initiative",
+  Clarity: "clarity",
+  Engagement: "engagement",
+};
+
+// Retrieval queries per knowledge base key; a few descriptive words match far
+// better than the bare weakness name
+const RETRIEVAL_QUERIES: Record<string, string> = {
+  confidence: "confidence: speak without hesitation, hedging or long pauses",
+  empathy: "empathy: acknowledge the other person's feelings and reflect back what they said",
+  initiative: "initiative: ask follow-up questions and introduce new topics",
+  clarity: "clarity: structure answers, use plain words and finish sentences",
+  engagement: "engaging conversation: match their energy, be curious and share experiences",
+  fillers: "filler words: replace um and uh with pauses",
+};
+
+/**
+ * Advice paragraphs from a retrieved passage, skipping headings and lists
+ */
+function adviceFromPassage(passage: Passage): string[] {
+  return passage.text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#") && !line.startsWith("-"));
+}
+
+/**
+ * Add advice for one knowledge base key: passages retrieved from the
+ * knowledge index, or the built-in entry when nothing relevant is indexed
+ */
+async function addAdvice(
+  result: { advice: string[]; exercises: string[]; sources: string[] },
+  key: string
+) {
+  const category = COMMUNICATION_KNOWLEDGE_BASE[key];
+  const passages = await retrievePassages(RETRIEVAL_QUERIES[key], {
+    topK: 2,
+    tags: ["coaching"],
+  }).catch((error) => {
+    console.error("Knowledge retrieval failed:", error);
+    return [] as Passage[];
+  });
+
+  if (passages.length > 0) {
+    result.advice.push(...passages.flatMap(adviceFromPassage).slice(0, 2));
+    result.sources.push(...passages.map((passage) => passage.citation).slice(0, 1));
+  } else {
+    result.advice.push(...category.advice.slice(0, 2));
+    result.sources.push(...category.sources.slice(0, 1));
+  }
+  result.exercises.push(...category.exercises.slice(0, 1));
+}
+
 /**
  * Get personalized advice based on user weaknesses
  */
-export function getPersonalizedAdvice(
+export async function getPersonalizedAdvice(
   weaknesses: string[],
   metrics?: { fillerFrequency?: number; wpm?: number }
-): {
+): Promise<{
   advice: string[];
   exercises: string[];
   sources: string[];
-} {
+}> {
   const result = {
     advice: [] as string[],
     exercises: [] as string[],
     sources: [] as string[],
   };
 
-  // Map weakness names to knowledge base keys
-  const weaknessMapping: Record<string, string> = {
-    Confidence: "confidence",
-    "Speech Smoothness": "confidence",
-    Empathy: "empathy",
-    Initiative: "initiative",
-    Clarity: "clarity",
-    Engagement: "engagement",
-  };
-
   // Add advice for high filler frequency
   if (metrics?.fillerFrequency && metrics.fillerFrequency > 10) {
-    const fillerAdvice = COMMUNICATION_KNOWLEDGE_BASE.fillers;
-    result.advice.push(...fillerAdvice.advice.slice(0, 2));
-    result.exercises.push(...fillerAdvice.exercises.slice(0, 1));
-    result.sources.push(...fillerAdvice.sources.slice(0, 1));
+    await addAdvice(result, "fillers");
   }
 
   // Add advice for each weakness
   for (const weakness of weaknesses) {
-    const key = weaknessMapping[weakness];
+    const key = WEAKNESS_MAPPING[weakness];
     if (key && COMMUNICATION_KNOWLEDGE_BASE[key]) {
-      const category = COMMUNICATION_KNOWLEDGE_BASE[key];
-      result.advice.push(...category.advice.slice(0, 2));
-      result.exercises.push(...category.exercises.slice(0, 1));
-      result.sources.push(...category.sources.slice(0, 1));
+      await addAdvice(result, key);
     }
   }
 
@@ -201,16 +246,7 @@ export function getPersonalizedAdvice(
  * Get specific drill for a weakness
  */
 export function getDrillForWeakness(weakness: string): string[] {
-  const weaknessMapping: Record<string, string> = {
-    Confidence: "confidence",
-    "Speech Smoothness": "confidence",
-    Empathy: "empathy",
-    Initiative: "initiative",
-    Clarity: "clarity",
-    Engagement: "engagement",
-  };
-
-  const key = weaknessMapping[weakness];
+  const key = WEAKNESS_MAPPING[weakness];
   if (key && COMMUNICATION_KNOWLEDGE_BASE[key]) {
     return COMMUNICATION_KNOWLEDGE_BASE[key].exercises;
   }
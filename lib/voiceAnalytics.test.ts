@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_TRANSCRIPT_DURATION_MS,
+  analyzeVoiceTranscript,
+  normalizeTranscriptInput,
+  normalizeWordTimestamps,
+} from "./voiceAnalytics";
+
+const transcript = "I hear you, that sounds hard. What happened after that?";
+
+describe("normalizeWordTimestamps", () => {
+  it("drops malformed entries and orders the rest by start time", () => {
+    const words = normalizeWordTimestamps([
+      { word: "that", start: 400, end: 600 },
+      { word: "I", start: 0, end: 100 },
+      null,
+      { word: "late", start: "200", end: 300 },
+      { word: "backwards", start: 900, end: 800 },
+      { word: "before", start: -50, end: 10 },
+      { word: "far", start: 0, end: MAX_TRANSCRIPT_DURATION_MS + 1 },
+      { word: "nan", start: NaN, end: 10 },
+    ]);
+    expect(words?.map((w) => w.word)).toEqual(["I", "that"]);
+  });
+
+  it("ignores anything that isn't an array", () => {
+    expect(normalizeWordTimestamps("0-100")).toBeUndefined();
+    expect(normalizeWordTimestamps({ start: 0, end: 1 })).toBeUndefined();
+  });
+});
+
+describe("normalizeTranscriptInput", () => {
+  it("clamps confidence to 0-1 and the duration to the maximum", () => {
+    expect(normalizeTranscriptInput({ transcript, confidence: 7, durationMs: 1e12 })).toMatchObject({
+      confidence: 1,
+      durationMs: MAX_TRANSCRIPT_DURATION_MS,
+    });
+    expect(normalizeTranscriptInput({ transcript, confidence: -3 }).confidence).toBe(0);
+  });
+
+  it("drops values that aren't finite numbers", () => {
+    const input = normalizeTranscriptInput({ transcript, confidence: "high", durationMs: NaN });
+    expect(input.confidence).toBeUndefined();
+    expect(input.durationMs).toBe(0);
+    expect(normalizeTranscriptInput({ transcript, confidence: Infinity }).confidence).toBeUndefined();
+  });
+
+  it("falls back to the last word's end without a usable duration", () => {
+    const input = normalizeTranscriptInput({
+      transcript: "hi there",
+      durationMs: -4000,
+      wordTimestamps: [
+        { word: "hi", start: 100, end: 300 },
+        { word: "there", start: 400, end: 900 },
+      ],
+    });
+    expect(input.durationMs).toBe(900);
+  });
+});
+
+describe("analyzeVoiceTranscript", () => {
+  it("scores a bad payload with finite, in-range metrics", () => {
+    const metrics = analyzeVoiceTranscript(
+      normalizeTranscriptInput({
+        transcript,
+        confidence: "very",
+        durationMs: -1,
+        wordTimestamps: [{ word: "I", start: "soon", end: null }, "hear", { start: 1e15, end: 1e16 }],
+      })
+    );
+
+    for (const value of Object.values(metrics)) {
+      expect(Number.isFinite(value)).toBe(true);
+      expect(value).toBeGreaterThanOrEqual(0);
+    }
+    for (const score of [
+      metrics.smoothnessScore,
+      metrics.confidenceScore,
+      metrics.empathyScore,
+      metrics.initiativeScore,
+      metrics.engagementScore,
+      metrics.clarityScore,
+    ]) {
+      expect(score).toBeLessThanOrEqual(100);
+    }
+  });
+});
@@ -1,12 +1,18 @@
 /**
  * Voice Performance Analytics Engine
  * Analyzes speech patterns, confidence, and communication effectiveness
+ *
+ * The content scores (fillers, empathy, initiative, engagement, clarity)
+ * only look at the words, so text chat reuses them (lib/textAnalytics.ts).
  */
 
 export interface VoiceMetrics {
   wpm: number; // Words per minute
   fillerFrequency: number; // Filler words per 100 words (0-100 scale)
   avgPauseMs: number; // Average pause length in milliseconds
+  longestPauseMs: number; // Longest gap between two words in milliseconds
+  speechRateVariance: number; // Std. deviation of local WPM across the response
+  timeToFirstWordMs: number; // Delay from the start of recording to the first word
   smoothnessScore: number; // 0-100: Speech flow quality
   confidenceScore: number; // 0-100: Based on hesitation, completeness
   empathyScore: number; // 0-100: Reflective statements, validation
@@ -17,9 +23,9 @@ export interface VoiceMetrics {
 
 export interface WordTimestamp {
   word: string;
-  start: number;
+  start: number; // Milliseconds from the start of the recording
   end: number;
-  confidence?: number;
+  confidence?: number; // 0-1 STT confidence for this word
 }
 
 export interface TranscriptAnalysisInput {
@@ -29,6 +35,9 @@ export interface TranscriptAnalysisInput {
   confidence?: number;
 }
 
+// Longer than any single turn is recorded for; timings past it are bogus
+export const MAX_TRANSCRIPT_DURATION_MS = 10 * 60 * 1000;
+
 // Filler words to detect
 const FILLER_WORDS = new Set([
   "um",
@@ -127,7 +136,7 @@ function countFillerWords(transcript: string): number {
 /**
  * Calculate filler frequency per 100 words
  */
-function calculateFillerFrequency(transcript: string): number {
+export function calculateFillerFrequency(transcript: string): number {
   const words = transcript.split(/\s+/).filter((w) => w.length > 0);
   if (words.length === 0) return 0;
 
@@ -154,13 +163,115 @@ function calculateAveragePause(wordTimestamps?: WordTimestamp[]): number {
   return Math.round(pauses.reduce((a, b) => a + b, 0) / pauses.length);
 }
 
+/**
+ * Find the longest pause between consecutive words
+ */
+function calculateLongestPause(wordTimestamps?: WordTimestamp[]): number {
+  if (!wordTimestamps || wordTimestamps.length < 2) return 0;
+
+  let longest = 0;
+  for (let i = 1; i < wordTimestamps.length; i++) {
+    longest = Math.max(longest, wordTimestamps[i].start - wordTimestamps[i - 1].end);
+  }
+  return Math.round(longest);
+}
+
+// Words per window when measuring how steady the speaking pace is
+const RATE_WINDOW_WORDS = 5;
+
+/**
+ * Calculate how much the speaking pace varies within a response:
+ * the standard deviation of WPM over consecutive 5-word windows
+ */
+function calculateSpeechRateVariance(wordTimestamps?: WordTimestamp[]): number {
+  if (!wordTimestamps || wordTimestamps.length < RATE_WINDOW_WORDS * 2) return 0;
+
+  const rates: number[] = [];
+  for (let i = 0; i + RATE_WINDOW_WORDS <= wordTimestamps.length; i += RATE_WINDOW_WORDS) {
+    const spanMs =
+      wordTimestamps[i + RATE_WINDOW_WORDS - 1].end - wordTimestamps[i].start;
+    if (spanMs > 0) {
+      rates.push((RATE_WINDOW_WORDS / spanMs) * 60000);
+    }
+  }
+
+  if (rates.length < 2) return 0;
+  const mean = rates.reduce((a, b) => a + b, 0) / rates.length;
+  const variance = rates.reduce((acc, r) => acc + (r - mean) ** 2, 0) / rates.length;
+  return Math.round(Math.sqrt(variance));
+}
+
+/**
+ * Time before the user started speaking
+ */
+function calculateTimeToFirstWord(wordTimestamps?: WordTimestamp[]): number {
+  if (!wordTimestamps || wordTimestamps.length === 0) return 0;
+  return Math.round(Math.max(0, wordTimestamps[0].start));
+}
+
+/**
+ * Average per-word STT confidence, used when the transcriber gives no overall value
+ */
+function averageWordConfidence(wordTimestamps?: WordTimestamp[]): number | undefined {
+  const confidences = (wordTimestamps || [])
+    .map((w) => w.confidence)
+    .filter((c): c is number => typeof c === "number" && Number.isFinite(c));
+  if (confidences.length === 0) return undefined;
+  return confidences.reduce((a, b) => a + b, 0) / confidences.length;
+}
+
+/**
+ * Drop malformed timestamps (they come from the client) and order by start time
+ */
+export function normalizeWordTimestamps(wordTimestamps?: unknown): WordTimestamp[] | undefined {
+  if (!Array.isArray(wordTimestamps)) return undefined;
+  return (wordTimestamps as WordTimestamp[])
+    .filter(
+      (w) =>
+        Number.isFinite(w?.start) &&
+        Number.isFinite(w?.end) &&
+        w.start >= 0 &&
+        w.end >= w.start &&
+        w.end <= MAX_TRANSCRIPT_DURATION_MS
+    )
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * The transcript timing a client sent, made safe to score: a confidence
+ * or duration that isn't a finite number is dropped, confidence is clamped
+ * to 0-1, the duration to MAX_TRANSCRIPT_DURATION_MS and malformed word
+ * timestamps are removed. Without a usable duration, the last word's end
+ * stands in for it.
+ */
+export function normalizeTranscriptInput(input: {
+  transcript: string;
+  durationMs?: unknown;
+  wordTimestamps?: unknown;
+  confidence?: unknown;
+}): TranscriptAnalysisInput {
+  const wordTimestamps = normalizeWordTimestamps(input.wordTimestamps);
+  const durationMs =
+    typeof input.durationMs === "number" && Number.isFinite(input.durationMs) && input.durationMs > 0
+      ? Math.min(input.durationMs, MAX_TRANSCRIPT_DURATION_MS)
+      : Math.max(0, ...(wordTimestamps ?? []).map((w) => w.end));
+  const confidence =
+    typeof input.confidence === "number" && Number.isFinite(input.confidence)
+      ? Math.max(0, Math.min(1, input.confidence))
+      : undefined;
+
+  return { transcript: input.transcript, wordTimestamps, durationMs, confidence };
+}
+
 /**
  * Calculate smoothness score based on pauses and filler words
  */
 function calculateSmoothnessScore(
   transcript: string,
   avgPauseMs: number,
-  fillerFrequency: number
+  fillerFrequency: number,
+  longestPauseMs: number = 0,
+  speechRateVariance: number = 0
 ): number {
   // Base score starts at 100
   let score = 100;
@@ -173,6 +284,16 @@ function calculateSmoothnessScore(
     score -= Math.min(25, ((avgPauseMs - 500) / 100) * 5);
   }
 
+  // Penalize for a single long stall (>2s) in the middle of speaking
+  if (longestPauseMs > 2000) {
+    score -= Math.min(10, ((longestPauseMs - 2000) / 500) * 2);
+  }
+
+  // Penalize for an uneven pace (speeding up and slowing down a lot)
+  if (speechRateVariance > 40) {
+    score -= Math.min(10, ((speechRateVariance - 40) / 10) * 2);
+  }
+
   // Penalize for very short responses (less than 5 words)
   const wordCount = transcript.split(/\s+/).filter((w) => w.length > 0).length;
   if (wordCount < 5) {
@@ -189,7 +310,8 @@ function calculateConfidenceScore(
   transcript: string,
   fillerFrequency: number,
   avgPauseMs: number,
-  transcriptConfidence?: number
+  transcriptConfidence?: number,
+  timeToFirstWordMs: number = 0
 ): number {
   let score = transcriptConfidence ? transcriptConfidence * 100 : 70;
 
@@ -201,6 +323,11 @@ function calculateConfidenceScore(
     score -= Math.min(15, ((avgPauseMs - 600) / 100) * 3);
   }
 
+  // Penalize for a long hesitation before starting to speak
+  if (timeToFirstWordMs > 2000) {
+    score -= Math.min(10, ((timeToFirstWordMs - 2000) / 500) * 2);
+  }
+
   // Check for hedging language
   const hedgingPatterns = [
     /i guess/i,
@@ -231,7 +358,7 @@ function calculateConfidenceScore(
 /**
  * Calculate empathy score
  */
-function calculateEmpathyScore(transcript: string): number {
+export function calculateEmpathyScore(transcript: string): number {
   const lowerTranscript = transcript.toLowerCase();
   let score = 50; // Base score
 
@@ -260,7 +387,7 @@ function calculateEmpathyScore(transcript: string): number {
 /**
  * Calculate initiative score
  */
-function calculateInitiativeScore(transcript: string): number {
+export function calculateInitiativeScore(transcript: string): number {
   let score = 40; // Base score
 
   // Check for questions
@@ -294,7 +421,7 @@ function calculateInitiativeScore(transcript: string): number {
 /**
  * Calculate engagement score
  */
-function calculateEngagementScore(transcript: string): number {
+export function calculateEngagementScore(transcript: string): number {
   let score = 40;
 
   const wordCount = transcript.split(/\s+/).filter((w) => w.length > 0).length;
@@ -337,7 +464,7 @@ function calculateEngagementScore(transcript: string): number {
 /**
  * Calculate clarity score
  */
-function calculateClarityScore(transcript: string): number {
+export function calculateClarityScore(transcript: string): number {
   let score = 60;
 
   // Check for complete sentences
@@ -390,18 +517,38 @@ function calculateClarityScore(transcript: string): number {
  * Main analysis function - computes all voice metrics
  */
 export function analyzeVoiceTranscript(input: TranscriptAnalysisInput): VoiceMetrics {
-  const { transcript, wordTimestamps, durationMs, confidence } = input;
+  const { transcript, durationMs } = input;
+  const wordTimestamps = normalizeWordTimestamps(input.wordTimestamps);
+  const confidence = input.confidence ?? averageWordConfidence(wordTimestamps);
 
   const wpm = calculateWPM(transcript, durationMs);
   const fillerFrequency = calculateFillerFrequency(transcript);
   const avgPauseMs = calculateAveragePause(wordTimestamps);
+  const longestPauseMs = calculateLongestPause(wordTimestamps);
+  const speechRateVariance = calculateSpeechRateVariance(wordTimestamps);
+  const timeToFirstWordMs = calculateTimeToFirstWord(wordTimestamps);
 
   return {
     wpm,
     fillerFrequency,
     avgPauseMs,
-    smoothnessScore: calculateSmoothnessScore(transcript, avgPauseMs, fillerFrequency),
-    confidenceScore: calculateConfidenceScore(transcript, fillerFrequency, avgPauseMs, confidence),
+    longestPauseMs,
+    speechRateVariance,
+    timeToFirstWordMs,
+    smoothnessScore: calculateSmoothnessScore(
+      transcript,
+      avgPauseMs,
+      fillerFrequency,
+      longestPauseMs,
+      speechRateVariance
+    ),
+    confidenceScore: calculateConfidenceScore(
+      transcript,
+      fillerFrequency,
+      avgPauseMs,
+      confidence,
+      timeToFirstWordMs
+    ),
     empathyScore: calculateEmpathyScore(transcript),
     initiativeScore: calculateInitiativeScore(transcript),
     engagementScore: calculateEngagementScore(transcript),
@@ -418,6 +565,9 @@ export function aggregateVoiceMetrics(metricsHistory: VoiceMetrics[]): VoiceMetr
       wpm: 0,
       fillerFrequency: 0,
       avgPauseMs: 0,
+      longestPauseMs: 0,
+      speechRateVariance: 0,
+      timeToFirstWordMs: 0,
       smoothnessScore: 0,
       confidenceScore: 0,
       empathyScore: 0,
@@ -427,8 +577,9 @@ export function aggregateVoiceMetrics(metricsHistory: VoiceMetrics[]): VoiceMetr
     };
   }
 
+  // Records saved before a metric existed count as 0
   const sum = (key: keyof VoiceMetrics) =>
-    metricsHistory.reduce((acc, m) => acc + m[key], 0);
+    metricsHistory.reduce((acc, m) => acc + (m[key] || 0), 0);
 
   const count = metricsHistory.length;
 
@@ -436,6 +587,9 @@ export function aggregateVoiceMetrics(metricsHistory: VoiceMetrics[]): VoiceMetr
     wpm: Math.round(sum("wpm") / count),
     fillerFrequency: Math.round(sum("fillerFrequency") / count),
     avgPauseMs: Math.round(sum("avgPauseMs") / count),
+    longestPauseMs: Math.max(...metricsHistory.map((m) => m.longestPauseMs || 0)),
+    speechRateVariance: Math.round(sum("speechRateVariance") / count),
+    timeToFirstWordMs: Math.round(sum("timeToFirstWordMs") / count),
     smoothnessScore: Math.round(sum("smoothnessScore") / count),
     confidenceScore: Math.round(sum("confidenceScore") / count),
     empathyScore: Math.round(sum("empathyScore") / count),
@@ -0,0 +1,137 @@
+/**
+ * Voice Catalog
+ * The ElevenLabs voices a partner can speak with: the six built-in voices
+ * plus any configured in ELEVENLABS_VOICES. Each voice has a key that
+ * scenario voice personas can refer to, and is tagged with the partner
+ * genders and voice type it suits.
+ *
+ *   ELEVENLABS_VOICES="river=AbCdEf1234567890:nonbinary:warm,sky=XyZ0987654321abc:female|unspecified"
+ *
+ * Entries are key=voiceId, then optionally the genders ('|'-separated) and
+ * the voice type. A configured key replaces a built-in voice of that name.
+ */
+
+import { PARTNER_GENDERS, PartnerGender, VOICE_IDS } from "./toneToVoiceSettings";
+import { ScenarioCategory, ScenarioVoicePersona, VOICE_TYPES, VoiceType } from "./scenarios";
+
+export interface CatalogVoice {
+  key: string;
+  voiceId: string; // ElevenLabs voice ID
+  genders: PartnerGender[]; // Partners this voice can play
+  voiceType?: VoiceType;
+}
+
+// ElevenLabs voice IDs
+export const VOICE_ID_PATTERN = /^[A-Za-z0-9]{10,40}$/;
+
+export const VOICE_KEY_PATTERN = /^[a-z][a-z0-9_-]{0,29}$/;
+
+const BUILT_IN_VOICES: CatalogVoice[] = [
+  { key: "sarah", voiceId: VOICE_IDS.female.warm, genders: ["female"], voiceType: "warm" },
+  { key: "rachel", voiceId: VOICE_IDS.female.neutral, genders: ["female"], voiceType: "neutral" },
+  { key: "demi", voiceId: VOICE_IDS.female.professional, genders: ["female"], voiceType: "professional" },
+  { key: "josh", voiceId: VOICE_IDS.male.warm, genders: ["male"], voiceType: "warm" },
+  { key: "adam", voiceId: VOICE_IDS.male.neutral, genders: ["male"], voiceType: "neutral" },
+  { key: "arnold", voiceId: VOICE_IDS.male.professional, genders: ["male"], voiceType: "professional" },
+];
+
+// Default voice when nothing else matches (Rachel - versatile female voice)
+export const DEFAULT_VOICE_ID = VOICE_IDS.female.neutral;
+
+/**
+ * Parse ELEVENLABS_VOICES. Invalid entries are skipped and reported so one
+ * typo doesn't take down the rest.
+ */
+export function parseVoiceConfig(value: string): { voices: CatalogVoice[]; errors: string[] } {
+  const voices: CatalogVoice[] = [];
+  const errors: string[] = [];
+
+  for (const entry of value.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const [assignment, genderList, voiceType] = entry.split(":").map((part) => part.trim());
+    const [key, voiceId] = (assignment || "").split("=").map((part) => part.trim());
+    const genders = genderList ? genderList.split("|").map((g) => g.trim()) : [...PARTNER_GENDERS];
+
+    if (!VOICE_KEY_PATTERN.test(key || "")) {
+      errors.push(`"${entry}": key must be 1-30 lowercase letters, digits, '-' or '_'`);
+    } else if (!VOICE_ID_PATTERN.test(voiceId || "")) {
+      errors.push(`"${entry}": ${voiceId || "(missing)"} is not an ElevenLabs voice ID`);
+    } else if (!genders.every((g) => PARTNER_GENDERS.includes(g as PartnerGender))) {
+      errors.push(`"${entry}": genders must be from ${PARTNER_GENDERS.join(", ")}`);
+    } else if (voiceType && !VOICE_TYPES.includes(voiceType as VoiceType)) {
+      errors.push(`"${entry}": voice type must be one of ${VOICE_TYPES.join(", ")}`);
+    } else {
+      voices.push({
+        key,
+        voiceId,
+        genders: genders as PartnerGender[],
+        ...(voiceType && { voiceType: voiceType as VoiceType }),
+      });
+    }
+  }
+
+  return { voices, errors };
+}
+
+let cachedVoices: CatalogVoice[] | null = null;
+
+/**
+ * Configured voices first, then the built-in ones they don't replace
+ */
+export function listVoices(): CatalogVoice[] {
+  if (!cachedVoices) {
+    const { voices, errors } = parseVoiceConfig(process.env.ELEVENLABS_VOICES || "");
+    for (const error of errors) {
+      console.warn(`Ignoring ELEVENLABS_VOICES entry ${error}`);
+    }
+    const configured = new Set(voices.map((voice) => voice.key));
+    cachedVoices = [...voices, ...BUILT_IN_VOICES.filter((voice) => !configured.has(voice.key))];
+  }
+  return cachedVoices;
+}
+
+export function findVoice(key: string): CatalogVoice | undefined {
+  return listVoices().find((voice) => voice.key === key);
+}
+
+/**
+ * A voice reference from a scenario is a catalog key or a raw ElevenLabs ID
+ */
+export function isVoiceReference(value: string): boolean {
+  return !!findVoice(value) || VOICE_ID_PATTERN.test(value);
+}
+
+function resolveVoiceReference(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  return findVoice(value)?.voiceId || (VOICE_ID_PATTERN.test(value) ? value : undefined);
+}
+
+function defaultVoiceType(category?: ScenarioCategory): VoiceType {
+  return category === "romantic" ? "warm" : category === "professional" ? "professional" : "neutral";
+}
+
+/**
+ * Pick the voice for a partner: the scenario's voice for this gender if it
+ * names one, else a catalog voice for the gender, preferring the scenario's
+ * (or category's) voice type. Genders without a voice of their own (e.g.
+ * non-binary, unless one is configured) fall back to any voice of the type.
+ */
+export function selectVoiceId(options: {
+  gender: PartnerGender;
+  category?: ScenarioCategory;
+  voicePersona?: ScenarioVoicePersona;
+}): string {
+  const { gender, category, voicePersona } = options;
+
+  const chosen = resolveVoiceReference(voicePersona?.voiceIds?.[gender]);
+  if (chosen) return chosen;
+
+  const voiceType = voicePersona?.voiceType || defaultVoiceType(category);
+  const voices = listVoices();
+  const forGender = voices.filter((voice) => voice.genders.includes(gender));
+  const match =
+    forGender.find((voice) => voice.voiceType === voiceType) ||
+    forGender[0] ||
+    voices.find((voice) => voice.voiceType === voiceType);
+
+  return match?.voiceId || DEFAULT_VOICE_ID;
+}
@@ -0,0 +1,245 @@
+/**
+ * Voice Conversation Report
+ * Turns the per-response voice metrics of a conversation into the report
+ * shown on the voice dashboard, and keeps the user's running voice averages
+ */
+
+import {
+  VoiceMetrics,
+  analyzeVoiceTranscript,
+  aggregateVoiceMetrics,
+  identifyStrengthsAndWeaknesses,
+  getCommunicationStyleSummary,
+} from "./voiceAnalytics";
+import { calculateVoiceXP } from "./levels";
+
+// "recorded": per-response metrics captured live during the conversation
+// "transcript": recovered afterwards from the stored text, without timing
+export type VoiceMetricsSource = "recorded" | "transcript";
+
+export interface VoiceReport {
+  aggregatedMetrics: VoiceMetrics;
+  metricsSource: VoiceMetricsSource;
+  strengths: string[];
+  weaknesses: string[];
+  communicationStyle: string;
+  xpEarned: number;
+  summary: string;
+  suggestions: string[];
+  drills: string[];
+  nextGoal: string;
+}
+
+// Subset of VoiceMetrics kept as running averages on the User
+export interface VoiceAverages {
+  wpm: number;
+  fillerFrequency: number;
+  confidenceScore: number;
+  empathyScore: number;
+  initiativeScore: number;
+}
+
+const AVERAGED_FIELDS: (keyof VoiceAverages)[] = [
+  "wpm",
+  "fillerFrequency",
+  "confidenceScore",
+  "empathyScore",
+  "initiativeScore",
+];
+
+// Fields that need audio timing and can't be recovered from text alone
+const TIMING_FIELDS: (keyof VoiceAverages)[] = ["wpm"];
+
+/**
+ * Build the full report for a conversation's voice metrics
+ */
+export function buildVoiceReport(
+  metricsHistory: VoiceMetrics[],
+  metricsSource: VoiceMetricsSource = "recorded"
+): VoiceReport {
+  const aggregatedMetrics = aggregateVoiceMetrics(metricsHistory);
+  const { strengths, weaknesses } = identifyStrengthsAndWeaknesses(aggregatedMetrics);
+
+  return {
+    aggregatedMetrics,
+    metricsSource,
+    strengths,
+    weaknesses,
+    communicationStyle: getCommunicationStyleSummary(aggregatedMetrics),
+    xpEarned: calculateVoiceXP(aggregatedMetrics),
+    summary: generateSummary(aggregatedMetrics, strengths, weaknesses),
+    suggestions: generateSuggestions(weaknesses, aggregatedMetrics),
+    drills: generateDrills(weaknesses),
+    nextGoal: generateNextGoal(weaknesses, aggregatedMetrics),
+  };
+}
+
+/**
+ * Recover per-response metrics from the user's stored messages when the
+ * live metrics were lost. Without audio there is no duration or word timing,
+ * so pace and pause metrics come out as 0; the text-based scores are real.
+ */
+export function recoverMetricsFromTranscript(
+  messages: { role: string; content: string }[]
+): VoiceMetrics[] {
+  return messages
+    .filter((m) => m.role === "user" && m.content.trim().length > 0)
+    .map((m) => analyzeVoiceTranscript({ transcript: m.content, durationMs: 0 }));
+}
+
+/**
+ * Fold one conversation's metrics into the user's running averages.
+ * When `replaced` is given (a re-analysis), its earlier contribution is
+ * swapped out instead of counting the conversation twice. Timing fields are
+ * left as they were when the metrics came from a transcript.
+ */
+export function updateVoiceAverages(
+  current: VoiceAverages | null,
+  count: number,
+  next: VoiceMetrics,
+  replaced?: VoiceMetrics | null,
+  metricsSource: VoiceMetricsSource = "recorded"
+): VoiceAverages {
+  const averages = {} as VoiceAverages;
+
+  for (const field of AVERAGED_FIELDS) {
+    if (metricsSource === "transcript" && TIMING_FIELDS.includes(field)) {
+      averages[field] = current?.[field] ?? 0;
+      continue;
+    }
+    if (!current || count === 0) {
+      averages[field] = next[field];
+    } else if (replaced) {
+      averages[field] = current[field] + (next[field] - replaced[field]) / count;
+    } else {
+      averages[field] = (current[field] * count + next[field]) / (count + 1);
+    }
+    averages[field] = Math.round(averages[field] * 10) / 10;
+  }
+
+  return averages;
+}
+
+function generateSuggestions(weaknesses: string[], metrics: VoiceMetrics): string[] {
+  const suggestions: string[] = [];
+
+  if (weaknesses.includes("Confidence") || metrics.confidenceScore < 50) {
+    suggestions.push(
+      "Practice speaking more slowly and deliberately to project confidence.",
+      "Before responding, take a brief pause to gather your thoughts."
+    );
+  }
+
+  if (weaknesses.includes("Empathy") || metrics.empathyScore < 50) {
+    suggestions.push(
+      "Try reflecting back what the other person said before adding your thoughts.",
+      "Use phrases like 'I understand' or 'That makes sense' to show you're listening."
+    );
+  }
+
+  if (weaknesses.includes("Initiative") || metrics.initiativeScore < 50) {
+    suggestions.push(
+      "Ask more follow-up questions to show genuine interest.",
+      "Introduce new topics or share related experiences to keep the conversation flowing."
+    );
+  }
+
+  if (metrics.fillerFrequency > 10) {
+    suggestions.push(
+      "Practice replacing filler words with brief pauses instead.",
+      "Record yourself speaking and count filler words to build awareness."
+    );
+  }
+
+  if (metrics.wpm < 100 || metrics.wpm > 180) {
+    suggestions.push(
+      metrics.wpm < 100
+        ? "Try speaking at a slightly faster pace to maintain engagement."
+        : "Slow down your speaking pace to improve clarity and connection."
+    );
+  }
+
+  return suggestions.slice(0, 4);
+}
+
+function generateDrills(weaknesses: string[]): string[] {
+  const drillMap: Record<string, string[]> = {
+    Confidence: [
+      "Record yourself answering common questions and review your delivery.",
+      "Practice power poses for 2 minutes before conversations.",
+    ],
+    Empathy: [
+      "Practice active listening: summarize what the speaker said before responding.",
+      "Watch conversations in movies and identify empathy moments.",
+    ],
+    Initiative: [
+      "Prepare 3 interesting questions before your next conversation.",
+      "Practice the 'and' technique: add something new to each response.",
+    ],
+    Engagement: [
+      "Set a goal to elaborate on your answers with at least one example.",
+      "Practice storytelling: turn simple answers into brief narratives.",
+    ],
+    Clarity: [
+      "Practice the PREP method: Point, Reason, Example, Point.",
+      "Record yourself and identify unclear moments.",
+    ],
+    "Speech Smoothness": [
+      "Read aloud for 5 minutes daily to improve flow.",
+      "Practice tongue twisters to improve articulation.",
+    ],
+  };
+
+  const drills: string[] = [];
+  for (const weakness of weaknesses) {
+    const weaknessDrills = drillMap[weakness] || [];
+    drills.push(...weaknessDrills);
+  }
+
+  return drills.slice(0, 4);
+}
+
+function generateNextGoal(weaknesses: string[], metrics: VoiceMetrics): string {
+  if (metrics.fillerFrequency > 15) {
+    return "Focus on reducing filler words by 50% in your next conversation.";
+  }
+
+  if (metrics.confidenceScore < 40) {
+    return "Practice speaking with deliberate pauses instead of rushing through responses.";
+  }
+
+  if (metrics.empathyScore < 40) {
+    return "Try to include at least one reflective statement in each response.";
+  }
+
+  if (metrics.initiativeScore < 40) {
+    return "Ask at least 3 meaningful follow-up questions in your next conversation.";
+  }
+
+  if (weaknesses.length > 0) {
+    return `Focus on improving your ${weaknesses[0].toLowerCase()} in the next conversation.`;
+  }
+
+  return "Challenge yourself by trying a harder difficulty level!";
+}
+
+function generateSummary(
+  metrics: VoiceMetrics,
+  strengths: string[],
+  weaknesses: string[]
+): string {
+  const avgScore =
+    (metrics.confidenceScore +
+      metrics.empathyScore +
+      metrics.initiativeScore +
+      metrics.engagementScore +
+      metrics.clarityScore) /
+    5;
+
+  let performance = "solid";
+  if (avgScore >= 75) performance = "excellent";
+  else if (avgScore >= 60) performance = "good";
+  else if (avgScore < 40) performance = "developing";
+
+  return `You showed ${performance} voice communication skills in this conversation. Your strongest areas were ${strengths.slice(0, 2).join(" and ").toLowerCase()}, which helped create a positive dynamic. To improve further, focus on ${weaknesses[0]?.toLowerCase() || "maintaining consistency"} while keeping your natural conversational style.`;
+}
@@ -148,6 +148,9 @@ export function computeConversationAnalytics(
     wpm: 0,
     fillerFrequency: 0,
     avgPauseMs: 0,
+    longestPauseMs: 0,
+    speechRateVariance: 0,
+    timeToFirstWordMs: 0,
     smoothnessScore: 0,
     confidenceScore: 0,
     empathyScore: 0,
@@ -0,0 +1,46 @@
+/**
+ * Build the knowledge vector index
+ *
+ *   npm run ingest                          # data/knowledge -> data/vectors/books/index.json
+ *   npm run ingest -- ./my-books --index ./data/vectors/books/index.json
+ *
+ * Re-run after adding, editing or removing sources, or after changing
+ * EMBEDDING_PROVIDER / EMBEDDING_MODEL. The default index is committed as a
+ * seed built with the hashing embedder; commit it again after rebuilding it
+ * for changed sources.
+ */
+
+import path from "path";
+import { DEFAULT_SOURCE_DIR, ingestSources } from "../lib/ingest";
+import { DEFAULT_INDEX_PATH } from "../lib/vectorstore";
+
+function parseArgs(argv: string[]): { sourceDir: string; indexPath: string } {
+  let sourceDir = DEFAULT_SOURCE_DIR;
+  let indexPath = DEFAULT_INDEX_PATH;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--index") {
+      indexPath = path.resolve(argv[++i] || "");
+    } else {
+      sourceDir = path.resolve(argv[i]);
+    }
+  }
+
+  return { sourceDir, indexPath };
+}
+
+async function main() {
+  const { sourceDir, indexPath } = parseArgs(process.argv.slice(2));
+  console.log(`Ingesting ${sourceDir}`);
+
+  const result = await ingestSources({ sourceDir, indexPath, log: console.log });
+
+  console.log(
+    `Indexed ${result.chunks} chunks from ${result.sources} sources with ${result.embedder} -> ${indexPath}`
+  );
+}
+
+main().catch((error) => {
+  console.error("Ingestion failed:", error);
+  process.exit(1);
+});
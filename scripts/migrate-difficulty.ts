@@ -0,0 +1,48 @@
+/**
+ * Convert stored conversation difficulties to levels
+ *
+ *   npm run migrate:difficulty            # reads MONGODB_URI from .env.local
+ *   npm run migrate:difficulty -- --dry-run
+ *
+ * Text conversations used to store "easy"/"medium"/"hard" and voice ones a
+ * numeric string such as "4.5"; both become a number from 1 to 10. Safe to
+ * run more than once.
+ */
+
+import mongoose from "mongoose";
+import dbConnect from "../lib/mongodb";
+import Conversation from "../lib/models/Conversation";
+import { parseDifficultyLevel } from "../lib/difficultyEngine";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  await dbConnect();
+
+  // The raw collection, so the schema doesn't cast the old values on read
+  const collection = Conversation.collection;
+  const legacy = await collection
+    .find({ difficulty: { $not: { $type: "number" } } }, { projection: { difficulty: 1 } })
+    .toArray();
+
+  const counts = new Map<string, number>();
+  for (const doc of legacy) {
+    const level = parseDifficultyLevel(doc.difficulty);
+    const change = `${JSON.stringify(doc.difficulty)} -> ${level}`;
+    counts.set(change, (counts.get(change) || 0) + 1);
+    if (!dryRun) {
+      await collection.updateOne({ _id: doc._id }, { $set: { difficulty: level } });
+    }
+  }
+
+  for (const [change, count] of counts) {
+    console.log(`${change}: ${count}`);
+  }
+  console.log(`${dryRun ? "Would migrate" : "Migrated"} ${legacy.length} conversations`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,46 @@
+/**
+ * Apply the conversation retention policy
+ *
+ *   npm run purge:conversations            # reads MONGODB_URI from .env.local
+ *   npm run purge:conversations -- --dry-run
+ *
+ * Marks conversations left active past ABANDON_AFTER_MS as abandoned (the
+ * app otherwise only does this when their owner starts a new conversation),
+ * then deletes those older than CONVERSATION_RETENTION_DAYS. The app doesn't
+ * schedule this itself; run it from cron, e.g. daily:
+ *
+ *   0 3 * * * cd /path/to/web && npm run purge:conversations
+ */
+
+import mongoose from "mongoose";
+import dbConnect from "../lib/mongodb";
+import { abandonStaleConversations } from "../lib/conversationStore";
+import { purgeExpiredConversations } from "../lib/retention";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  await dbConnect();
+
+  const stale = await abandonStaleConversations({}, { dryRun });
+  console.log(
+    `${dryRun ? "Would abandon" : "Abandoned"} ${stale.abandoned} conversations ` +
+      `and ${dryRun ? "delete" : "deleted"} ${stale.deleted} that never started`
+  );
+
+  const { retentionDays, cutoff, deleted } = await purgeExpiredConversations({ dryRun });
+  if (retentionDays === null) {
+    console.log("CONVERSATION_RETENTION_DAYS is not set; keeping all conversations");
+    return;
+  }
+  console.log(
+    `${dryRun ? "Would delete" : "Deleted"} ${deleted} conversations unchanged since ` +
+      `${cutoff?.toISOString()} (${retentionDays} day retention)`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("Purge failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
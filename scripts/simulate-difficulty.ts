@@ -0,0 +1,113 @@
+/**
+ * Compare difficulty policies on recorded sessions
+ *
+ *   npm run simulate:difficulty                    # voice conversations from MONGODB_URI
+ *   npm run simulate:difficulty -- --limit 20 --target 0.8 --start 5
+ *   npm run simulate:difficulty -- --file sessions.json
+ *
+ * Replays each session's per-turn metrics through the per-turn policy and
+ * the smoothed controller, and prints where each left the level, how far
+ * it moved per turn and how often it changed direction. A sessions file is
+ * a JSON array of { id?, difficulty, turns: PerformanceIndicators[] }.
+ */
+
+import fs from "fs";
+import mongoose from "mongoose";
+import dbConnect from "../lib/mongodb";
+import Conversation from "../lib/models/Conversation";
+import { PerformanceIndicators, parseDifficultyLevel } from "../lib/difficultyEngine";
+import { DifficultyPolicy, SimulationResult, simulateSession } from "../lib/difficultyController";
+
+interface RecordedSession {
+  id: string;
+  difficulty: number;
+  turns: PerformanceIndicators[];
+}
+
+const POLICIES: DifficultyPolicy[] = ["per-turn", "controller"];
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function readSessionsFile(file: string): RecordedSession[] {
+  const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!Array.isArray(raw)) {
+    throw new Error(`${file} must contain a JSON array of sessions`);
+  }
+  return raw.map((session, i) => ({
+    id: typeof session.id === "string" ? session.id : `session-${i + 1}`,
+    difficulty: parseDifficultyLevel(session.difficulty),
+    turns: Array.isArray(session.turns) ? session.turns : [],
+  }));
+}
+
+async function loadRecordedSessions(limit: number): Promise<RecordedSession[]> {
+  await dbConnect();
+  // Voice conversations record each turn's metrics; a few turns at least
+  const conversations = await Conversation.find({ mode: "voice", "voiceMetricsHistory.2": { $exists: true } })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .lean();
+  return conversations.map((conversation) => ({
+    id: String(conversation._id),
+    difficulty: parseDifficultyLevel(conversation.difficulty),
+    turns: conversation.voiceMetricsHistory,
+  }));
+}
+
+function describe(result: SimulationResult): string {
+  return (
+    `final ${result.finalLevel.toFixed(1)}, ` +
+    `${result.meanAbsoluteStep.toFixed(2)}/turn, ` +
+    `${result.reversals} reversal${result.reversals === 1 ? "" : "s"}`
+  );
+}
+
+async function main() {
+  const file = getArg("file");
+  const limit = parseInt(getArg("limit") || "50", 10);
+  const target = getArg("target");
+  const targetSuccessRate = target ? parseFloat(target) : undefined;
+  const start = getArg("start");
+
+  const sessions = file ? readSessionsFile(file) : await loadRecordedSessions(limit);
+  if (sessions.length === 0) {
+    console.log("No recorded sessions to replay");
+    return;
+  }
+
+  const totals = new Map<DifficultyPolicy, { step: number; reversals: number }>(
+    POLICIES.map((policy) => [policy, { step: 0, reversals: 0 }])
+  );
+
+  for (const session of sessions) {
+    // Stored conversations only record the level they ended at, so that is
+    // where replays start unless --start says otherwise
+    const startLevel = start ? parseDifficultyLevel(start) : session.difficulty;
+    console.log(`${session.id}: ${session.turns.length} turns from level ${startLevel.toFixed(1)}`);
+    for (const policy of POLICIES) {
+      const result = simulateSession(startLevel, session.turns, policy, { targetSuccessRate });
+      console.log(`  ${policy.padEnd(10)} ${describe(result)}`);
+      const total = totals.get(policy)!;
+      total.step += result.meanAbsoluteStep;
+      total.reversals += result.reversals;
+    }
+  }
+
+  console.log(`\nAverages over ${sessions.length} sessions:`);
+  for (const [policy, total] of totals) {
+    console.log(
+      `  ${policy.padEnd(10)} ${(total.step / sessions.length).toFixed(2)}/turn, ` +
+        `${(total.reversals / sessions.length).toFixed(1)} reversals`
+    );
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Simulation failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());